@@ -0,0 +1,93 @@
+// app.js
+// The Express app without app.listen(), so tests can drive it over HTTP.
+import express from "express";
+import cors from "cors";
+import cookieParser from "cookie-parser";
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { dirname } from "path";
+import * as Sentry from "@sentry/node";
+
+// Load env vars FIRST
+dotenv.config();
+
+// Fix __dirname for ES Modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Initialize Sentry BEFORE app setup
+Sentry.init({
+  dsn: process.env.SENTRY_DSN,
+  environment: process.env.NODE_ENV || "development",
+  integrations: [Sentry.expressIntegration()],
+});
+
+const app = express();
+
+// behind Render's proxy: req.ip must be the client, not the load balancer
+app.set("trust proxy", 1);
+
+// Middleware
+const corsOptions = {
+  origin: [
+    "http://localhost:5173",
+    "https://podcast-homepage.vercel.app",
+    "https://www.kirsstordil.com",
+    "https://kirsstordil.com",
+  ],
+  credentials: true,
+};
+
+app.use(cors(corsOptions));
+app.use(express.json());
+app.use(cookieParser());
+
+// Static files
+app.use("/images", express.static(path.join(__dirname, "public/images")));
+
+// STORAGE_DRIVER=local keeps uploads on disk; serve them like the bucket would
+import { files } from "./storage/index.js";
+if (files.localRoot) {
+  app.use("/files", express.static(files.localRoot));
+}
+
+// Routes
+import authRoutes from "./routes/auth.js";
+import contentRoutes from "./routes/content.js";
+import episodeRoutes from "./routes/episodes.js";
+import giveawayRoutes from "./routes/giveaways.js";
+import feedRoutes from "./routes/feed.js";
+import uploadRoutes from "./routes/upload.js";
+import imageUploadRoutes from "./routes/imageUpload.js";
+import audioRoutes from "./routes/audio.js";
+import userRoutes from "./routes/users.js";
+import twoFactorRoutes from "./routes/twoFactor.js";
+import auditRoutes from "./routes/audit.js";
+
+app.use("/api/auth/2fa", twoFactorRoutes);
+app.use("/api/auth", authRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/audit", auditRoutes);
+app.use("/api/content", contentRoutes);
+app.use("/api/episodes", episodeRoutes);
+app.use("/api/giveaways", giveawayRoutes);
+app.use(feedRoutes); // /feed.xml and /api/feed/check
+app.use("/api/upload", uploadRoutes);
+app.use("/uploadimage", imageUploadRoutes);
+app.use("/audio", audioRoutes);
+
+Sentry.setupExpressErrorHandler(app);
+
+// Example download route
+app.get("/audio/download/:filename", (req, res) => {
+  const file = path.join(__dirname, "your-audio-folder", req.params.filename);
+  res.download(file);
+});
+
+// Fallback error handler
+app.use((err, req, res, next) => {
+  res.status(500).json({ error: "Internal server error" });
+});
+
+export default app;
@@ -1,4 +1,7 @@
-const winston = require("winston");
+import dotenv from "dotenv";
+import winston from "winston";
+
+dotenv.config();
 
 const logger = winston.createLogger({
   level: "info",
@@ -6,4 +9,19 @@ const logger = winston.createLogger({
   transports: [new winston.transports.Console()],
 });
 
-module.exports = logger;
+// File sink for the audit trail (services/audit.js): one JSON line per admin
+// action in AUDIT_LOG_FILE, next to the copy kept in the database.
+export const auditFileLogger = process.env.AUDIT_LOG_FILE
+  ? winston.createLogger({
+      level: "info",
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.File({ filename: process.env.AUDIT_LOG_FILE }),
+      ],
+    })
+  : null;
+
+export default logger;
@@ -0,0 +1,79 @@
+// Fixed-window rate limiting. The counter store is pluggable: anything with
+// `hit(key, windowMs) -> Promise<{ count, resetAt }>` works, so a shared
+// store (Redis, RTDB) can replace the in-memory one when running several
+// instances. The in-memory store is also what tests use. The login lockout
+// (services/loginThrottle.js) additionally needs `peek(key)` and `clear(key)`.
+
+export function createMemoryStore() {
+  const windows = new Map();
+
+  const sweep = (now) => {
+    for (const [key, w] of windows) {
+      if (w.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size > 10000) sweep(now);
+
+      let w = windows.get(key);
+      if (!w || w.resetAt <= now) {
+        w = { count: 0, resetAt: now + windowMs };
+        windows.set(key, w);
+      }
+      w.count += 1;
+      return { count: w.count, resetAt: w.resetAt };
+    },
+    // current window without counting a hit
+    async peek(key) {
+      const w = windows.get(key);
+      if (!w || w.resetAt <= Date.now()) return { count: 0, resetAt: 0 };
+      return { count: w.count, resetAt: w.resetAt };
+    },
+    async clear(key) {
+      windows.delete(key);
+    },
+    async reset() {
+      windows.clear();
+    },
+  };
+}
+
+// shared default so every limiter (and the challenge replay check) sees
+// the same counters unless a store is passed explicitly
+export const defaultStore = createMemoryStore();
+
+/**
+ * rateLimit({ name, windowMs, max, key })
+ *  - name: namespaces the counters ("upload-ip", "upload-global", ...)
+ *  - key(req): what to count by; defaults to the client IP
+ */
+export function rateLimit({
+  name,
+  windowMs,
+  max,
+  key = (req) => req.ip,
+  store = defaultStore,
+}) {
+  return async (req, res, next) => {
+    try {
+      const { count, resetAt } = await store.hit(
+        `${name}:${key(req)}`,
+        windowMs
+      );
+      if (count > max) {
+        res.setHeader("Retry-After", Math.ceil((resetAt - Date.now()) / 1000));
+        return res
+          .status(429)
+          .json({ error: "Too many requests", code: "RATE_LIMITED" });
+      }
+      next();
+    } catch (err) {
+      // a broken store shouldn't take uploads down with it
+      console.error("Rate limiter store error:", err);
+      next();
+    }
+  };
+}
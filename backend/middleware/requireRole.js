@@ -0,0 +1,15 @@
+// middleware/requireRole.js
+// Use after verifyToken. Roles travel in the JWT (see routes/auth.js):
+//   owner    - everything, including managing admin users
+//   editor   - curates messages and edits the page
+//   listener - can only list and download audio
+export const ROLES = ["owner", "editor", "listener"];
+
+export function requireRole(...allowed) {
+  return (req, res, next) => {
+    if (!req.user || !allowed.includes(req.user.role)) {
+      return res.status(403).json({ message: "Insufficient permissions." });
+    }
+    next();
+  };
+}
@@ -0,0 +1,12 @@
+// middleware/requireSessionHeader.js
+// For the routes the refresh cookie alone can drive (refresh, logout).
+// Another site can't add a custom header without a CORS preflight, and only
+// the admin origins pass that, so the header shows the admin panel sent it.
+export const SESSION_HEADER = "X-Admin-Session";
+
+export function requireSessionHeader(req, res, next) {
+  if (req.get(SESSION_HEADER) !== "1") {
+    return res.status(403).json({ message: "Missing session header." });
+  }
+  next();
+}
@@ -0,0 +1,35 @@
+// repositories/adminUsers.js
+// Dashboard accounts ("adminUsers/<id>" in the DB):
+// { username, role, passwordHash, inviteTokenHash, inviteExpiresAt, createdAt, invitedBy }
+import { db } from "../storage/index.js";
+
+const ROOT = "adminUsers";
+
+/** All accounts as { id: user }. */
+export async function listAdminUsers() {
+  return (await db.get(ROOT)) || {};
+}
+
+export function getAdminUser(id) {
+  return db.get(`${ROOT}/${id}`);
+}
+
+/** Resolves with [id, user] or null. */
+export async function findAdminUserBy(field, value) {
+  const matches = await db.findByChild(ROOT, field, value);
+  const [entry] = Object.entries(matches);
+  return entry || null;
+}
+
+/** Store a new account, resolves with its id. */
+export function addAdminUser(user) {
+  return db.push(ROOT, user);
+}
+
+export function updateAdminUser(id, values) {
+  return db.update(`${ROOT}/${id}`, values);
+}
+
+export function removeAdminUser(id) {
+  return db.remove(`${ROOT}/${id}`);
+}
@@ -0,0 +1,15 @@
+// repositories/auditLog.js
+// Append-only trail of admin actions ("auditLog/<pushId>"). There is
+// deliberately no update or remove here.
+import { db } from "../storage/index.js";
+
+const ROOT = "auditLog";
+
+export function appendAuditEntry(entry) {
+  return db.push(ROOT, entry);
+}
+
+/** All entries as { id: entry }; push ids sort chronologically. */
+export async function listAuditEntries() {
+  return (await db.get(ROOT)) || {};
+}
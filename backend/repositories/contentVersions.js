@@ -0,0 +1,23 @@
+// repositories/contentVersions.js
+// Earlier states of siteContent ("siteContentVersions/<pushId>"):
+// { content, savedAt, savedBy, replacedAt, replacedBy, reason }
+import { db } from "../storage/index.js";
+
+const ROOT = "siteContentVersions";
+
+export function addContentVersion(version) {
+  return db.push(ROOT, version);
+}
+
+/** All versions as { id: version }; push ids sort chronologically. */
+export async function listContentVersions() {
+  return (await db.get(ROOT)) || {};
+}
+
+export function getContentVersion(id) {
+  return db.get(`${ROOT}/${id}`);
+}
+
+export function removeContentVersion(id) {
+  return db.remove(`${ROOT}/${id}`);
+}
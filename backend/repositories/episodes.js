@@ -0,0 +1,27 @@
+// repositories/episodes.js
+// Podcast episodes ("episodes/<id>" in the DB).
+import { db } from "../storage/index.js";
+
+const ROOT = "episodes";
+
+/** All episodes as { id: episode }. */
+export async function listEpisodes() {
+  return (await db.get(ROOT)) || {};
+}
+
+export function getEpisode(id) {
+  return db.get(`${ROOT}/${id}`);
+}
+
+/** Store a new episode, resolves with its id. */
+export function addEpisode(episode) {
+  return db.push(ROOT, episode);
+}
+
+export function setEpisode(id, episode) {
+  return db.set(`${ROOT}/${id}`, episode);
+}
+
+export function removeEpisode(id) {
+  return db.remove(`${ROOT}/${id}`);
+}
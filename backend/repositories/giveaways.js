@@ -0,0 +1,41 @@
+// repositories/giveaways.js
+// Gift raffles for listeners ("giveaways/<id>" in the DB).
+import { db } from "../storage/index.js";
+
+const ROOT = "giveaways";
+
+/** All campaigns as { id: campaign }. */
+export async function listGiveaways() {
+  return (await db.get(ROOT)) || {};
+}
+
+export function getGiveaway(id) {
+  return db.get(`${ROOT}/${id}`);
+}
+
+/** Store a new campaign, resolves with its id. */
+export function addGiveaway(giveaway) {
+  return db.push(ROOT, giveaway);
+}
+
+/**
+ * Store the draw unless the campaign has one already (or is gone), in one
+ * transaction so two draws at once can't both be saved. Resolves with
+ * whether this one was.
+ */
+export async function saveDraw(id, draw) {
+  const { committed, value } = await db.transaction(
+    `${ROOT}/${id}`,
+    (current) => {
+      // null can mean "not read yet"; writing it back changes nothing
+      if (!current) return null;
+      if (current.draw) return undefined;
+      return { ...current, draw };
+    }
+  );
+  return committed && !!value;
+}
+
+export function removeGiveaway(id) {
+  return db.remove(`${ROOT}/${id}`);
+}
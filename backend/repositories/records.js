@@ -0,0 +1,61 @@
+// repositories/records.js
+// Voice message records ("records/<id>" in the DB).
+import { db } from "../storage/index.js";
+
+const ROOT = "records";
+// { status: number of records }, kept up to date by services/records.js
+const COUNTS = "recordCounts";
+
+/** All records as { id: record }. */
+export async function listRecords() {
+  return (await db.get(ROOT)) || {};
+}
+
+/**
+ * Records ordered by upload time as [[id, record]]; takes the bounds and
+ * limits of db.query, with uploadedAt values.
+ */
+export function queryRecordsByUploadTime(options) {
+  return db.query(ROOT, { orderBy: "uploadedAt", ...options });
+}
+
+/** Store a new record, resolves with its id. */
+export function addRecord(record) {
+  return db.push(ROOT, record);
+}
+
+/** Records pointing at a stored file, as { id: record }. */
+export function findRecordsByFileName(fileName) {
+  return db.findByChild(ROOT, "fileName", fileName);
+}
+
+/** Records with this review status, as { id: record }. */
+export function findRecordsByStatus(status) {
+  return db.findByChild(ROOT, "status", status);
+}
+
+/** The record holding this withdrawal token hash, as { id: record }. */
+export function findRecordByDeletionToken(hash) {
+  return db.findByChild(ROOT, "deletionTokenHash", hash);
+}
+
+export function removeRecord(id) {
+  return db.remove(`${ROOT}/${id}`);
+}
+
+export function getRecord(id) {
+  return db.get(`${ROOT}/${id}`);
+}
+
+export function updateRecord(id, values) {
+  return db.update(`${ROOT}/${id}`, values);
+}
+
+export function getRecordCounts() {
+  return db.get(COUNTS);
+}
+
+/** Change the status counts atomically, see db.transaction. */
+export function updateRecordCounts(update) {
+  return db.transaction(COUNTS, update);
+}
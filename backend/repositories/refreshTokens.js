@@ -0,0 +1,27 @@
+// repositories/refreshTokens.js
+// Issued refresh tokens, keyed by the token's sha256 ("refreshTokens/<hash>"):
+// { userId, familyId, createdAt, expiresAt, revokedAt, replacedBy }
+import { db } from "../storage/index.js";
+
+const ROOT = "refreshTokens";
+
+export function getRefreshToken(hash) {
+  return db.get(`${ROOT}/${hash}`);
+}
+
+export function saveRefreshToken(hash, record) {
+  return db.set(`${ROOT}/${hash}`, record);
+}
+
+export function updateRefreshToken(hash, values) {
+  return db.update(`${ROOT}/${hash}`, values);
+}
+
+/** { hash: record } of tokens matching `field` (e.g. userId, familyId). */
+export function findRefreshTokens(field, value) {
+  return db.findByChild(ROOT, field, value);
+}
+
+export function removeRefreshToken(hash) {
+  return db.remove(`${ROOT}/${hash}`);
+}
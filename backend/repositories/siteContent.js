@@ -0,0 +1,35 @@
+// repositories/siteContent.js
+// The editable homepage content ("siteContent" in the DB).
+import { db } from "../storage/index.js";
+
+const ROOT = "siteContent";
+
+export function getSiteContent() {
+  return db.get(ROOT);
+}
+
+export function setSiteContent(content) {
+  return db.set(ROOT, content);
+}
+
+// who wrote the current content and when: { updatedAt, updatedBy }
+export function getSiteContentMeta() {
+  return db.get("siteContentMeta");
+}
+
+export function setSiteContentMeta(meta) {
+  return db.set("siteContentMeta", meta);
+}
+
+// unpublished edits, same shape as siteContent
+export function getSiteContentDraft() {
+  return db.get("siteContentDraft");
+}
+
+export function setSiteContentDraft(draft) {
+  return db.set("siteContentDraft", draft);
+}
+
+export function removeSiteContentDraft() {
+  return db.remove("siteContentDraft");
+}
@@ -0,0 +1,19 @@
+// repositories/twoFactor.js
+// Per-account 2FA state ("twoFactor/<userId>"), kept apart from adminUsers
+// so the built-in env owner can enroll too:
+// { secret, pendingSecret, enabledAt, lastStep, recoveryCodeHashes }
+import { db } from "../storage/index.js";
+
+const ROOT = "twoFactor";
+
+export function getTwoFactor(userId) {
+  return db.get(`${ROOT}/${userId}`);
+}
+
+export function updateTwoFactor(userId, values) {
+  return db.update(`${ROOT}/${userId}`, values);
+}
+
+export function removeTwoFactor(userId) {
+  return db.remove(`${ROOT}/${userId}`);
+}
@@ -1,46 +1,99 @@
 import express from "express";
-import { bucket, admin } from "../firebase.js";
+import { files } from "../storage/index.js";
+import {
+  findRecordsByFileName,
+  getRecord,
+  updateRecord,
+} from "../repositories/records.js";
+import { getEpisode } from "../repositories/episodes.js";
 import { verifyToken } from "../middleware/verifyToken.js"; // adjust path if needed
+import { requireRole } from "../middleware/requireRole.js";
+import { recordAudit } from "../services/audit.js";
+import { decryptPhone } from "../services/phoneCrypto.js";
+import { normalizePhone } from "../services/phoneNumber.js";
+import {
+  MAX_NOTES_LENGTH,
+  MAX_PAGE_SIZE,
+  ON_AIR_STATUSES,
+  RECORD_SORTS,
+  RECORD_STATUSES,
+  auditedRecord,
+  countStatusChange,
+  decodeCursor,
+  deleteRecords,
+  queryRecords,
+  recordStatus,
+} from "../services/records.js";
 
 const router = express.Router();
+const canEdit = requireRole("owner", "editor");
 
 /**
  * GET /audio/files
- * Returns the list of audio records stored in Realtime DB.
- * Each item contains: id (recordId), name (fileName), url, title, phone, voiceType, uploadedAt, duration
+ * One page of voice message records:
+ *   { items, nextCursor, total, statusCounts }
+ * Each item contains: id (recordId), name (fileName), url, title, notes, hasPhone, voiceType, uploadedAt, duration,
+ * quarantined (flagged by the upload spam checks), quarantineReasons,
+ * status (new/shortlisted/answered/rejected), answeredIn { episodeId, timestamp }
+ * and consent { version, text, acceptedAt, voiceType }
+ *
+ * Query: limit, cursor (nextCursor of the previous page), sort
+ * (newest/oldest/longest/shortest), status, voiceType, hasPhone and
+ * quarantined (true/false), from/to (dates), minDuration/maxDuration
+ * (seconds), q (search text)
  */
 router.get("/files", verifyToken, async (req, res) => {
-  try {
-    const snap = await admin.database().ref("records").once("value");
-    const data = snap.val() || {};
-
-    // convert to array and normalize shape
-    const results = Object.entries(data).map(([id, rec]) => {
-      const r = rec || {};
-      return {
-        id,
-        name: r.fileName || null,
-        url: r.url || null,
-        title: r.title || null,
-        phone: r.phone || null,
-        voiceType: r.voiceType || null,
-        uploadedAt: r.uploadedAt || null,
-        // ensure duration is a number (if missing, fallback to 0)
-        duration:
-          typeof r.duration === "number" && isFinite(r.duration)
-            ? r.duration
-            : Number.parseFloat(r.duration) || 0,
-      };
-    });
+  const query = req.query;
+  const bad = (message) => res.status(400).json({ message });
 
-    // optional: sort newest first by uploadedAt if available
-    results.sort((a, b) => {
-      const ta = a.uploadedAt ? Date.parse(a.uploadedAt) : 0;
-      const tb = b.uploadedAt ? Date.parse(b.uploadedAt) : 0;
-      return tb - ta;
-    });
+  const date = (value) => (value ? Date.parse(value) : undefined);
+  const flag = (value) =>
+    value === "true" ? true : value === "false" ? false : undefined;
+  const number = (value) =>
+    value === undefined || value === "" ? undefined : Number(value);
+
+  const filters = {
+    status: query.status || undefined,
+    voiceType: query.voiceType || undefined,
+    hasPhone: flag(query.hasPhone),
+    quarantined: flag(query.quarantined),
+    from: date(query.from),
+    to: date(query.to),
+    minDuration: number(query.minDuration),
+    maxDuration: number(query.maxDuration),
+    q: query.q || undefined,
+    sort: query.sort || "newest",
+    limit: number(query.limit) ?? undefined,
+  };
+
+  if (filters.status && !RECORD_STATUSES.includes(filters.status)) {
+    return bad(`status must be one of: ${RECORD_STATUSES.join(", ")}`);
+  }
+  if (!RECORD_SORTS.includes(filters.sort)) {
+    return bad(`sort must be one of: ${RECORD_SORTS.join(", ")}`);
+  }
+  for (const key of ["from", "to", "minDuration", "maxDuration"]) {
+    if (filters[key] !== undefined && !Number.isFinite(filters[key])) {
+      return bad(`${key} is not valid`);
+    }
+  }
+  // a date-only "to" means the whole day
+  if (filters.to !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+    filters.to += 24 * 60 * 60 * 1000 - 1;
+  }
+  if (filters.limit !== undefined) {
+    if (!Number.isInteger(filters.limit) || filters.limit < 1) {
+      return bad("limit must be a positive integer");
+    }
+    filters.limit = Math.min(filters.limit, MAX_PAGE_SIZE);
+  }
+  if (query.cursor) {
+    filters.cursor = decodeCursor(query.cursor);
+    if (!filters.cursor) return bad("Invalid cursor");
+  }
 
-    res.json(results);
+  try {
+    res.json(await queryRecords(filters));
   } catch (err) {
     console.error("Error listing audio files:", err);
     res.status(500).json({ message: "Failed to retrieve audio files" });
@@ -49,9 +102,9 @@ router.get("/files", verifyToken, async (req, res) => {
 
 /**
  * DELETE /audio/files/:filename
- * Finds DB record(s) by fileName and removes storage + DB entry
+ * Finds DB record(s) by fileName and removes storage + DB entry (owner/editor)
  */
-router.delete("/files/:filename", verifyToken, async (req, res) => {
+router.delete("/files/:filename", verifyToken, canEdit, async (req, res) => {
   const { filename } = req.params;
   if (!filename) {
     return res.status(400).json({ message: "Filename is required." });
@@ -59,19 +112,18 @@ router.delete("/files/:filename", verifyToken, async (req, res) => {
 
   try {
     // find matching records in DB
-    const q = await admin
-      .database()
-      .ref("records")
-      .orderByChild("fileName")
-      .equalTo(filename)
-      .once("value");
-
-    if (!q.exists()) {
+    const val = await findRecordsByFileName(filename);
+    const keys = Object.keys(val);
+
+    if (keys.length === 0) {
       // If not found in DB, still attempt to delete storage file (best-effort)
-      const file = bucket.file(`audio/${filename}`);
-      const [exists] = await file.exists();
-      if (exists) {
-        await file.delete();
+      const filePath = `audio/${filename}`;
+      if (await files.exists(filePath)) {
+        await files.delete(filePath);
+        await recordAudit(req, "audio.delete", {
+          target: filename,
+          details: { storageOnly: true },
+        });
         return res.json({
           message: `File "${filename}" deleted from storage (no DB record).`,
         });
@@ -79,22 +131,16 @@ router.delete("/files/:filename", verifyToken, async (req, res) => {
       return res.status(404).json({ message: "File not found." });
     }
 
-    const val = q.val();
-    const keys = Object.keys(val);
-
     // delete storage file(s) and DB entry(ies)
-    await Promise.all(
-      keys.map(async (k) => {
-        const rec = val[k] || {};
-        const filePath = `audio/${rec.fileName}`;
-        try {
-          await bucket.file(filePath).delete();
-        } catch (e) {
-          console.warn("Failed to delete storage file:", filePath, e);
-        }
-        await admin.database().ref(`records/${k}`).remove();
-      })
-    );
+    await deleteRecords(val);
+
+    // what was lost, without the listener's details
+    await recordAudit(req, "audio.delete", {
+      target: filename,
+      before: Object.fromEntries(
+        Object.entries(val).map(([id, rec]) => [id, auditedRecord(rec)])
+      ),
+    });
 
     res.json({
       message: `Deleted ${keys.length} record(s) and storage file(s).`,
@@ -105,6 +151,159 @@ router.delete("/files/:filename", verifyToken, async (req, res) => {
   }
 });
 
+/**
+ * PATCH /audio/records/:id
+ * Body: { status?, episodeId?, timestamp?, notes? } (owner/editor).
+ * episodeId and timestamp (seconds into the episode) only apply to
+ * "answered". notes is free text for the team; an empty string clears it.
+ * Shortlisting or answering needs the listener's consent on the record.
+ */
+router.patch("/records/:id", verifyToken, canEdit, async (req, res) => {
+  const { status, episodeId, timestamp, notes } = req.body || {};
+
+  if (status === undefined && notes === undefined) {
+    return res.status(400).json({ message: "Nothing to update." });
+  }
+  if (status !== undefined && !RECORD_STATUSES.includes(status)) {
+    return res.status(400).json({
+      message: `Status must be one of: ${RECORD_STATUSES.join(", ")}`,
+    });
+  }
+  if (
+    notes !== undefined &&
+    notes !== null &&
+    (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH)
+  ) {
+    return res.status(400).json({
+      message: `Notes must be text of at most ${MAX_NOTES_LENGTH} characters.`,
+    });
+  }
+  if (
+    timestamp !== undefined &&
+    timestamp !== null &&
+    !(Number.isFinite(timestamp) && timestamp >= 0)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Timestamp must be seconds (0 or more)." });
+  }
+  if (status !== "answered" && episodeId) {
+    return res
+      .status(400)
+      .json({ message: "Only answered messages link to an episode." });
+  }
+
+  try {
+    const record = await getRecord(req.params.id);
+    if (!record) return res.status(404).json({ message: "Record not found." });
+
+    if (ON_AIR_STATUSES.includes(status) && !record.consent) {
+      return res.status(409).json({
+        message: "The listener hasn't agreed to airing this message.",
+      });
+    }
+    if (episodeId && !(await getEpisode(episodeId))) {
+      return res.status(400).json({ message: "Episode not found." });
+    }
+
+    const values = {};
+    if (status !== undefined) {
+      Object.assign(values, {
+        status,
+        // null removes the link when the status moves away from answered
+        answeredIn: episodeId
+          ? { episodeId, timestamp: timestamp ?? null }
+          : null,
+        statusChangedAt: new Date().toISOString(),
+        statusChangedBy: req.user.username,
+      });
+    }
+    if (notes !== undefined) values.notes = notes?.trim() || null;
+
+    await updateRecord(req.params.id, values);
+    if (status !== undefined) {
+      await countStatusChange(recordStatus(record), status);
+    }
+
+    const target = record.fileName || req.params.id;
+    if (status !== undefined) {
+      await recordAudit(req, "audio.status", {
+        target,
+        before: {
+          status: recordStatus(record),
+          answeredIn: record.answeredIn || null,
+        },
+        after: { status, answeredIn: values.answeredIn },
+      });
+    }
+    if (notes !== undefined) {
+      await recordAudit(req, "audio.notes", {
+        target,
+        before: { notes: record.notes || null },
+        after: { notes: values.notes },
+      });
+    }
+
+    const updated = { ...record, ...values };
+    res.json({
+      id: req.params.id,
+      status: recordStatus(updated),
+      answeredIn: updated.answeredIn || null,
+      notes: updated.notes || null,
+    });
+  } catch (err) {
+    console.error("Error updating record:", err);
+    res.status(500).json({ message: "Failed to update record." });
+  }
+});
+
+/**
+ * POST /audio/records/:id/reveal-phone
+ * The listener's phone number as typed and in E.164 ({ phone, phoneE164 },
+ * the latter null if it isn't a valid number), owner only. Every reveal is
+ * audited; the number itself stays out of the log.
+ */
+router.post(
+  "/records/:id/reveal-phone",
+  verifyToken,
+  requireRole("owner"),
+  async (req, res) => {
+    try {
+      const record = await getRecord(req.params.id);
+      if (!record) {
+        return res.status(404).json({ message: "Record not found." });
+      }
+      if (!record.phoneEncrypted && !record.phone) {
+        return res.status(404).json({ message: "No phone number stored." });
+      }
+
+      // plain text only on records the retention job hasn't encrypted yet
+      const phone = record.phoneEncrypted
+        ? decryptPhone(record.phoneEncrypted)
+        : record.phone;
+      if (!phone) {
+        console.error("Phone number can't be decrypted:", req.params.id);
+        return res
+          .status(500)
+          .json({ message: "Phone number can't be decrypted." });
+      }
+
+      // records from before normalization only have the typed number
+      const phoneE164 = record.phoneE164Encrypted
+        ? decryptPhone(record.phoneE164Encrypted)
+        : normalizePhone(phone);
+
+      await recordAudit(req, "audio.phone_reveal", {
+        target: record.fileName || req.params.id,
+      });
+      res.json({ id: req.params.id, phone, phoneE164 });
+    } catch (err) {
+      console.error("Error revealing phone number:", err);
+      res.status(500).json({ message: "Failed to reveal phone number." });
+    }
+  }
+);
+
 /**
  * GET /audio/download/:filename
  * Streams the storage file back.
@@ -112,17 +311,18 @@ router.delete("/files/:filename", verifyToken, async (req, res) => {
 router.get("/download/:filename", verifyToken, async (req, res) => {
   try {
     const { filename } = req.params;
-    const file = bucket.file(`audio/${filename}`);
+    const filePath = `audio/${filename}`;
 
-    const [exists] = await file.exists();
-    if (!exists) return res.status(404).json({ message: "File not found" });
+    if (!(await files.exists(filePath))) {
+      return res.status(404).json({ message: "File not found" });
+    }
 
     // Optional: set content-type by reading file metadata
-    const [meta] = await file.getMetadata();
+    const meta = await files.getMetadata(filePath);
     const contentType = meta?.contentType || "application/octet-stream";
     res.setHeader("Content-Type", contentType);
     res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-    file.createReadStream().pipe(res);
+    files.createReadStream(filePath).pipe(res);
   } catch (err) {
     console.error("Download failed:", err);
     res.status(500).json({ message: "Download failed" });
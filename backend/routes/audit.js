@@ -0,0 +1,37 @@
+// routes/audit.js
+// Read-only view of the audit trail, owners only.
+import express from "express";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { requireRole } from "../middleware/requireRole.js";
+import { queryAudit } from "../services/audit.js";
+
+const router = express.Router();
+
+router.use(verifyToken, requireRole("owner"));
+
+/**
+ * GET /api/audit?action=&user=&before=&limit=
+ * Newest first. `action` matches exactly, or as a prefix when it ends in a
+ * dot ("content."). Pass the returned `nextBefore` as `before` for the next
+ * page.
+ */
+router.get("/", async (req, res) => {
+  const { action, user, before } = req.query;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+  try {
+    res.json(
+      await queryAudit({
+        action: action || undefined,
+        username: user || undefined,
+        before: before || undefined,
+        limit,
+      })
+    );
+  } catch (err) {
+    console.error("Error reading audit log:", err);
+    res.status(500).json({ message: "Failed to read audit log." });
+  }
+});
+
+export default router;
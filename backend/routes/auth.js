@@ -1,18 +1,69 @@
 import express from "express";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import dotenv from "dotenv";
+import {
+  MIN_PASSWORD_LENGTH,
+  findAccountById,
+  findLoginAccount,
+  hashInviteToken,
+} from "../services/adminUsers.js";
+import {
+  checkSecondFactor,
+  isTwoFactorEnabled,
+  signMfaToken,
+  verifyMfaToken,
+} from "../services/twoFactor.js";
+import {
+  clearFailures,
+  lockoutSeconds,
+  recordFailure,
+  sendLockedOut,
+} from "../services/loginThrottle.js";
+import {
+  findAdminUserBy,
+  updateAdminUser,
+} from "../repositories/adminUsers.js";
+import {
+  REFRESH_TTL_MS,
+  endSession,
+  rotateSession,
+  startSession,
+} from "../services/sessions.js";
+import { requireSessionHeader } from "../middleware/requireSessionHeader.js";
 
 dotenv.config();
 
 const router = express.Router();
 
-// Load from environment
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME;
-const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH;
+// The refresh token lives in an httpOnly cookie scoped to /api/auth. The
+// admin panel reaches /api/auth through a rewrite on its own site
+// (frontend/vercel.json), so the cookie is first-party and can be
+// SameSite=Strict (override with REFRESH_COOKIE_SAMESITE).
+const REFRESH_COOKIE = "admin_refresh";
+const refreshCookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: process.env.REFRESH_COOKIE_SAMESITE || "strict",
+  path: "/api/auth",
+};
+
+// set the refresh cookie and answer with the access token
+const sendSession = (res, { accessToken, refreshToken }) => {
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: REFRESH_TTL_MS,
+  });
+  res.json({ token: accessToken });
+};
+
+// Compared against when there is no account or no password yet, so a
+// login takes as long for a made-up username as for a real one. A hash of
+// random bytes, at the cost new passwords get (accept-invite).
+const DUMMY_PASSWORD_HASH =
+  "$2b$12$G4046hmF5qwuwAQtGX0x1.V5WAxgOsIgoBp0rPKv2eqzMUfArq6CC";
 
 // POST /auth/login
-router.post("/login", (req, res) => {
+router.post("/login", async (req, res) => {
   const { username, password } = req.body;
 
   // Validate input
@@ -22,24 +73,137 @@ router.post("/login", (req, res) => {
       .json({ message: "Username and password are required." });
   }
 
-  // Check if username matches
-  if (username !== ADMIN_USERNAME) {
-    return res.status(401).json({ message: "Invalid username or password" });
+  try {
+    const wait = await lockoutSeconds(req, username);
+    if (wait) return sendLockedOut(res, wait);
+
+    // env owner or a stored user; invited users have no password yet
+    const account = await findLoginAccount(username);
+    const passwordMatch =
+      (await bcrypt.compare(
+        password,
+        account?.passwordHash || DUMMY_PASSWORD_HASH
+      )) && !!account?.passwordHash;
+    if (!passwordMatch) {
+      await recordFailure(req, username);
+      return res.status(401).json({ message: "Invalid username or password" });
+    }
+
+    // enrolled in 2FA: no session until /login/verify gets a valid code
+    if (await isTwoFactorEnabled(account.id)) {
+      return res.json({ mfaRequired: true, mfaToken: signMfaToken(account) });
+    }
+
+    await clearFailures(username);
+    sendSession(res, await startSession(account));
+  } catch (err) {
+    console.error("Login error:", err);
+    res.status(500).json({ message: "Login failed." });
   }
+});
+
+// POST /auth/login/verify — second step: TOTP code or a recovery code
+router.post("/login/verify", async (req, res) => {
+  const { mfaToken, code, recoveryCode } = req.body || {};
 
-  // Check if password matches
-  const passwordMatch = bcrypt.compareSync(password, ADMIN_PASSWORD_HASH);
-  if (!passwordMatch) {
-    return res.status(401).json({ message: "Invalid username or password" });
+  const claims = verifyMfaToken(mfaToken);
+  if (!claims) {
+    return res
+      .status(401)
+      .json({ message: "Login expired, please sign in again." });
+  }
+  if (!code && !recoveryCode) {
+    return res.status(400).json({ message: "Code is required." });
   }
 
-  // Create JWT token
-  const token = jwt.sign({ username }, process.env.JWT_SECRET, {
-    algorithm: "HS512",
-    expiresIn: "1h",
-  });
+  try {
+    const wait = await lockoutSeconds(req, claims.username);
+    if (wait) return sendLockedOut(res, wait);
+
+    const ok = await checkSecondFactor(claims.sub, { code, recoveryCode });
+    if (!ok) {
+      await recordFailure(req, claims.username);
+      return res.status(401).json({ message: "Invalid code" });
+    }
+
+    const account = await findAccountById(claims.sub);
+    if (!account) {
+      return res.status(401).json({ message: "Account no longer exists." });
+    }
+
+    await clearFailures(claims.username);
+    sendSession(res, await startSession(account));
+  } catch (err) {
+    console.error("Login verify error:", err);
+    res.status(500).json({ message: "Login failed." });
+  }
+});
 
-  res.json({ token });
+// POST /auth/accept-invite — invited user picks a password and is logged in
+router.post("/accept-invite", async (req, res) => {
+  const { token, password } = req.body || {};
+
+  if (!token || typeof password !== "string") {
+    return res
+      .status(400)
+      .json({ message: "Invite token and password are required." });
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({
+      message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+    });
+  }
+
+  try {
+    const found = await findAdminUserBy(
+      "inviteTokenHash",
+      hashInviteToken(token)
+    );
+    if (!found || Date.parse(found[1].inviteExpiresAt) < Date.now()) {
+      return res
+        .status(400)
+        .json({ message: "Invite link is invalid or has expired." });
+    }
+
+    const [id, user] = found;
+    await updateAdminUser(id, {
+      passwordHash: await bcrypt.hash(password, 12),
+      inviteTokenHash: null,
+      inviteExpiresAt: null,
+    });
+
+    sendSession(res, await startSession({ id, ...user }));
+  } catch (err) {
+    console.error("Accept invite error:", err);
+    res.status(500).json({ message: "Failed to accept invite." });
+  }
+});
+
+// POST /auth/refresh — new access token (and rotated cookie) for a live session
+router.post("/refresh", requireSessionHeader, async (req, res) => {
+  try {
+    const session = await rotateSession(req.cookies?.[REFRESH_COOKIE]);
+    if (!session) {
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      return res.status(401).json({ message: "Session expired." });
+    }
+    sendSession(res, session);
+  } catch (err) {
+    console.error("Refresh error:", err);
+    res.status(500).json({ message: "Failed to refresh session." });
+  }
+});
+
+// POST /auth/logout — revoke the session server-side and drop the cookie
+router.post("/logout", requireSessionHeader, async (req, res) => {
+  try {
+    await endSession(req.cookies?.[REFRESH_COOKIE]);
+    res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+    res.json({ message: "Logged out." });
+  } catch (err) {
+    console.error("Logout error:", err);
+    res.status(500).json({ message: "Failed to log out." });
+  }
 });
 
 export default router;
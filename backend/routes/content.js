@@ -1,18 +1,39 @@
 import express from "express";
 import { verifyToken } from "../middleware/verifyToken.js";
+import { requireRole } from "../middleware/requireRole.js";
 import Ajv from "ajv";
 import { siteContentSchema } from "../schemas/siteContentSchema.js";
-import { rtdb } from "../firebase.js";
+import { getSiteContent } from "../repositories/siteContent.js";
+import { recordAudit } from "../services/audit.js";
+import {
+  diffContent,
+  getVersion,
+  listVersions,
+  saveSiteContent,
+} from "../services/contentVersions.js";
+import {
+  discardDraft,
+  getDraft,
+  publishDraft,
+  publishDueDraft,
+  saveDraft,
+  scheduleDraft,
+  unscheduleDraft,
+} from "../services/publishing.js";
 
 const router = express.Router();
 const ajv = new Ajv();
 const validateFull = ajv.compile(siteContentSchema);
+const canEdit = requireRole("owner", "editor");
 
 // ✅ GET /api/content
 router.get("/", async (req, res) => {
   try {
-    const snapshot = await rtdb.ref("siteContent").once("value");
-    const content = snapshot.val();
+    // a scheduled draft whose time has come goes live before this read
+    await publishDueDraft().catch((err) =>
+      console.error("Scheduled publish failed:", err)
+    );
+    const content = await getSiteContent();
     if (!content) return res.json({});
     res.json(content);
   } catch (error) {
@@ -22,12 +43,12 @@ router.get("/", async (req, res) => {
 });
 
 // ✅ POST /api/content (replace full content)
-router.post("/", verifyToken, async (req, res) => {
-  const newContent = req.body;
-
-  if (!newContent || typeof newContent !== "object") {
+router.post("/", verifyToken, canEdit, async (req, res) => {
+  if (!req.body || typeof req.body !== "object") {
     return res.status(400).json({ message: "No content provided" });
   }
+  // publish metadata is the server's (services/publishing.js), as on drafts
+  const { publish, ...newContent } = req.body;
 
   if (!validateFull(newContent)) {
     return res.status(400).json({
@@ -37,7 +58,13 @@ router.post("/", verifyToken, async (req, res) => {
   }
 
   try {
-    await rtdb.ref("siteContent").set(newContent);
+    const before = await getSiteContent();
+    // the live content keeps what the server recorded about publishing
+    const after = before?.publish
+      ? { ...newContent, publish: before.publish }
+      : newContent;
+    await saveSiteContent(after, req.user, "replace");
+    await recordAudit(req, "content.replace", { before, after });
     res.json({ message: "Content replaced successfully" });
   } catch (error) {
     console.error("POST content error:", error);
@@ -46,16 +73,15 @@ router.post("/", verifyToken, async (req, res) => {
 });
 
 // ✅ PUT /api/content (merge/partial update)
-router.put("/", verifyToken, async (req, res) => {
-  const updates = req.body;
-
-  if (!updates || typeof updates !== "object") {
+router.put("/", verifyToken, canEdit, async (req, res) => {
+  if (!req.body || typeof req.body !== "object") {
     return res.status(400).json({ message: "Invalid update data" });
   }
+  // publish metadata is the server's, see POST
+  const { publish, ...updates } = req.body;
 
   try {
-    const snapshot = await rtdb.ref("siteContent").once("value");
-    const existingData = snapshot.val() || {};
+    const existingData = (await getSiteContent()) || {};
     const mergedData = deepMerge(existingData, updates);
 
     if (!validateFull(mergedData)) {
@@ -65,7 +91,11 @@ router.put("/", verifyToken, async (req, res) => {
       });
     }
 
-    await rtdb.ref("siteContent").set(mergedData);
+    await saveSiteContent(mergedData, req.user, "merge");
+    await recordAudit(req, "content.merge", {
+      before: existingData,
+      after: mergedData,
+    });
     res.json({ message: "Content updated successfully", updated: mergedData });
   } catch (error) {
     console.error("PUT content error:", error);
@@ -73,6 +103,153 @@ router.put("/", verifyToken, async (req, res) => {
   }
 });
 
+// ✅ GET /api/content/draft (any admin, for the preview page; null if none)
+router.get("/draft", verifyToken, async (req, res) => {
+  try {
+    res.json((await getDraft()) ?? null);
+  } catch (error) {
+    console.error("GET draft error:", error);
+    res.status(500).json({ message: "Failed to fetch draft." });
+  }
+});
+
+// ✅ PUT /api/content/draft (save full content as the draft)
+router.put("/draft", verifyToken, canEdit, async (req, res) => {
+  const { publish, ...content } = req.body || {};
+
+  if (!validateFull(content)) {
+    return res.status(400).json({
+      message: "Invalid content format",
+      errors: validateFull.errors,
+    });
+  }
+
+  try {
+    res.json(await saveDraft(content, req.user));
+  } catch (error) {
+    console.error("PUT draft error:", error);
+    res.status(500).json({ message: "Failed to save draft." });
+  }
+});
+
+// ✅ DELETE /api/content/draft (throw the draft away)
+router.delete("/draft", verifyToken, canEdit, async (req, res) => {
+  try {
+    await discardDraft();
+    await recordAudit(req, "content.discard");
+    res.json({ message: "Draft discarded" });
+  } catch (error) {
+    console.error("DELETE draft error:", error);
+    res.status(500).json({ message: "Failed to discard draft." });
+  }
+});
+
+// ✅ POST /api/content/draft/publish (make the draft live now)
+router.post("/draft/publish", verifyToken, canEdit, async (req, res) => {
+  try {
+    const before = await getSiteContent();
+    const live = await publishDraft(req.user);
+    if (!live) return res.status(404).json({ message: "No draft to publish" });
+
+    await recordAudit(req, "content.publish", { before, after: live });
+    res.json({ message: "Draft published", content: live });
+  } catch (error) {
+    console.error("Publish draft error:", error);
+    res.status(500).json({ message: "Failed to publish draft." });
+  }
+});
+
+// ✅ PUT /api/content/draft/schedule { publishAt } (publish later)
+router.put("/draft/schedule", verifyToken, canEdit, async (req, res) => {
+  const publishAt = Date.parse(req.body?.publishAt);
+  if (!Number.isFinite(publishAt) || publishAt <= Date.now()) {
+    return res
+      .status(400)
+      .json({ message: "publishAt must be a date in the future" });
+  }
+
+  try {
+    const draft = await scheduleDraft(publishAt, req.user);
+    if (!draft)
+      return res.status(404).json({ message: "No draft to schedule" });
+
+    await recordAudit(req, "content.schedule", {
+      details: { publishAt: draft.publish.publishAt },
+    });
+    res.json(draft);
+  } catch (error) {
+    console.error("Schedule draft error:", error);
+    res.status(500).json({ message: "Failed to schedule draft." });
+  }
+});
+
+// ✅ DELETE /api/content/draft/schedule (back to a plain draft)
+router.delete("/draft/schedule", verifyToken, canEdit, async (req, res) => {
+  try {
+    const draft = await unscheduleDraft();
+    if (!draft) return res.status(404).json({ message: "No draft" });
+
+    await recordAudit(req, "content.unschedule");
+    res.json(draft);
+  } catch (error) {
+    console.error("Unschedule draft error:", error);
+    res.status(500).json({ message: "Failed to unschedule draft." });
+  }
+});
+
+// ✅ GET /api/content/versions (earlier versions, newest first)
+router.get("/versions", verifyToken, canEdit, async (req, res) => {
+  try {
+    res.json(await listVersions());
+  } catch (error) {
+    console.error("GET content versions error:", error);
+    res.status(500).json({ message: "Failed to fetch versions." });
+  }
+});
+
+// ✅ GET /api/content/versions/:id (a version plus what restoring it changes)
+router.get("/versions/:id", verifyToken, canEdit, async (req, res) => {
+  try {
+    const version = await getVersion(req.params.id);
+    if (!version) return res.status(404).json({ message: "Version not found" });
+
+    const current = (await getSiteContent()) || {};
+    res.json({ ...version, changes: diffContent(current, version.content) });
+  } catch (error) {
+    console.error("GET content version error:", error);
+    res.status(500).json({ message: "Failed to fetch version." });
+  }
+});
+
+// ✅ POST /api/content/versions/:id/restore (the current content is kept too)
+router.post("/versions/:id/restore", verifyToken, canEdit, async (req, res) => {
+  try {
+    const version = await getVersion(req.params.id);
+    if (!version) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    // the schema may have moved on since this version was saved
+    if (!validateFull(version.content)) {
+      return res.status(400).json({
+        message: "This version no longer matches the content format",
+        errors: validateFull.errors,
+      });
+    }
+
+    const before = await getSiteContent();
+    await saveSiteContent(version.content, req.user, "restore");
+    await recordAudit(req, "content.restore", {
+      target: version.id,
+      before,
+      after: version.content,
+    });
+    res.json({ message: "Version restored", content: version.content });
+  } catch (error) {
+    console.error("Restore content error:", error);
+    res.status(500).json({ message: "Failed to restore version." });
+  }
+});
+
 // 🔧 Deep merge helper
 function deepMerge(target, source) {
   const result = { ...target };
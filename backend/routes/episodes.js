@@ -0,0 +1,260 @@
+// routes/episodes.js
+// The episode catalog shown on the homepage.
+import express from "express";
+import Ajv from "ajv";
+import multer from "multer";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { requireRole } from "../middleware/requireRole.js";
+import { episodeSchema } from "../schemas/episodeSchema.js";
+import {
+  addEpisode,
+  getEpisode,
+  listEpisodes,
+  removeEpisode,
+  setEpisode,
+} from "../repositories/episodes.js";
+import { recordAudit } from "../services/audit.js";
+import { answeredByEpisode } from "../services/records.js";
+import {
+  MAX_EPISODE_BYTES,
+  inspectEpisodeAudio,
+} from "../services/audioValidation.js";
+import { files } from "../storage/index.js";
+
+const router = express.Router();
+const ajv = new Ajv();
+const validateEpisode = ajv.compile(episodeSchema);
+const canEdit = requireRole("owner", "editor");
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_EPISODE_BYTES, files: 1 },
+});
+
+// multer errors -> { message, code } 4xx instead of the generic 500 handler
+const receiveAudio = (req, res, next) =>
+  upload.single("audio")(req, res, (err) => {
+    if (!err) return next();
+    if (err.code === "LIMIT_FILE_SIZE") {
+      return res
+        .status(413)
+        .json({ message: "File too large", code: "FILE_TOO_LARGE" });
+    }
+    if (err instanceof multer.MulterError) {
+      return res
+        .status(400)
+        .json({ message: err.message, code: "INVALID_UPLOAD" });
+    }
+    next(err);
+  });
+
+const deleteAudioFile = async (audio) => {
+  if (!audio?.path) return;
+  try {
+    await files.delete(audio.path);
+  } catch (e) {
+    console.warn("Failed to delete episode audio:", audio.path, e);
+  }
+};
+
+const isPublished = (episode, now = Date.now()) =>
+  Date.parse(episode.publishedAt) <= now;
+
+// newest first
+const sortedEpisodes = async () =>
+  Object.entries(await listEpisodes())
+    .map(([id, episode]) => ({ id, ...episode, tags: episode.tags || [] }))
+    .sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+
+// validates the body and tidies it; sends a 400 and returns null if invalid
+const episodeFromBody = (req, res) => {
+  const episode = { ...req.body };
+  if (Array.isArray(episode.tags)) {
+    episode.tags = [
+      ...new Set(episode.tags.map((t) => String(t).trim()).filter(Boolean)),
+    ];
+  }
+
+  if (!validateEpisode(episode)) {
+    res.status(400).json({
+      message: "Invalid episode",
+      errors: validateEpisode.errors,
+    });
+    return null;
+  }
+  if (Number.isNaN(Date.parse(episode.publishedAt))) {
+    res.status(400).json({ message: "publishedAt must be a date" });
+    return null;
+  }
+  episode.publishedAt = new Date(episode.publishedAt).toISOString();
+  return episode;
+};
+
+/**
+ * GET /api/episodes?limit=
+ * Published episodes (publishedAt in the past), newest first, each with
+ * answeredMessages: [{ title, timestamp }] from the voice message inbox.
+ */
+router.get("/", async (req, res) => {
+  const limit = Number.parseInt(req.query.limit, 10);
+  try {
+    const published = (await sortedEpisodes()).filter((e) => isPublished(e));
+    const answered = await answeredByEpisode();
+    const episodes = (limit > 0 ? published.slice(0, limit) : published).map(
+      (e) => ({ ...e, answeredMessages: answered[e.id] || [] })
+    );
+    res.json(episodes);
+  } catch (err) {
+    console.error("Error listing episodes:", err);
+    res.status(500).json({ message: "Failed to retrieve episodes." });
+  }
+});
+
+// GET /api/episodes/all — including future-dated ones, for the editor
+router.get("/all", verifyToken, async (req, res) => {
+  try {
+    res.json(await sortedEpisodes());
+  } catch (err) {
+    console.error("Error listing episodes:", err);
+    res.status(500).json({ message: "Failed to retrieve episodes." });
+  }
+});
+
+// GET /api/episodes/:id
+router.get("/:id", async (req, res) => {
+  try {
+    const episode = await getEpisode(req.params.id);
+    if (!episode || !isPublished(episode)) {
+      return res.status(404).json({ message: "Episode not found." });
+    }
+    const answered = await answeredByEpisode();
+    res.json({
+      id: req.params.id,
+      ...episode,
+      tags: episode.tags || [],
+      answeredMessages: answered[req.params.id] || [],
+    });
+  } catch (err) {
+    console.error("Error fetching episode:", err);
+    res.status(500).json({ message: "Failed to retrieve episode." });
+  }
+});
+
+// POST /api/episodes
+router.post("/", verifyToken, canEdit, async (req, res) => {
+  const episode = episodeFromBody(req, res);
+  if (!episode) return;
+
+  try {
+    const id = await addEpisode(episode);
+    await recordAudit(req, "episode.create", {
+      target: id,
+      after: episode,
+    });
+    res.status(201).json({ id, ...episode });
+  } catch (err) {
+    console.error("Error creating episode:", err);
+    res.status(500).json({ message: "Failed to create episode." });
+  }
+});
+
+// PUT /api/episodes/:id (replace)
+router.put("/:id", verifyToken, canEdit, async (req, res) => {
+  const episode = episodeFromBody(req, res);
+  if (!episode) return;
+
+  try {
+    const before = await getEpisode(req.params.id);
+    if (!before) return res.status(404).json({ message: "Episode not found." });
+
+    // the uploaded audio isn't part of the form, keep it
+    if (before.audio) episode.audio = before.audio;
+    await setEpisode(req.params.id, episode);
+    await recordAudit(req, "episode.update", {
+      target: req.params.id,
+      before,
+      after: episode,
+    });
+    res.json({ id: req.params.id, ...episode });
+  } catch (err) {
+    console.error("Error updating episode:", err);
+    res.status(500).json({ message: "Failed to update episode." });
+  }
+});
+
+// DELETE /api/episodes/:id
+router.delete("/:id", verifyToken, canEdit, async (req, res) => {
+  try {
+    const before = await getEpisode(req.params.id);
+    if (!before) return res.status(404).json({ message: "Episode not found." });
+
+    await removeEpisode(req.params.id);
+    await deleteAudioFile(before.audio);
+    await recordAudit(req, "episode.delete", {
+      target: req.params.id,
+      before,
+    });
+    res.json({ message: `Deleted episode "${before.title}".` });
+  } catch (err) {
+    console.error("Error deleting episode:", err);
+    res.status(500).json({ message: "Failed to delete episode." });
+  }
+});
+
+/**
+ * POST /api/episodes/:id/audio (multipart, field "audio")
+ * The episode's MP3/M4A for the podcast feed; replaces any earlier file.
+ */
+router.post(
+  "/:id/audio",
+  verifyToken,
+  canEdit,
+  receiveAudio,
+  async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No audio uploaded" });
+    }
+
+    try {
+      const episode = await getEpisode(req.params.id);
+      if (!episode) {
+        return res.status(404).json({ message: "Episode not found." });
+      }
+
+      const inspected = await inspectEpisodeAudio(req.file.buffer);
+      if (inspected.error) {
+        const { status, code, message } = inspected.error;
+        return res.status(status).json({ message, code });
+      }
+
+      // a new name each time, so podcast apps don't serve a cached old file
+      const path = `episodes/${req.params.id}-${Date.now()}${inspected.ext}`;
+      await files.save(path, req.file.buffer, {
+        contentType: inspected.mimeType,
+        cacheControl: "public, max-age=31536000",
+      });
+
+      const audio = {
+        path,
+        url: await files.publicUrl(path),
+        mimeType: inspected.mimeType,
+        size: req.file.size,
+        duration: Math.round(inspected.duration),
+      };
+      await setEpisode(req.params.id, { ...episode, audio });
+      await deleteAudioFile(episode.audio);
+
+      await recordAudit(req, "episode.audio", {
+        target: req.params.id,
+        before: episode.audio ?? null,
+        after: audio,
+      });
+      res.json({ id: req.params.id, ...episode, audio });
+    } catch (err) {
+      console.error("Episode audio upload failed:", err);
+      res.status(500).json({ message: "Failed to upload episode audio." });
+    }
+  }
+);
+
+export default router;
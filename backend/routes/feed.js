@@ -0,0 +1,51 @@
+// routes/feed.js
+// GET /feed.xml for podcast directories, and a readiness check for admins.
+import express from "express";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { listEpisodes } from "../repositories/episodes.js";
+import { getSiteContent } from "../repositories/siteContent.js";
+import {
+  buildFeed,
+  feedConfig,
+  validateFeed,
+} from "../services/podcastFeed.js";
+
+const router = express.Router();
+
+const loadFeedInput = async (req) => {
+  const [site, stored] = await Promise.all([getSiteContent(), listEpisodes()]);
+  const baseUrl = `${req.protocol}://${req.get("host")}`;
+  return {
+    site: site || {},
+    episodes: Object.entries(stored).map(([id, e]) => ({ id, ...e })),
+    config: feedConfig(),
+    baseUrl,
+    feedUrl: `${baseUrl}/feed.xml`,
+  };
+};
+
+// GET /feed.xml
+router.get("/feed.xml", async (req, res) => {
+  try {
+    const xml = buildFeed(await loadFeedInput(req));
+    res.set("Content-Type", "application/rss+xml; charset=utf-8");
+    res.set("Cache-Control", "public, max-age=300");
+    res.send(xml);
+  } catch (err) {
+    console.error("Error building feed:", err);
+    res.status(500).json({ message: "Failed to build feed." });
+  }
+});
+
+// GET /api/feed/check — { feedUrl, problems: [{ level, message }] }
+router.get("/api/feed/check", verifyToken, async (req, res) => {
+  try {
+    const input = await loadFeedInput(req);
+    res.json({ feedUrl: input.feedUrl, problems: validateFeed(input) });
+  } catch (err) {
+    console.error("Error checking feed:", err);
+    res.status(500).json({ message: "Failed to check feed." });
+  }
+});
+
+export default router;
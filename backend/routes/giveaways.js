@@ -0,0 +1,182 @@
+// routes/giveaways.js
+// Gift raffles among listeners who left a phone number (owner only: the
+// entries are phone numbers, see services/giveaways.js).
+import express from "express";
+import Ajv from "ajv";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { requireRole } from "../middleware/requireRole.js";
+import { giveawaySchema } from "../schemas/giveawaySchema.js";
+import {
+  addGiveaway,
+  getGiveaway,
+  listGiveaways,
+  removeGiveaway,
+  saveDraw,
+} from "../repositories/giveaways.js";
+import { recordAudit } from "../services/audit.js";
+import { eligibleEntries, runDraw, verifyDraw } from "../services/giveaways.js";
+
+const router = express.Router();
+const ajv = new Ajv();
+const validateGiveaway = ajv.compile(giveawaySchema);
+
+router.use(verifyToken, requireRole("owner"));
+
+// the entry list is kept for verifyDraw but isn't needed by the dashboard
+const withoutEntryIds = ({ eligibleIds, ...draw }) => draw;
+
+const toResponse = (id, giveaway) => ({
+  id,
+  ...giveaway,
+  draw: giveaway.draw
+    ? { ...withoutEntryIds(giveaway.draw), verified: verifyDraw(giveaway.draw) }
+    : null,
+});
+
+/**
+ * GET /api/giveaways
+ * Every campaign with its draw (if any), newest first.
+ */
+router.get("/", async (req, res) => {
+  try {
+    const giveaways = Object.entries(await listGiveaways())
+      .map(([id, giveaway]) => toResponse(id, giveaway))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+    res.json(giveaways);
+  } catch (err) {
+    console.error("Error listing giveaways:", err);
+    res.status(500).json({ message: "Failed to retrieve giveaways." });
+  }
+});
+
+/**
+ * POST /api/giveaways
+ * Body: { name, description?, startsAt, endsAt, winnersCount }
+ */
+router.post("/", async (req, res) => {
+  const giveaway = { ...req.body };
+  if (!validateGiveaway(giveaway)) {
+    return res.status(400).json({
+      message: "Invalid giveaway",
+      errors: validateGiveaway.errors,
+    });
+  }
+  const startsAt = Date.parse(giveaway.startsAt);
+  const endsAt = Date.parse(giveaway.endsAt);
+  if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) {
+    return res
+      .status(400)
+      .json({ message: "startsAt and endsAt must be dates" });
+  }
+  if (endsAt <= startsAt) {
+    return res
+      .status(400)
+      .json({ message: "The window ends before it starts" });
+  }
+
+  Object.assign(giveaway, {
+    startsAt: new Date(startsAt).toISOString(),
+    endsAt: new Date(endsAt).toISOString(),
+    createdAt: new Date().toISOString(),
+    createdBy: req.user.username,
+  });
+
+  try {
+    const id = await addGiveaway(giveaway);
+    await recordAudit(req, "giveaway.create", { target: id, after: giveaway });
+    res.status(201).json(toResponse(id, giveaway));
+  } catch (err) {
+    console.error("Error creating giveaway:", err);
+    res.status(500).json({ message: "Failed to create giveaway." });
+  }
+});
+
+/**
+ * GET /api/giveaways/:id/entries
+ * Who would take part if the draw ran now: [{ recordId, title, fileName, uploadedAt }]
+ */
+router.get("/:id/entries", async (req, res) => {
+  try {
+    const giveaway = await getGiveaway(req.params.id);
+    if (!giveaway) {
+      return res.status(404).json({ message: "Giveaway not found." });
+    }
+    res.json(await eligibleEntries(giveaway));
+  } catch (err) {
+    console.error("Error listing giveaway entries:", err);
+    res.status(500).json({ message: "Failed to retrieve entries." });
+  }
+});
+
+/**
+ * POST /api/giveaways/:id/draw
+ * Body: { seed? } -- e.g. a number announced on air beforehand, so listeners
+ * can check the result; a random one is used otherwise. Draws only once.
+ */
+router.post("/:id/draw", async (req, res) => {
+  const seed = req.body?.seed;
+  if (seed !== undefined && (typeof seed !== "string" || !seed.trim())) {
+    return res.status(400).json({ message: "Seed must be non-empty text." });
+  }
+
+  try {
+    const giveaway = await getGiveaway(req.params.id);
+    if (!giveaway) {
+      return res.status(404).json({ message: "Giveaway not found." });
+    }
+    if (giveaway.draw) {
+      return res
+        .status(409)
+        .json({ message: "This giveaway was drawn already." });
+    }
+    if (Date.parse(giveaway.endsAt) > Date.now()) {
+      return res
+        .status(409)
+        .json({ message: "The giveaway is still open for messages." });
+    }
+
+    const draw = {
+      ...(await runDraw(giveaway, seed?.trim())),
+      drawnBy: req.user.username,
+    };
+    // another draw may have finished while this one ran
+    if (!(await saveDraw(req.params.id, draw))) {
+      return res
+        .status(409)
+        .json({ message: "This giveaway was drawn already." });
+    }
+    await recordAudit(req, "giveaway.draw", {
+      target: req.params.id,
+      details: {
+        seed: draw.seed,
+        eligibleCount: draw.eligibleCount,
+        winners: draw.winners.map((w) => w.recordId),
+      },
+    });
+    res.json(toResponse(req.params.id, { ...giveaway, draw }));
+  } catch (err) {
+    console.error("Error drawing giveaway:", err);
+    res.status(500).json({ message: "Failed to draw winners." });
+  }
+});
+
+// DELETE /api/giveaways/:id
+router.delete("/:id", async (req, res) => {
+  try {
+    const before = await getGiveaway(req.params.id);
+    if (!before) {
+      return res.status(404).json({ message: "Giveaway not found." });
+    }
+    await removeGiveaway(req.params.id);
+    await recordAudit(req, "giveaway.delete", {
+      target: req.params.id,
+      before: { ...before, draw: before.draw && withoutEntryIds(before.draw) },
+    });
+    res.json({ message: `Deleted giveaway "${before.name}".` });
+  } catch (err) {
+    console.error("Error deleting giveaway:", err);
+    res.status(500).json({ message: "Failed to delete giveaway." });
+  }
+});
+
+export default router;
@@ -1,10 +1,13 @@
 import express from "express";
+import crypto from "crypto";
 import multer from "multer";
 import { verifyToken } from "../middleware/verifyToken.js";
-import admin from "firebase-admin";
+import { requireRole } from "../middleware/requireRole.js";
+import { files } from "../storage/index.js";
+import { recordAudit } from "../services/audit.js";
 
 const router = express.Router();
-const bucket = admin.storage().bucket();
+const editorOnly = [verifyToken, requireRole("owner", "editor")];
 
 // Use memory storage
 const upload = multer({
@@ -23,7 +26,7 @@ const upload = multer({
   },
 });
 
-router.post("/", verifyToken, upload.single("image"), async (req, res) => {
+router.post("/", editorOnly, upload.single("image"), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No image uploaded" });
@@ -31,22 +34,31 @@ router.post("/", verifyToken, upload.single("image"), async (req, res) => {
 
     const isMobile = req.query.type === "mobile";
     const fileName = isMobile ? "background-small.jpg" : "background.jpg";
-    const destination = `site-images/${fileName}`;
+    let destination = `site-images/${fileName}`;
 
-    const file = bucket.file(destination);
+    // episode cover art gets a fresh name; backgrounds are overwritten
+    if (req.query.type === "episode") {
+      const ext = req.file.mimetype === "image/png" ? "png" : "jpg";
+      destination = `episode-covers/${crypto.randomUUID()}.${ext}`;
+    }
 
-    // Save to Firebase Storage
-    await file.save(req.file.buffer, {
+    // Save to storage (Firebase bucket or local disk)
+    await files.save(destination, req.file.buffer, {
       contentType: req.file.mimetype,
-      metadata: { cacheControl: "public, max-age=31536000" },
+      cacheControl: "public, max-age=31536000",
     });
 
-    // Generate signed URL (valid for e.g. 1 year)
-    const [signedUrl] = await file.getSignedUrl({
-      action: "read",
-      expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
+    await recordAudit(req, "image.upload", {
+      target: destination,
+      details: { size: req.file.size, contentType: req.file.mimetype },
     });
 
+    // Generate signed URL (valid for e.g. 1 year)
+    const signedUrl = await files.signedUrl(
+      destination,
+      365 * 24 * 60 * 60 * 1000 // 1 year
+    );
+
     return res.json({
       message: "Image uploaded successfully",
       imageUrl: signedUrl,
@@ -0,0 +1,115 @@
+// routes/twoFactor.js
+// 2FA enrollment for the logged-in admin (any role).
+import express from "express";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { recordAudit } from "../services/audit.js";
+import {
+  beginEnrollment,
+  checkSecondFactor,
+  confirmEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  twoFactorStatus,
+} from "../services/twoFactor.js";
+import {
+  clearFailures,
+  lockoutSeconds,
+  recordFailure,
+  sendLockedOut,
+} from "../services/loginThrottle.js";
+
+const router = express.Router();
+
+router.use(verifyToken);
+
+// Codes are checked here as on the second login step, and failures count
+// towards the same lockout, or these routes would let anyone holding a
+// session guess codes freely. `check` tries the code (the enrolled secret
+// or a recovery code by default). Resolves with what it found, or answers
+// itself and resolves null when the request mustn't go on.
+async function checkCode(
+  req,
+  res,
+  check = () => checkSecondFactor(req.user.sub, req.body)
+) {
+  const wait = await lockoutSeconds(req, req.user.username);
+  if (wait) {
+    sendLockedOut(res, wait);
+    return null;
+  }
+  const result = await check();
+  if (!result) {
+    await recordFailure(req, req.user.username);
+    res.status(400).json({ message: "Invalid code" });
+    return null;
+  }
+  await clearFailures(req.user.username);
+  return result;
+}
+
+// GET /api/auth/2fa
+router.get("/", async (req, res) => {
+  try {
+    res.json(await twoFactorStatus(req.user.sub));
+  } catch (err) {
+    console.error("2FA status error:", err);
+    res.status(500).json({ message: "Failed to read 2FA status." });
+  }
+});
+
+// POST /api/auth/2fa/setup — new secret + QR code, not active yet
+router.post("/setup", async (req, res) => {
+  try {
+    const { enabled } = await twoFactorStatus(req.user.sub);
+    if (enabled) {
+      return res.status(409).json({ message: "2FA is already enabled." });
+    }
+    res.json(
+      await beginEnrollment({ id: req.user.sub, username: req.user.username })
+    );
+  } catch (err) {
+    console.error("2FA setup error:", err);
+    res.status(500).json({ message: "Failed to start 2FA setup." });
+  }
+});
+
+// POST /api/auth/2fa/enable — first valid code switches it on
+router.post("/enable", async (req, res) => {
+  try {
+    const recoveryCodes = await checkCode(req, res, () =>
+      confirmEnrollment(req.user.sub, req.body?.code)
+    );
+    if (!recoveryCodes) return;
+    await recordAudit(req, "2fa.enable", { target: req.user.username });
+    res.json({ recoveryCodes });
+  } catch (err) {
+    console.error("2FA enable error:", err);
+    res.status(500).json({ message: "Failed to enable 2FA." });
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes — replace all recovery codes
+router.post("/recovery-codes", async (req, res) => {
+  try {
+    if (!(await checkCode(req, res))) return;
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user.sub) });
+  } catch (err) {
+    console.error("2FA recovery codes error:", err);
+    res.status(500).json({ message: "Failed to create recovery codes." });
+  }
+});
+
+// POST /api/auth/2fa/disable — needs a current code or a recovery code
+router.post("/disable", async (req, res) => {
+  try {
+    if (!(await checkCode(req, res))) return;
+    await disableTwoFactor(req.user.sub);
+    await recordAudit(req, "2fa.disable", { target: req.user.username });
+    res.json({ message: "2FA disabled." });
+  } catch (err) {
+    console.error("2FA disable error:", err);
+    res.status(500).json({ message: "Failed to disable 2FA." });
+  }
+});
+
+export default router;
@@ -2,49 +2,471 @@
 import express from "express";
 import multer from "multer";
 import path from "path";
-import { admin, bucket } from "../firebase.js";
+import { files } from "../storage/index.js";
+import { addRecord } from "../repositories/records.js";
+import { encryptPhone } from "../services/phoneCrypto.js";
+import { acceptPhone } from "../services/phoneNumber.js";
+import { newDeletionToken, withdrawRecording } from "../services/withdrawal.js";
+import { recordAudit } from "../services/audit.js";
+import { countStatusChange } from "../services/records.js";
+import { acceptConsent, currentConsent } from "../services/consent.js";
 import { parseBuffer } from "music-metadata";
+import {
+  anonymizeAudio,
+  isServerVoice,
+  serverAnonymizeEnabled,
+} from "../services/voiceAnonymizer.js";
+import {
+  assemble,
+  createSession,
+  getSession,
+  listReceived,
+  removeSession,
+  writeChunk,
+} from "../services/chunkedUploads.js";
+import {
+  MAX_UPLOAD_BYTES,
+  checkDuration,
+  inspectAudio,
+  isAcceptedMimeType,
+  uploadError,
+} from "../services/audioValidation.js";
+import { assessSubmission, issueChallenge } from "../services/spamChallenge.js";
+import { rateLimit } from "../middleware/rateLimit.js";
 
 const router = express.Router();
-const upload = multer({ storage: multer.memoryStorage() });
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (isAcceptedMimeType(file.mimetype)) {
+      cb(null, true);
+    } else {
+      const err = new Error("Only audio files are allowed");
+      err.code = "UNSUPPORTED_FORMAT";
+      cb(err);
+    }
+  },
+});
+
+// Public endpoint: throttle per client and across everyone, so a single
+// script can't flood the bucket and a botnet can't either.
+const HOUR = 60 * 60 * 1000;
+const perIpUploads = rateLimit({
+  name: "upload-ip",
+  windowMs: HOUR,
+  max: Number(process.env.UPLOAD_RATE_PER_IP) || 10,
+});
+const globalUploads = rateLimit({
+  name: "upload-global",
+  windowMs: HOUR,
+  max: Number(process.env.UPLOAD_RATE_GLOBAL) || 200,
+  key: () => "all",
+});
+const chunkLimit = rateLimit({
+  name: "upload-chunk",
+  windowMs: HOUR,
+  max: 500,
+});
+const withdrawLimit = rateLimit({
+  name: "upload-withdraw",
+  windowMs: HOUR,
+  max: 20,
+});
+const challengeLimit = rateLimit({
+  name: "upload-challenge",
+  windowMs: 10 * 60 * 1000,
+  max: 30,
+});
+
+// All 4xx responses from this router look like { error, code } so the
+// recorder can show a localized message per code.
+const sendUploadError = (res, { status, code, message }) =>
+  res.status(status).json({ error: message, code });
+
+// multer errors -> structured 4xx instead of the generic 500 handler
+const receiveAudio = (req, res, next) =>
+  upload.single("audio")(req, res, (err) => {
+    if (!err) return next();
+    if (err.code === "LIMIT_FILE_SIZE") {
+      return sendUploadError(
+        res,
+        uploadError(413, "FILE_TOO_LARGE", "File too large")
+      );
+    }
+    if (err.code === "UNSUPPORTED_FORMAT") {
+      return sendUploadError(
+        res,
+        uploadError(415, "UNSUPPORTED_FORMAT", err.message)
+      );
+    }
+    if (err instanceof multer.MulterError) {
+      return sendUploadError(
+        res,
+        uploadError(400, "INVALID_UPLOAD", err.message)
+      );
+    }
+    next(err);
+  });
 
 /**
  * POST /api/upload
  * form fields:
  *  - audio (file)
  *  - title (string, optional)
- *  - phoneNumber (string, optional)
+ *  - phoneNumber (string, optional) -- Estonian unless it has a country
+ *    code; anything that isn't a phone number is refused (PHONE_INVALID)
  *  - voiceType (string, optional)
  *  - duration (string/number, optional) -- duration in seconds sent from client
+ *  - anonymize ("true", optional) -- audio is the raw recording; apply the
+ *    voiceType preset here and store only the processed result
+ *  - challengeToken, challengeNonce -- solved proof-of-work from /challenge
+ *  - website -- honeypot, must stay empty
+ *  - consentVersion -- version of the consent text the listener accepted
+ *    (GET /api/upload/consent); uploads without current consent are refused
  */
-router.post("/", upload.single("audio"), async (req, res) => {
-  try {
+router.post(
+  "/",
+  perIpUploads,
+  globalUploads,
+  receiveAudio,
+  async (req, res) => {
     if (!req.file) {
-      return res.status(400).json({ error: "No file uploaded" });
+      return sendUploadError(
+        res,
+        uploadError(400, "NO_FILE", "No file uploaded")
+      );
     }
 
-    const rawTitle = (req.body.title || "").toString();
-    const phoneNumber = req.body.phoneNumber || null;
-    const voiceType = req.body.voiceType || null;
+    const { consent, error } = await acceptConsent(req.body.consentVersion);
+    if (error) return sendUploadError(res, error);
+    const { phone, error: phoneError } = acceptPhone(req.body.phoneNumber);
+    if (phoneError) return sendUploadError(res, phoneError);
+
+    const verdict = await assessSubmission(req.body);
+    if (verdict.reject) return sendChallengeFailed(res, verdict);
+
+    await storeRecording(
+      res,
+      req.file,
+      req.body,
+      verdict.reasons,
+      consent,
+      phone
+    );
+  }
+);
+
+/**
+ * GET /api/upload/consent
+ * The consent text the recorder shows next to its checkbox: { text, version }.
+ */
+router.get("/consent", async (req, res) => {
+  try {
+    res.json(await currentConsent());
+  } catch (err) {
+    console.error("Error reading consent text:", err);
+    res.status(500).json({ error: "Failed to load consent text" });
+  }
+});
+
+/**
+ * GET /api/upload/challenge
+ * Proof-of-work for the next upload: { token, difficulty, expiresInSeconds }
+ * 503 CHALLENGE_UNAVAILABLE when no CHALLENGE_SECRET or JWT_SECRET is set.
+ */
+router.get("/challenge", challengeLimit, (req, res) => {
+  const challenge = issueChallenge();
+  if (!challenge) {
+    return res.status(503).json({
+      error: "Spam check unavailable",
+      code: "CHALLENGE_UNAVAILABLE",
+    });
+  }
+  res.json(challenge);
+});
+
+/**
+ * Chunked protocol for flaky connections:
+ *  1. POST /api/upload/sessions { fileName, mimeType, size }
+ *       -> { uploadId, chunkSize, totalChunks }
+ *  2. PUT  /api/upload/sessions/:uploadId/chunks/:index (raw bytes)
+ *       -> { received: [indices] }   (safe to retry)
+ *  3. GET  /api/upload/sessions/:uploadId -> { received, totalChunks, ... }
+ *       lets a reloaded page resume where it stopped
+ *  4. POST /api/upload/sessions/:uploadId/complete
+ *       JSON with the same fields as the multipart route above. Solve the
+ *       challenge right before this call: its token expires in 10 minutes
+ */
+router.post("/sessions", perIpUploads, globalUploads, async (req, res) => {
+  const { fileName, mimeType } = req.body || {};
+  const size = Number(req.body?.size);
+
+  if (!Number.isInteger(size) || size <= 0) {
+    return sendUploadError(
+      res,
+      uploadError(400, "INVALID_SIZE", "Invalid file size")
+    );
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return sendUploadError(
+      res,
+      uploadError(413, "FILE_TOO_LARGE", "File too large")
+    );
+  }
+  if (mimeType && !isAcceptedMimeType(mimeType)) {
+    return sendUploadError(
+      res,
+      uploadError(415, "UNSUPPORTED_FORMAT", "Only audio files are allowed")
+    );
+  }
+
+  try {
+    const session = await createSession({
+      fileName: (fileName || "recording").toString(),
+      mimeType: (mimeType || "application/octet-stream").toString(),
+      size,
+    });
+    res.json(session);
+  } catch (err) {
+    console.error("Upload session init error:", err);
+    res.status(500).json({ error: "Failed to start upload" });
+  }
+});
+
+router.get("/sessions/:uploadId", async (req, res) => {
+  const meta = await getSession(req.params.uploadId);
+  if (!meta) {
+    return sendUploadError(
+      res,
+      uploadError(404, "UPLOAD_NOT_FOUND", "Upload not found")
+    );
+  }
+
+  res.json({
+    uploadId: meta.uploadId,
+    chunkSize: meta.chunkSize,
+    totalChunks: meta.totalChunks,
+    received: await listReceived(meta.uploadId),
+  });
+});
+
+router.put(
+  "/sessions/:uploadId/chunks/:index",
+  chunkLimit,
+  express.raw({ type: "application/octet-stream", limit: "2mb" }),
+  async (req, res) => {
+    const meta = await getSession(req.params.uploadId);
+    if (!meta) {
+      return sendUploadError(
+        res,
+        uploadError(404, "UPLOAD_NOT_FOUND", "Upload not found")
+      );
+    }
+
+    try {
+      const result = await writeChunk(
+        meta,
+        Number(req.params.index),
+        Buffer.isBuffer(req.body) ? req.body : null
+      );
+      if (result.error) {
+        return sendUploadError(
+          res,
+          uploadError(400, "INVALID_CHUNK", result.error)
+        );
+      }
+      res.json({ received: result.received });
+    } catch (err) {
+      console.error("Chunk upload error:", err);
+      res.status(500).json({ error: "Failed to store chunk" });
+    }
+  }
+);
+
+router.post("/sessions/:uploadId/complete", async (req, res) => {
+  const meta = await getSession(req.params.uploadId);
+  if (!meta) {
+    return sendUploadError(
+      res,
+      uploadError(404, "UPLOAD_NOT_FOUND", "Upload not found")
+    );
+  }
+
+  const fields = req.body || {};
+  // before reassembly, and keeping the parts: the listener can accept the
+  // new text and complete again
+  const { consent, error } = await acceptConsent(fields.consentVersion);
+  if (error) return sendUploadError(res, error);
+  const { phone, error: phoneError } = acceptPhone(fields.phoneNumber);
+  if (phoneError) return sendUploadError(res, phoneError);
+
+  let assembled;
+  try {
+    assembled = await assemble(meta);
+  } catch (err) {
+    console.error("Upload reassembly error:", err);
+    return res.status(500).json({ error: "Failed to upload audio" });
+  }
+  if (assembled.missing) {
+    return res.status(409).json({
+      error: "Upload incomplete",
+      code: "UPLOAD_INCOMPLETE",
+      missing: assembled.missing,
+    });
+  }
+
+  // the parts stay: the client solves a new challenge and completes again
+  const verdict = await assessSubmission(fields);
+  if (verdict.reject) return sendChallengeFailed(res, verdict);
+
+  await storeRecording(
+    res,
+    {
+      buffer: assembled.buffer,
+      mimetype: meta.mimeType,
+      originalname: meta.fileName,
+    },
+    fields,
+    verdict.reasons,
+    consent,
+    phone
+  );
+
+  // keep the parts if the bucket/DB write failed so the client can retry
+  // complete; any other outcome (incl. a refused anonymization) drops them
+  if (res.statusCode !== 500) await removeSession(meta.uploadId);
+});
+
+function sendChallengeFailed(res, verdict) {
+  console.warn("Upload rejected by spam check:", verdict.reasons);
+  return sendUploadError(
+    res,
+    uploadError(403, "CHALLENGE_FAILED", "Spam check failed")
+  );
+}
+
+/**
+ * POST /api/upload/withdraw
+ * Body: { token } -- the deletionToken from the upload response. Deletes
+ * the recording and everything stored with it, phone number included.
+ */
+router.post("/withdraw", withdrawLimit, async (req, res) => {
+  try {
+    const fileName = await withdrawRecording(req.body?.token);
+    if (!fileName) {
+      return sendUploadError(
+        res,
+        uploadError(404, "WITHDRAW_NOT_FOUND", "Nothing to delete")
+      );
+    }
+    // no phone or title in the log, only which file went
+    await recordAudit(req, "audio.withdraw", { target: fileName });
+    res.json({ deleted: true });
+  } catch (err) {
+    console.error("Withdraw failed:", err);
+    res.status(500).json({ error: "Failed to delete the recording" });
+  }
+});
+
+/**
+ * Anonymize (if asked), work out the duration, push the file to storage
+ * and write the DB record. `file` has multer's { buffer, mimetype, originalname }.
+ * Non-empty `quarantineReasons` store the record flagged as suspicious.
+ * `consent` is what acceptConsent() resolved with, `phone` what
+ * acceptPhone() returned.
+ */
+async function storeRecording(
+  res,
+  file,
+  fields,
+  quarantineReasons = [],
+  consent = null,
+  phone = null
+) {
+  try {
+    const rawTitle = (fields.title || "").toString();
+    const voiceType = fields.voiceType || null;
+    const wantsAnonymity = String(fields.anonymize) === "true";
+
+    // trust the bytes, not the declared type or file name
+    const inspected = await inspectAudio(file.buffer);
+    if (inspected.error) return sendUploadError(res, inspected.error);
+
+    let audioBuffer = file.buffer;
+    let mimeType = inspected.mimeType;
+    let ext = inspected.ext;
+    let serverDuration = inspected.duration;
 
     // try to read duration sent by client (FormData sends strings)
     let durationFromClient = NaN;
-    if (req.body && typeof req.body.duration !== "undefined") {
-      const parsed = parseFloat(req.body.duration);
+    if (typeof fields.duration !== "undefined") {
+      const parsed = parseFloat(fields.duration);
       if (!Number.isNaN(parsed) && Number.isFinite(parsed) && parsed > 0) {
         durationFromClient = parsed;
       }
     }
 
+    // both lengths we know of, before any processing starts
+    const durationError =
+      checkDuration(durationFromClient) || checkDuration(serverDuration);
+    if (durationError) return sendUploadError(res, durationError);
+
+    if (wantsAnonymity) {
+      if (!isServerVoice(voiceType)) {
+        return sendUploadError(
+          res,
+          uploadError(400, "UNKNOWN_VOICE", "Unknown voice type")
+        );
+      }
+      const unavailable = () =>
+        sendUploadError(
+          res,
+          uploadError(
+            503,
+            "ANONYMIZER_UNAVAILABLE",
+            "Voice processing unavailable"
+          )
+        );
+      if (!serverAnonymizeEnabled()) return unavailable();
+
+      let processed;
+      try {
+        // app.set("voiceProcessor", fn) replaces ffmpeg (tests)
+        processed = await anonymizeAudio(
+          file.buffer,
+          voiceType,
+          res.app.get("voiceProcessor")
+        );
+      } catch (err) {
+        // never fall back to storing the unprocessed voice
+        console.error("Server-side anonymization failed:", err);
+        return unavailable();
+      }
+
+      // the processed file is what gets stored, and MediaRecorder webm
+      // often carries no duration to check up front: read it from the output
+      const output = await inspectAudio(processed.buffer);
+      if (output.error) return sendUploadError(res, output.error);
+      audioBuffer = processed.buffer;
+      mimeType = processed.mimeType;
+      ext = processed.ext;
+      // the presets keep the tempo, so the sniffed length still holds
+      serverDuration = output.duration || serverDuration;
+    }
+
     // fallback: parse buffer server-side if client didn't provide a valid duration
     let finalDuration = 0;
     if (Number.isFinite(durationFromClient) && durationFromClient > 0) {
       finalDuration = durationFromClient;
       console.log("Using duration provided by client:", finalDuration);
+    } else if (serverDuration > 0) {
+      finalDuration = serverDuration;
+      console.log("Parsed duration from buffer (server):", finalDuration);
     } else {
       try {
         // parseBuffer accepts Buffer (multer.memoryStorage gives Buffer) and contentType
-        const metadata = await parseBuffer(req.file.buffer, req.file.mimetype);
+        const metadata = await parseBuffer(audioBuffer, mimeType);
         const d = metadata?.format?.duration ?? 0;
         if (typeof d === "number" && isFinite(d) && d > 0) {
           finalDuration = d;
@@ -60,8 +482,7 @@ router.post("/", upload.single("audio"), async (req, res) => {
     }
 
     // Build filename & save to storage
-    const ext = path.extname(req.file.originalname) || ".mp3"; // build safe base from title
-
+    // build safe base from title
     const baseFromTitle = rawTitle.trim() || "recording";
 
     // sanitize: replace spaces with underscore, strip non-alphanum _ - characters, limit length
@@ -77,52 +498,56 @@ router.post("/", upload.single("audio"), async (req, res) => {
     // final base and file name
     const finalBase = `${safeBase}${last4}`; // e.g. MyTitle1234
     const fileName = `audio/${finalBase}${ext}`;
-    const file = bucket.file(fileName);
 
-    // Save buffer directly to Cloud Storage. Add duration into Storage's custom metadata
+    // Save buffer directly to storage. Add duration into the file's custom metadata
     // (optional but convenient later)
-    const storageMetadata = {
-      contentType: req.file.mimetype,
+    await files.save(fileName, audioBuffer, {
+      contentType: mimeType,
       metadata: {
         // store as string
         duration: String(finalDuration ?? 0),
       },
-    };
-
-    await file.save(req.file.buffer, {
-      metadata: storageMetadata,
-      resumable: false,
     });
 
     // Make public (keep your existing behavior)
-    await file.makePublic();
-
-    const publicUrl = `https://storage.googleapis.com/${bucket.name}/${fileName}`;
-
-    // Persist record in Realtime DB including duration (as number)
-    const recordRef = await admin
-      .database()
-      .ref("records")
-      .push({
-        fileName: path.basename(fileName),
-        url: publicUrl,
-        title: finalBase,
-        phone: phoneNumber,
-        voiceType,
-        uploadedAt: new Date().toISOString(),
-        duration: Number(finalDuration || 0),
-      });
+    const publicUrl = await files.publicUrl(fileName);
+
+    // lets the listener delete the message later (POST /withdraw)
+    const deletion = newDeletionToken();
+
+    // Persist record in the DB including duration (as number)
+    const recordId = await addRecord({
+      fileName: path.basename(fileName),
+      url: publicUrl,
+      title: finalBase,
+      // as typed and in E.164; only the owner can read them back
+      // (POST /audio/records/:id/reveal-phone)
+      phoneEncrypted: phone ? encryptPhone(phone.raw) : null,
+      phoneE164Encrypted: phone ? encryptPhone(phone.e164) : null,
+      voiceType,
+      anonymizedOnServer: wantsAnonymity,
+      quarantined: quarantineReasons.length > 0,
+      quarantineReasons: quarantineReasons.length ? quarantineReasons : null,
+      uploadedAt: new Date().toISOString(),
+      duration: Number(finalDuration || 0),
+      deletionTokenHash: deletion.hash,
+      // what was agreed to, and with which voice
+      consent: consent && { ...consent, voiceType },
+    });
+    await countStatusChange(null, "new");
 
     // return duration in response so client can verify immediately
     res.json({
       url: publicUrl,
-      recordId: recordRef.key,
+      recordId,
       duration: Number(finalDuration || 0),
+      // shown once; only its hash is stored
+      deletionToken: deletion.token,
     });
   } catch (err) {
     console.error("Upload error:", err);
     res.status(500).json({ error: "Failed to upload audio" });
   }
-});
+}
 
 export default router;
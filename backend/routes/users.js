@@ -0,0 +1,142 @@
+// routes/users.js
+// Admin account management, owners only.
+import express from "express";
+import { verifyToken } from "../middleware/verifyToken.js";
+import { ROLES, requireRole } from "../middleware/requireRole.js";
+import {
+  addAdminUser,
+  getAdminUser,
+  removeAdminUser,
+  updateAdminUser,
+} from "../repositories/adminUsers.js";
+import {
+  createInvite,
+  isValidUsername,
+  listAccounts,
+  publicUser,
+  usernameTaken,
+} from "../services/adminUsers.js";
+import { recordAudit } from "../services/audit.js";
+import { revokeUserSessions } from "../services/sessions.js";
+import { disableTwoFactor } from "../services/twoFactor.js";
+
+const router = express.Router();
+
+router.use(verifyToken, requireRole("owner"));
+
+// GET /api/users
+router.get("/", async (req, res) => {
+  try {
+    res.json(await listAccounts());
+  } catch (err) {
+    console.error("Error listing users:", err);
+    res.status(500).json({ message: "Failed to list users." });
+  }
+});
+
+// POST /api/users — invite; the response carries the one-time invite token
+router.post("/", async (req, res) => {
+  const { username, role } = req.body || {};
+
+  if (!isValidUsername(username)) {
+    return res.status(400).json({
+      message: "Username must be 3-64 letters, digits or . _ @ + -",
+    });
+  }
+  if (!ROLES.includes(role)) {
+    return res
+      .status(400)
+      .json({ message: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+
+  try {
+    if (await usernameTaken(username)) {
+      return res.status(409).json({ message: "Username already exists." });
+    }
+
+    const invite = createInvite();
+    const user = {
+      username,
+      role,
+      inviteTokenHash: invite.tokenHash,
+      inviteExpiresAt: invite.expiresAt,
+      createdAt: new Date().toISOString(),
+      invitedBy: req.user.username,
+    };
+    const id = await addAdminUser(user);
+    await recordAudit(req, "user.invite", {
+      target: username,
+      after: { role },
+    });
+
+    res.status(201).json({
+      user: publicUser(id, user),
+      inviteToken: invite.token,
+    });
+  } catch (err) {
+    console.error("Error inviting user:", err);
+    res.status(500).json({ message: "Failed to invite user." });
+  }
+});
+
+// PATCH /api/users/:id — change role; signs the user out everywhere
+router.patch("/:id", async (req, res) => {
+  const { id } = req.params;
+  const { role } = req.body || {};
+
+  if (!ROLES.includes(role)) {
+    return res
+      .status(400)
+      .json({ message: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+  // owners can't demote themselves out of user management
+  if (id === req.user.sub) {
+    return res.status(400).json({ message: "You can't change your own role." });
+  }
+
+  try {
+    const user = await getAdminUser(id);
+    if (!user) return res.status(404).json({ message: "User not found." });
+
+    await updateAdminUser(id, { role });
+    // sign them out, so no session keeps the old role going
+    if (role !== user.role) await revokeUserSessions(id);
+    await recordAudit(req, "user.role", {
+      target: user.username,
+      before: { role: user.role },
+      after: { role },
+    });
+    res.json(publicUser(id, { ...user, role }));
+  } catch (err) {
+    console.error("Error updating user:", err);
+    res.status(500).json({ message: "Failed to update user." });
+  }
+});
+
+// DELETE /api/users/:id
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+
+  if (id === req.user.sub) {
+    return res.status(400).json({ message: "You can't remove yourself." });
+  }
+
+  try {
+    const user = await getAdminUser(id);
+    if (!user) return res.status(404).json({ message: "User not found." });
+
+    await removeAdminUser(id);
+    await revokeUserSessions(id);
+    await disableTwoFactor(id);
+    await recordAudit(req, "user.remove", {
+      target: user.username,
+      before: { role: user.role },
+    });
+    res.json({ message: `Removed user "${user.username}".` });
+  } catch (err) {
+    console.error("Error removing user:", err);
+    res.status(500).json({ message: "Failed to remove user." });
+  }
+});
+
+export default router;
@@ -0,0 +1,22 @@
+// `audio` (the feed enclosure) is set by the audio upload, not by clients
+export const episodeSchema = {
+  type: "object",
+  required: ["title", "publishedAt"],
+  additionalProperties: false,
+  properties: {
+    title: { type: "string", minLength: 1, maxLength: 200 },
+    description: { type: "string", maxLength: 2000 },
+    publishedAt: { type: "string", minLength: 1 }, // ISO date; future = hidden
+    youtubeLink: { type: "string" },
+    spotifyLink: { type: "string" },
+    coverImage: { type: "string" },
+    showNotes: { type: "string", maxLength: 20000 },
+    episodeNumber: { type: "integer", minimum: 1 },
+    explicit: { type: "boolean" },
+    tags: {
+      type: "array",
+      items: { type: "string", minLength: 1, maxLength: 40 },
+      maxItems: 20,
+    },
+  },
+};
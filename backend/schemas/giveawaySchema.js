@@ -0,0 +1,13 @@
+// `draw` is written by the server when the winners are picked, not by clients
+export const giveawaySchema = {
+  type: "object",
+  required: ["name", "startsAt", "endsAt", "winnersCount"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 100 },
+    description: { type: "string", maxLength: 1000 },
+    startsAt: { type: "string", minLength: 1 }, // ISO date, messages from
+    endsAt: { type: "string", minLength: 1 }, // ISO date, messages until
+    winnersCount: { type: "integer", minimum: 1, maximum: 50 },
+  },
+};
@@ -42,5 +42,29 @@ export const siteContentSchema = {
       },
       additionalProperties: false,
     },
+    // the checkbox listeners tick before sending (services/consent.js)
+    consent: {
+      type: "object",
+      required: ["text"],
+      properties: {
+        text: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    // set by the server (services/publishing.js), not by the editor
+    publish: {
+      type: "object",
+      required: ["status"],
+      properties: {
+        status: { type: "string", enum: ["draft", "scheduled", "published"] },
+        publishAt: { type: "string" }, // ISO time, when scheduled
+        scheduledBy: { type: "string" },
+        updatedAt: { type: "string" },
+        updatedBy: { type: "string" },
+        publishedAt: { type: "string" },
+        publishedBy: { type: "string" },
+      },
+      additionalProperties: false,
+    },
   },
 };
@@ -0,0 +1,92 @@
+// services/adminUsers.js
+import crypto from "crypto";
+import dotenv from "dotenv";
+import {
+  findAdminUserBy,
+  getAdminUser,
+  listAdminUsers,
+} from "../repositories/adminUsers.js";
+
+dotenv.config();
+
+// The ADMIN_USERNAME / ADMIN_PASSWORD_HASH account from the environment is
+// always an owner, so the site can't be locked out by removing users.
+export const ENV_OWNER_ID = "env";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 10;
+
+const envOwner = () =>
+  process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD_HASH
+    ? {
+        id: ENV_OWNER_ID,
+        username: process.env.ADMIN_USERNAME,
+        role: "owner",
+        passwordHash: process.env.ADMIN_PASSWORD_HASH,
+      }
+    : null;
+
+export const isValidUsername = (name) =>
+  typeof name === "string" && /^[\w.@+-]{3,64}$/.test(name);
+
+export const hashInviteToken = (token) =>
+  crypto.createHash("sha256").update(String(token)).digest("hex");
+
+/** One-time invite secret; only its hash is stored. */
+export function createInvite() {
+  const token = crypto.randomBytes(24).toString("base64url");
+  return {
+    token,
+    tokenHash: hashInviteToken(token),
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+  };
+}
+
+/** { id, username, role, passwordHash } for a login name, or null. */
+export async function findLoginAccount(username) {
+  const env = envOwner();
+  if (env && username === env.username) return env;
+
+  const found = await findAdminUserBy("username", username);
+  if (!found) return null;
+  const [id, user] = found;
+  return { id, ...user };
+}
+
+/** Current account for a session's user id, or null if it was removed. */
+export async function findAccountById(id) {
+  if (id === ENV_OWNER_ID) return envOwner();
+  const user = await getAdminUser(id);
+  return user && user.passwordHash ? { id, ...user } : null;
+}
+
+export async function usernameTaken(username) {
+  return (
+    envOwner()?.username === username ||
+    !!(await findAdminUserBy("username", username))
+  );
+}
+
+/** API shape: never expose hashes. */
+export function publicUser(id, user) {
+  return {
+    id,
+    username: user.username,
+    role: user.role,
+    status: user.passwordHash ? "active" : "invited",
+    inviteExpiresAt: user.passwordHash ? null : user.inviteExpiresAt || null,
+    createdAt: user.createdAt || null,
+    invitedBy: user.invitedBy || null,
+    builtIn: id === ENV_OWNER_ID,
+  };
+}
+
+/** Every account including the built-in owner, oldest first. */
+export async function listAccounts() {
+  const stored = Object.entries(await listAdminUsers()).map(([id, u]) =>
+    publicUser(id, u)
+  );
+  stored.sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+  const env = envOwner();
+  return env ? [publicUser(env.id, env), ...stored] : stored;
+}
@@ -0,0 +1,131 @@
+// services/audioValidation.js
+import { parseBuffer } from "music-metadata";
+
+// Limits for public voice uploads. The recorder stops itself after five
+// minutes; the tolerance absorbs encoder padding and timer slack.
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || 25 * 1024 * 1024;
+export const MAX_DURATION_SECONDS = 5 * 60;
+const DURATION_TOLERANCE_SECONDS = 5;
+
+// browsers are loose with blob types (the recorder labels webm as wav),
+// so the declared mimetype is only a first filter; the bytes decide
+const ACCEPTED_MIME =
+  /^(audio\/|video\/(webm|mp4|ogg)|application\/octet-stream)/;
+
+// music-metadata container name -> what we store it as
+const CONTAINERS = [
+  { match: /^EBML\/webm/i, mimeType: "audio/webm", ext: ".webm" },
+  { match: /^EBML\/matroska/i, mimeType: "audio/x-matroska", ext: ".mka" },
+  { match: /^MPEG$/i, mimeType: "audio/mpeg", ext: ".mp3" },
+  { match: /^ADTS/i, mimeType: "audio/aac", ext: ".aac" },
+  { match: /^WAVE/i, mimeType: "audio/wav", ext: ".wav" },
+  { match: /^Ogg$/i, mimeType: "audio/ogg", ext: ".ogg" },
+  { match: /^FLAC$/i, mimeType: "audio/flac", ext: ".flac" },
+  {
+    match: /^(M4A|mp4|isom|iso\d|mp42|3gp|qt)/i,
+    mimeType: "audio/mp4",
+    ext: ".m4a",
+  },
+];
+
+/** Structured 4xx shape shared by the upload routes. */
+export const uploadError = (status, code, message) => ({
+  status,
+  code,
+  message,
+});
+
+export const isAcceptedMimeType = (mimeType) =>
+  ACCEPTED_MIME.test(mimeType || "");
+
+export function checkDuration(seconds) {
+  if (
+    Number.isFinite(seconds) &&
+    seconds > MAX_DURATION_SECONDS + DURATION_TOLERANCE_SECONDS
+  ) {
+    return uploadError(
+      422,
+      "DURATION_TOO_LONG",
+      `Recording is longer than ${MAX_DURATION_SECONDS} seconds`
+    );
+  }
+  return null;
+}
+
+// container + duration from the bytes, or null if it isn't audio we know
+async function sniffAudio(buffer) {
+  let metadata;
+  try {
+    metadata = await parseBuffer(buffer, undefined, { duration: true });
+  } catch (err) {
+    console.warn("Audio sniffing failed:", err?.message || err);
+    return null;
+  }
+
+  const container = metadata?.format?.container || "";
+  const known = CONTAINERS.find((c) => c.match.test(container));
+  if (!known || metadata.format.hasAudio === false) return null;
+
+  const d = metadata.format.duration;
+  const duration = typeof d === "number" && isFinite(d) && d > 0 ? d : 0;
+  return { known, duration };
+}
+
+/**
+ * Sniff the container from the bytes (ignoring the declared type) and
+ * enforce size and duration limits.
+ * Resolves with { error } or { mimeType, ext, duration } where duration is
+ * 0 when the container doesn't carry one (MediaRecorder webm often doesn't).
+ */
+export async function inspectAudio(buffer) {
+  if (!buffer || buffer.length === 0) {
+    return { error: uploadError(400, "EMPTY_FILE", "Uploaded file is empty") };
+  }
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    return { error: uploadError(413, "FILE_TOO_LARGE", "File too large") };
+  }
+
+  const sniffed = await sniffAudio(buffer);
+  if (!sniffed) {
+    return {
+      error: uploadError(
+        415,
+        "UNSUPPORTED_FORMAT",
+        "Not a supported audio file"
+      ),
+    };
+  }
+
+  const { known, duration } = sniffed;
+  const durationError = checkDuration(duration);
+  if (durationError) return { error: durationError };
+
+  return { mimeType: known.mimeType, ext: known.ext, duration };
+}
+
+// Podcast episodes (routes/episodes.js). Apple Podcasts only takes MP3 and
+// M4A enclosures, and wants the m4a type spelled audio/x-m4a.
+export const MAX_EPISODE_BYTES =
+  Number(process.env.MAX_EPISODE_BYTES) || 300 * 1024 * 1024;
+const EPISODE_TYPES = { ".mp3": "audio/mpeg", ".m4a": "audio/x-m4a" };
+
+/** Resolves with { error } or { mimeType, ext, duration }. */
+export async function inspectEpisodeAudio(buffer) {
+  if (!buffer || buffer.length === 0) {
+    return { error: uploadError(400, "EMPTY_FILE", "Uploaded file is empty") };
+  }
+
+  const sniffed = await sniffAudio(buffer);
+  const mimeType = sniffed && EPISODE_TYPES[sniffed.known.ext];
+  if (!mimeType) {
+    return {
+      error: uploadError(
+        415,
+        "UNSUPPORTED_FORMAT",
+        "Episodes must be MP3 or M4A audio"
+      ),
+    };
+  }
+  return { mimeType, ext: sniffed.known.ext, duration: sniffed.duration };
+}
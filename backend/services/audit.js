@@ -0,0 +1,69 @@
+// services/audit.js
+// Who did what, when. Entries go to the database (read back by
+// GET /api/audit) and, if AUDIT_LOG_FILE is set, to a JSON-lines file.
+import {
+  appendAuditEntry,
+  listAuditEntries,
+} from "../repositories/auditLog.js";
+import { auditFileLogger } from "../logger.js";
+
+/**
+ * Record an action by the logged-in admin. `target` names the thing acted
+ * on; `before`/`after` hold the old and new state where that matters.
+ * Never throws: a failed audit write is logged, the action still stands.
+ */
+export async function recordAudit(
+  req,
+  action,
+  { target = null, before = null, after = null, details = null } = {}
+) {
+  const entry = {
+    action,
+    actor: req.user
+      ? {
+          id: req.user.sub ?? null,
+          username: req.user.username ?? null,
+          role: req.user.role ?? null,
+        }
+      : null,
+    target,
+    before,
+    after,
+    details,
+    ip: req.ip || null,
+    at: new Date().toISOString(),
+  };
+
+  try {
+    const id = await appendAuditEntry(entry);
+    auditFileLogger?.info(action, { id, ...entry });
+    return id;
+  } catch (err) {
+    console.error("Failed to write audit entry:", action, err);
+    return null;
+  }
+}
+
+/**
+ * Newest first. Filters: action (exact or "prefix." match), username,
+ * `before` (an entry id to continue after) and limit.
+ */
+export async function queryAudit({ action, username, before, limit = 50 }) {
+  let entries = Object.entries(await listAuditEntries())
+    .map(([id, e]) => ({ id, ...e }))
+    .sort((a, b) => (a.id < b.id ? 1 : -1));
+
+  if (action) {
+    entries = entries.filter((e) =>
+      action.endsWith(".") ? e.action?.startsWith(action) : e.action === action
+    );
+  }
+  if (username) entries = entries.filter((e) => e.actor?.username === username);
+  if (before) entries = entries.filter((e) => e.id < before);
+
+  const page = entries.slice(0, limit);
+  return {
+    entries: page,
+    nextBefore: entries.length > limit ? page[page.length - 1].id : null,
+  };
+}
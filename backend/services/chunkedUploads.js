@@ -0,0 +1,169 @@
+// services/chunkedUploads.js
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+
+// Upload sessions for the chunked protocol (init → parts → complete).
+// Parts live on local disk until the session is completed or expires;
+// nothing reaches the bucket before reassembly. They can be the raw voice,
+// from before the server disguises it, so an abandoned session only lives
+// as long as a slow upload plausibly takes, and a timer sweeps them away
+// (startSessionSweep).
+
+export const CHUNK_SIZE = 1024 * 1024; // 1 MB
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const SESSION_ROOT =
+  process.env.UPLOAD_SESSION_DIR ||
+  path.join(os.tmpdir(), "voice-upload-sessions");
+
+const isValidId = (id) => typeof id === "string" && /^[a-f0-9]{32}$/.test(id);
+const sessionDir = (id) => path.join(SESSION_ROOT, id);
+const chunkPath = (id, index) => path.join(sessionDir(id), `${index}.part`);
+
+/**
+ * Start a new session. Returns the public session shape sent to the client.
+ */
+export async function createSession({ fileName, mimeType, size }) {
+  await sweepExpired();
+
+  const uploadId = crypto.randomBytes(16).toString("hex");
+  const totalChunks = Math.max(1, Math.ceil(size / CHUNK_SIZE));
+  const meta = {
+    uploadId,
+    fileName,
+    mimeType,
+    size,
+    chunkSize: CHUNK_SIZE,
+    totalChunks,
+    createdAt: Date.now(),
+  };
+
+  await mkdir(sessionDir(uploadId), { recursive: true });
+  await writeFile(
+    path.join(sessionDir(uploadId), "meta.json"),
+    JSON.stringify(meta)
+  );
+
+  return { uploadId, chunkSize: CHUNK_SIZE, totalChunks };
+}
+
+/** Session metadata, or null when unknown/expired. */
+export async function getSession(uploadId) {
+  if (!isValidId(uploadId)) return null;
+  try {
+    const raw = await readFile(path.join(sessionDir(uploadId), "meta.json"));
+    const meta = JSON.parse(raw.toString());
+    if (Date.now() - meta.createdAt > SESSION_TTL_MS) {
+      await removeSession(uploadId);
+      return null;
+    }
+    return meta;
+  } catch {
+    return null;
+  }
+}
+
+/** Indices of the chunks already stored, ascending. */
+export async function listReceived(uploadId) {
+  const names = await readdir(sessionDir(uploadId));
+  return names
+    .filter((n) => n.endsWith(".part"))
+    .map((n) => Number.parseInt(n, 10))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Store one chunk. Re-sending an index overwrites it, so client retries
+ * are idempotent. Returns an error message when the chunk doesn't fit.
+ */
+export async function writeChunk(meta, index, buffer) {
+  if (!Number.isInteger(index) || index < 0 || index >= meta.totalChunks) {
+    return { error: "Chunk index out of range" };
+  }
+
+  const isLast = index === meta.totalChunks - 1;
+  const expected = isLast
+    ? meta.size - meta.chunkSize * (meta.totalChunks - 1)
+    : meta.chunkSize;
+  if (!buffer || buffer.length !== expected) {
+    return { error: `Chunk ${index} must be ${expected} bytes` };
+  }
+
+  await writeFile(chunkPath(meta.uploadId, index), buffer);
+  return { received: await listReceived(meta.uploadId) };
+}
+
+/** Concatenate all chunks, or return the missing indices. */
+export async function assemble(meta) {
+  const received = new Set(await listReceived(meta.uploadId));
+  const missing = [];
+  for (let i = 0; i < meta.totalChunks; i++) {
+    if (!received.has(i)) missing.push(i);
+  }
+  if (missing.length) return { missing };
+
+  const parts = [];
+  for (let i = 0; i < meta.totalChunks; i++) {
+    parts.push(await readFile(chunkPath(meta.uploadId, i)));
+  }
+  return { buffer: Buffer.concat(parts) };
+}
+
+export async function removeSession(uploadId) {
+  if (!isValidId(uploadId)) return;
+  await rm(sessionDir(uploadId), { recursive: true, force: true });
+}
+
+// when the session started; the directory's age if meta.json is unreadable
+async function createdAt(id) {
+  try {
+    const raw = await readFile(path.join(sessionDir(id), "meta.json"));
+    const meta = JSON.parse(raw.toString());
+    if (Number.isFinite(meta.createdAt)) return meta.createdAt;
+  } catch {
+    // half-written session: fall through
+  }
+  return (await stat(sessionDir(id))).mtimeMs;
+}
+
+/**
+ * Drop sessions older than the TTL, as of `now`; abandoned uploads
+ * shouldn't pile up. Resolves with the number removed.
+ */
+export async function sweepExpired(now = Date.now()) {
+  let ids = [];
+  try {
+    ids = await readdir(SESSION_ROOT);
+  } catch {
+    return 0;
+  }
+
+  let removed = 0;
+  await Promise.all(
+    ids.filter(isValidId).map(async (id) => {
+      try {
+        if (now - (await createdAt(id)) > SESSION_TTL_MS) {
+          await removeSession(id);
+          removed += 1;
+        }
+      } catch (err) {
+        console.warn("Failed to sweep upload session:", id, err);
+      }
+    })
+  );
+  return removed;
+}
+
+/** Sweep now (leftovers from before a restart) and then every few minutes. */
+export function startSessionSweep(intervalMs = SWEEP_INTERVAL_MS) {
+  const run = () =>
+    sweepExpired().catch((err) =>
+      console.error("Upload session sweep failed:", err)
+    );
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,44 @@
+// services/consent.js
+// Consent for airing a voice message. The text is part of the site content
+// (consent.text, editable in the dashboard); its version is a hash of the
+// text, so every wording change gets a new version without anyone having
+// to remember to bump it. Each record keeps the version and text accepted.
+import crypto from "crypto";
+import { getSiteContent } from "../repositories/siteContent.js";
+import { uploadError } from "./audioValidation.js";
+
+export const DEFAULT_CONSENT_TEXT =
+  "Nõustun, et minu häälsõnumit võib kasutada podcasti saates ja selle avaldatud osades.";
+
+export const consentVersion = (text) =>
+  crypto.createHash("sha256").update(text).digest("hex").slice(0, 12);
+
+/** The consent text listeners see right now: { text, version }. */
+export async function currentConsent() {
+  const content = await getSiteContent();
+  const text = content?.consent?.text?.trim() || DEFAULT_CONSENT_TEXT;
+  return { text, version: consentVersion(text) };
+}
+
+/**
+ * Check the consentVersion a listener sent with their upload. Resolves with
+ * { consent: { version, text, acceptedAt } } or { error } for the upload
+ * route to send.
+ */
+export async function acceptConsent(version) {
+  if (!version) {
+    return {
+      error: uploadError(400, "CONSENT_REQUIRED", "Consent is required"),
+    };
+  }
+  const current = await currentConsent();
+  if (version !== current.version) {
+    // the text changed since the page was loaded
+    return {
+      error: uploadError(409, "CONSENT_OUTDATED", "Consent text has changed"),
+    };
+  }
+  return {
+    consent: { ...current, acceptedAt: new Date().toISOString() },
+  };
+}
@@ -0,0 +1,99 @@
+// services/contentVersions.js
+// Every write to siteContent first snapshots what it replaces, so a bad
+// edit in the dashboard can be rolled back.
+import {
+  addContentVersion,
+  getContentVersion,
+  listContentVersions,
+  removeContentVersion,
+} from "../repositories/contentVersions.js";
+import {
+  getSiteContent,
+  getSiteContentMeta,
+  setSiteContent,
+  setSiteContentMeta,
+} from "../repositories/siteContent.js";
+
+export const MAX_VERSIONS = 100;
+
+const author = (user) =>
+  user ? { id: user.sub ?? null, username: user.username ?? null } : null;
+
+/**
+ * Write new content on behalf of `user`. `reason` says what kind of write
+ * it was ("replace", "merge", "restore"). Resolves with the id of the
+ * snapshot of the previous content, or null if there was none.
+ */
+export async function saveSiteContent(content, user, reason) {
+  const [previous, meta] = await Promise.all([
+    getSiteContent(),
+    getSiteContentMeta(),
+  ]);
+  const now = new Date().toISOString();
+
+  let versionId = null;
+  if (previous) {
+    versionId = await addContentVersion({
+      content: previous,
+      savedAt: meta?.updatedAt ?? null,
+      savedBy: meta?.updatedBy ?? null,
+      replacedAt: now,
+      replacedBy: author(user),
+      reason,
+    });
+  }
+
+  await setSiteContent(content);
+  await setSiteContentMeta({ updatedAt: now, updatedBy: author(user) });
+  await pruneVersions();
+  return versionId;
+}
+
+async function pruneVersions() {
+  const ids = Object.keys(await listContentVersions()).sort();
+  const excess = ids.slice(0, Math.max(ids.length - MAX_VERSIONS, 0));
+  await Promise.all(excess.map((id) => removeContentVersion(id)));
+}
+
+/** Version summaries (no content), newest first. */
+export async function listVersions() {
+  return Object.entries(await listContentVersions())
+    .map(([id, v]) => ({
+      id,
+      savedAt: v.savedAt ?? null,
+      savedBy: v.savedBy ?? null,
+      replacedAt: v.replacedAt ?? null,
+      replacedBy: v.replacedBy ?? null,
+      reason: v.reason ?? null,
+    }))
+    .sort((a, b) => (a.id < b.id ? 1 : -1));
+}
+
+export async function getVersion(id) {
+  const version = await getContentVersion(id);
+  return version ? { id, ...version } : null;
+}
+
+const flatten = (value, prefix = "", out = {}) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, v] of Object.entries(value)) {
+      flatten(v, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+};
+
+/**
+ * Field-level differences between two content objects, by dotted path:
+ * [{ path: "videoLink.title", from, to }]. Missing fields are null.
+ */
+export function diffContent(from, to) {
+  const a = flatten(from || {});
+  const b = flatten(to || {});
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .sort()
+    .filter((path) => JSON.stringify(a[path]) !== JSON.stringify(b[path]))
+    .map((path) => ({ path, from: a[path] ?? null, to: b[path] ?? null }));
+}
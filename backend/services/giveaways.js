@@ -0,0 +1,103 @@
+// services/giveaways.js
+// Gift raffles among listeners who left a phone number. A campaign covers
+// the messages sent in its date window; each phone number gets one entry
+// (its earliest message; numbers compare in E.164, so "5551 2345" and
+// "+372 5551 2345" are one), and the winners come from a seeded draw, so
+// anyone holding the seed and the entry list can repeat it and get the
+// same result.
+import crypto from "crypto";
+import { listRecords } from "../repositories/records.js";
+import { decryptPhone } from "./phoneCrypto.js";
+import { normalizePhone } from "./phoneNumber.js";
+import { recordStatus } from "./records.js";
+
+// the number in E.164; records from before normalization only have the
+// typed one. null for numbers nobody could call back.
+function phoneKey(record) {
+  if (record.phoneE164Encrypted) return decryptPhone(record.phoneE164Encrypted);
+  return normalizePhone(
+    record.phoneEncrypted ? decryptPhone(record.phoneEncrypted) : record.phone
+  );
+}
+
+/**
+ * Entries for `campaign`, ordered by record id (upload order): messages in
+ * the window with a phone number, not quarantined or rejected, one per
+ * number. Resolves with [{ recordId, title, fileName, uploadedAt }].
+ */
+export async function eligibleEntries({ startsAt, endsAt }) {
+  const from = Date.parse(startsAt);
+  const to = Date.parse(endsAt);
+  const byPhone = new Map();
+
+  const records = Object.entries(await listRecords()).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0
+  );
+  for (const [recordId, record] of records) {
+    const at = Date.parse(record?.uploadedAt);
+    if (!(at >= from && at <= to)) continue;
+    if (record.quarantined || recordStatus(record) === "rejected") continue;
+
+    const key = phoneKey(record);
+    if (!key || byPhone.has(key)) continue;
+    byPhone.set(key, {
+      recordId,
+      title: record.title || null,
+      fileName: record.fileName || null,
+      uploadedAt: record.uploadedAt,
+    });
+  }
+  return [...byPhone.values()];
+}
+
+// numbers in [0, 1) from HMAC-SHA256(seed, counter)
+function seededRandom(seed) {
+  let counter = 0;
+  return () =>
+    crypto
+      .createHmac("sha256", String(seed))
+      .update(String(counter++))
+      .digest()
+      .readUInt32BE(0) /
+    2 ** 32;
+}
+
+/** Pick `count` of `entries` with the seeded generator; same input, same winners. */
+export function drawWinners(entries, seed, count) {
+  const pool = [...entries];
+  const random = seededRandom(seed);
+  const winners = [];
+  while (winners.length < count && pool.length > 0) {
+    winners.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return winners;
+}
+
+export const newSeed = () => crypto.randomBytes(16).toString("hex");
+
+/**
+ * Draw the winners of `campaign`. The draw runs over the entry ids, which
+ * are stored with the result so it can be checked later (verifyDraw).
+ */
+export async function runDraw(campaign, seed = newSeed()) {
+  const entries = await eligibleEntries(campaign);
+  const eligibleIds = entries.map((e) => e.recordId);
+  const winnerIds = drawWinners(eligibleIds, seed, campaign.winnersCount);
+  return {
+    seed,
+    drawnAt: new Date().toISOString(),
+    eligibleCount: eligibleIds.length,
+    eligibleIds,
+    winners: winnerIds.map((id) => entries.find((e) => e.recordId === id)),
+  };
+}
+
+/** Whether repeating a stored draw gives the stored winners. */
+export function verifyDraw(draw) {
+  const again = drawWinners(
+    draw.eligibleIds || [],
+    draw.seed,
+    draw.winners.length
+  );
+  return again.every((id, i) => id === draw.winners[i]?.recordId);
+}
@@ -0,0 +1,44 @@
+// services/loginThrottle.js
+// Lockout after repeated failed logins (password or 2FA code). Failures are
+// counted per username and per client IP in a fixed window; once either is
+// over its limit, login attempts are refused until the window ends.
+import { defaultStore } from "../middleware/rateLimit.js";
+
+const WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_USER = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+const MAX_FAILURES_PER_IP = MAX_FAILURES_PER_USER * 4;
+
+const userKey = (username) =>
+  `login-fail-user:${String(username || "").toLowerCase()}`;
+const ipKey = (req) => `login-fail-ip:${req.ip}`;
+
+/** Seconds until attempts are allowed again, 0 when not locked out. */
+export async function lockoutSeconds(req, username, store = defaultStore) {
+  const checks = [
+    [await store.peek(userKey(username)), MAX_FAILURES_PER_USER],
+    [await store.peek(ipKey(req)), MAX_FAILURES_PER_IP],
+  ];
+  const until = Math.max(
+    0,
+    ...checks.filter(([w, max]) => w.count >= max).map(([w]) => w.resetAt)
+  );
+  return until ? Math.ceil((until - Date.now()) / 1000) : 0;
+}
+
+export async function recordFailure(req, username, store = defaultStore) {
+  await store.hit(userKey(username), WINDOW_MS);
+  await store.hit(ipKey(req), WINDOW_MS);
+}
+
+/** A successful login forgets the user's failures (the IP's stay). */
+export async function clearFailures(username, store = defaultStore) {
+  await store.clear(userKey(username));
+}
+
+export function sendLockedOut(res, seconds) {
+  res.setHeader("Retry-After", seconds);
+  return res.status(429).json({
+    message: "Too many failed attempts. Try again later.",
+    code: "LOCKED_OUT",
+  });
+}
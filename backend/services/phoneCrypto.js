@@ -0,0 +1,57 @@
+// services/phoneCrypto.js
+// Listener phone numbers are stored encrypted (AES-256-GCM) so they never
+// sit in the DB, exports or backups in plain text. Only the owner can read
+// one back, through the logged reveal route in routes/audio.js.
+//
+// PHONE_ENCRYPTION_KEY can be any long random string; losing or changing it
+// makes the stored numbers unreadable. Without it the key is derived from
+// JWT_SECRET, which then must not be rotated either.
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const VERSION = "v1";
+
+if (!process.env.PHONE_ENCRYPTION_KEY && process.env.NODE_ENV !== "test") {
+  console.warn(
+    "PHONE_ENCRYPTION_KEY is not set; phone numbers are encrypted with a key derived from JWT_SECRET."
+  );
+}
+
+const KEY = crypto
+  .createHash("sha256")
+  .update(process.env.PHONE_ENCRYPTION_KEY || `${process.env.JWT_SECRET}:phone`)
+  .digest();
+
+/** "v1:<iv>:<tag>:<ciphertext>", all base64url. */
+export function encryptPhone(phone) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", KEY, iv);
+  const data = Buffer.concat([cipher.update(String(phone)), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), data]
+    .map((part) =>
+      typeof part === "string" ? part : part.toString("base64url")
+    )
+    .join(":");
+}
+
+/** The phone number, or null if `stored` can't be decrypted with this key. */
+export function decryptPhone(stored) {
+  const [version, iv, tag, data] = String(stored || "").split(":");
+  if (version !== VERSION || !iv || !tag || data === undefined) return null;
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      KEY,
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64url")),
+      decipher.final(),
+    ]).toString();
+  } catch {
+    return null;
+  }
+}
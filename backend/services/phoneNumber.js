@@ -0,0 +1,59 @@
+// services/phoneNumber.js
+// Listener phone numbers, normalized to E.164 ("+37255512345"). Numbers
+// without a country code are taken as Estonian. Keep in step with
+// frontend/src/utils/phoneNumber.ts, which checks the field before sending.
+import { uploadError } from "./audioValidation.js";
+
+export const DEFAULT_COUNTRY_CODE = "372";
+
+// what people type between digits: spaces, dashes, dots, brackets, slashes
+const SEPARATORS = /[\s\-./()]/g;
+// Estonian numbers are 7 or 8 digits and never start with 0 or 1
+const ESTONIAN = /^[2-9]\d{6,7}$/;
+// country code first, at most 15 digits in all
+const INTERNATIONAL = /^[1-9]\d{7,14}$/;
+
+/** The number in E.164, or null if `raw` isn't a phone number. */
+export function normalizePhone(raw) {
+  const compact = String(raw ?? "")
+    .trim()
+    .replace(SEPARATORS, "");
+  const match = /^(\+|00)?(\d+)$/.exec(compact);
+  if (!match) return null;
+  let [, international, digits] = match;
+
+  // "372 5551 2345" without the plus is still unambiguous: national
+  // numbers are at most 8 digits
+  if (
+    !international &&
+    digits.startsWith(DEFAULT_COUNTRY_CODE) &&
+    ESTONIAN.test(digits.slice(DEFAULT_COUNTRY_CODE.length))
+  ) {
+    international = "+";
+  }
+  if (!international) {
+    return ESTONIAN.test(digits) ? `+${DEFAULT_COUNTRY_CODE}${digits}` : null;
+  }
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return ESTONIAN.test(digits.slice(DEFAULT_COUNTRY_CODE.length))
+      ? `+${digits}`
+      : null;
+  }
+  return INTERNATIONAL.test(digits) ? `+${digits}` : null;
+}
+
+/**
+ * The phone number field of an upload: { phone: null } when it was
+ * left empty, { phone: { raw, e164 } }, or { error } (400 PHONE_INVALID).
+ */
+export function acceptPhone(value) {
+  const raw = String(value ?? "").trim();
+  if (!raw) return { phone: null };
+  const e164 = normalizePhone(raw);
+  if (!e164) {
+    return {
+      error: uploadError(400, "PHONE_INVALID", "Invalid phone number"),
+    };
+  }
+  return { phone: { raw, e164 } };
+}
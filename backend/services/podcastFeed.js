@@ -0,0 +1,224 @@
+// services/podcastFeed.js
+// RSS 2.0 + iTunes tags for podcast directories, built from the episodes
+// and the homepage content. Show-level settings the editor doesn't cover
+// come from the environment (see feedConfig).
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Apple Podcasts top-level categories
+// https://podcasters.apple.com/support/1691-apple-podcasts-categories
+export const APPLE_CATEGORIES = [
+  "Arts",
+  "Business",
+  "Comedy",
+  "Education",
+  "Fiction",
+  "Government",
+  "Health & Fitness",
+  "History",
+  "Kids & Family",
+  "Leisure",
+  "Music",
+  "News",
+  "Religion & Spirituality",
+  "Science",
+  "Society & Culture",
+  "Sports",
+  "Technology",
+  "True Crime",
+  "TV & Film",
+];
+
+const ENCLOSURE_TYPES = ["audio/mpeg", "audio/x-m4a"];
+
+export const feedConfig = () => ({
+  siteUrl: process.env.PODCAST_SITE_URL || "https://kirsstordil.com",
+  language: process.env.PODCAST_LANGUAGE || "et",
+  category: process.env.PODCAST_CATEGORY || "Society & Culture",
+  subcategory: process.env.PODCAST_SUBCATEGORY || "",
+  explicit: process.env.PODCAST_EXPLICIT === "true",
+  ownerName: process.env.PODCAST_OWNER_NAME || "",
+  ownerEmail: process.env.PODCAST_OWNER_EMAIL || "",
+  // Apple wants a square 1400-3000px JPEG/PNG; the homepage cover isn't
+  imageUrl: process.env.PODCAST_IMAGE_URL || "",
+});
+
+const escapeXml = (value) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const cdata = (value) =>
+  `<![CDATA[${String(value ?? "").replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+
+const absoluteUrl = (url, base) => {
+  if (!url) return "";
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return "";
+  }
+};
+
+const isHttpUrl = (url) => /^https?:\/\//i.test(url || "");
+
+const channelImage = (site, config, baseUrl) =>
+  config.imageUrl || absoluteUrl(site?.coverImage, baseUrl);
+
+/** Episodes that can go in the feed: published and with audio. */
+export const feedEpisodes = (episodes, now = Date.now()) =>
+  episodes
+    .filter((e) => Date.parse(e.publishedAt) <= now && e.audio?.url)
+    .sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt));
+
+/**
+ * The feed XML. `episodes` are { id, ...episode } objects; `feedUrl` is
+ * where this feed is served (atom:link self) and `baseUrl` resolves
+ * relative image paths such as the default "/images/background.jpg".
+ */
+export function buildFeed({ site, episodes, config, feedUrl, baseUrl }) {
+  const brand = site?.footer?.brand || site?.title || "";
+  const image = channelImage(site, config, baseUrl);
+  const items = feedEpisodes(episodes);
+  const lastBuild = items[0]?.publishedAt || new Date().toISOString();
+
+  const category = config.subcategory
+    ? `<itunes:category text="${escapeXml(config.category)}">` +
+      `<itunes:category text="${escapeXml(config.subcategory)}"/>` +
+      `</itunes:category>`
+    : `<itunes:category text="${escapeXml(config.category)}"/>`;
+
+  const owner =
+    config.ownerEmail || config.ownerName
+      ? `<itunes:owner>` +
+        (config.ownerName
+          ? `<itunes:name>${escapeXml(config.ownerName)}</itunes:name>`
+          : "") +
+        (config.ownerEmail
+          ? `<itunes:email>${escapeXml(config.ownerEmail)}</itunes:email>`
+          : "") +
+        `</itunes:owner>`
+      : "";
+
+  const item = (e) => {
+    const cover = absoluteUrl(e.coverImage, baseUrl);
+    const link = e.youtubeLink || e.spotifyLink || config.siteUrl;
+    return [
+      "<item>",
+      `<title>${escapeXml(e.title)}</title>`,
+      `<description>${cdata(e.description || e.title)}</description>`,
+      e.showNotes
+        ? `<content:encoded>${cdata(e.showNotes)}</content:encoded>`
+        : "",
+      `<link>${escapeXml(link)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(e.id)}</guid>`,
+      `<pubDate>${new Date(e.publishedAt).toUTCString()}</pubDate>`,
+      `<enclosure url="${escapeXml(e.audio.url)}" length="${
+        Number(e.audio.size) || 0
+      }" type="${escapeXml(e.audio.mimeType)}"/>`,
+      e.audio.duration
+        ? `<itunes:duration>${Math.round(e.audio.duration)}</itunes:duration>`
+        : "",
+      `<itunes:explicit>${e.explicit ? "true" : "false"}</itunes:explicit>`,
+      e.episodeNumber
+        ? `<itunes:episode>${e.episodeNumber}</itunes:episode>`
+        : "",
+      "<itunes:episodeType>full</itunes:episodeType>",
+      cover ? `<itunes:image href="${escapeXml(cover)}"/>` : "",
+      ...(e.tags || []).map((t) => `<category>${escapeXml(t)}</category>`),
+      "</item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "<channel>",
+    `<title>${escapeXml(site?.title)}</title>`,
+    `<link>${escapeXml(config.siteUrl)}</link>`,
+    `<atom:link href="${escapeXml(
+      feedUrl
+    )}" rel="self" type="application/rss+xml"/>`,
+    `<language>${escapeXml(config.language)}</language>`,
+    `<description>${cdata(site?.description)}</description>`,
+    `<itunes:summary>${cdata(site?.description)}</itunes:summary>`,
+    `<itunes:author>${escapeXml(brand)}</itunes:author>`,
+    owner,
+    image ? `<itunes:image href="${escapeXml(image)}"/>` : "",
+    category,
+    `<itunes:explicit>${config.explicit ? "true" : "false"}</itunes:explicit>`,
+    "<itunes:type>episodic</itunes:type>",
+    `<lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>`,
+    ...items.map(item),
+    "</channel>",
+    "</rss>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * What Apple Podcasts would reject ("error") or flag ("warning"), as
+ * [{ level, message }]. Empty when the feed is ready to submit.
+ */
+export function validateFeed({ site, episodes, config, baseUrl }) {
+  const problems = [];
+  const error = (message) => problems.push({ level: "error", message });
+  const warning = (message) => problems.push({ level: "warning", message });
+
+  if (!site?.title) error("The show has no title.");
+  if (!site?.description) error("The show has no description.");
+  if (!/^[a-z]{2,3}(-[A-Za-z]{2})?$/.test(config.language)) {
+    error(`"${config.language}" is not a language code (e.g. "et").`);
+  }
+  if (!APPLE_CATEGORIES.includes(config.category)) {
+    error(`"${config.category}" is not an Apple Podcasts category.`);
+  }
+
+  const image = channelImage(site, config, baseUrl);
+  if (!isHttpUrl(image)) {
+    error("The show needs cover art (PODCAST_IMAGE_URL).");
+  } else if (!/\.(jpe?g|png)(\?|$)/i.test(image)) {
+    warning("Cover art should be a JPEG or PNG file.");
+  }
+  if (!config.imageUrl) {
+    warning(
+      "Using the homepage background as cover art; Apple wants a square 1400-3000px image (PODCAST_IMAGE_URL)."
+    );
+  }
+  if (!config.ownerEmail) {
+    warning(
+      "No owner email (PODCAST_OWNER_EMAIL); directories use it to verify ownership."
+    );
+  }
+
+  const now = Date.now();
+  const published = episodes.filter((e) => Date.parse(e.publishedAt) <= now);
+  const items = feedEpisodes(episodes, now);
+  if (items.length === 0) error("No published episode has audio yet.");
+
+  for (const e of published) {
+    if (!e.audio?.url) {
+      warning(`"${e.title}" has no audio and is left out of the feed.`);
+      continue;
+    }
+    if (!isHttpUrl(e.audio.url)) {
+      error(`"${e.title}": the audio URL must be http(s).`);
+    }
+    if (!ENCLOSURE_TYPES.includes(e.audio.mimeType)) {
+      error(`"${e.title}": audio must be MP3 or M4A.`);
+    }
+    if (!(Number(e.audio.size) > 0)) {
+      error(`"${e.title}": the audio file size is unknown.`);
+    }
+    if (!e.audio.duration) warning(`"${e.title}": duration is unknown.`);
+  }
+
+  return problems;
+}
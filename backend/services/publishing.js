@@ -0,0 +1,144 @@
+// services/publishing.js
+// Draft copy of the homepage content. The editor saves here; publishing
+// (now, or at `publish.publishAt` via the scheduler) promotes the draft to
+// the live siteContent through saveSiteContent, so it gets versioned too.
+import {
+  getSiteContentDraft,
+  removeSiteContentDraft,
+  setSiteContentDraft,
+} from "../repositories/siteContent.js";
+import { recordAudit } from "./audit.js";
+import { saveSiteContent } from "./contentVersions.js";
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// stands in for req in audit entries written by the scheduler
+const schedulerActor = { user: { username: "scheduler" }, ip: null };
+
+export function getDraft() {
+  return getSiteContentDraft();
+}
+
+/** Save `content` (without publish metadata) as the draft. */
+export async function saveDraft(content, user) {
+  const existing = await getSiteContentDraft();
+  // editing a scheduled draft keeps it scheduled
+  const scheduled =
+    existing?.publish?.status === "scheduled"
+      ? {
+          status: "scheduled",
+          publishAt: existing.publish.publishAt,
+          scheduledBy: existing.publish.scheduledBy,
+        }
+      : { status: "draft" };
+
+  const draft = {
+    ...content,
+    publish: {
+      ...scheduled,
+      updatedAt: new Date().toISOString(),
+      updatedBy: user.username,
+    },
+  };
+  await setSiteContentDraft(draft);
+  return draft;
+}
+
+export async function scheduleDraft(publishAt, user) {
+  const draft = await getSiteContentDraft();
+  if (!draft) return null;
+
+  const next = {
+    ...draft,
+    publish: {
+      ...draft.publish,
+      status: "scheduled",
+      publishAt: new Date(publishAt).toISOString(),
+      scheduledBy: user.username,
+    },
+  };
+  await setSiteContentDraft(next);
+  return next;
+}
+
+export async function unscheduleDraft() {
+  const draft = await getSiteContentDraft();
+  if (!draft) return null;
+
+  const { publishAt, scheduledBy, ...publish } = draft.publish || {};
+  const next = { ...draft, publish: { ...publish, status: "draft" } };
+  await setSiteContentDraft(next);
+  return next;
+}
+
+export function discardDraft() {
+  return removeSiteContentDraft();
+}
+
+/**
+ * Make the draft live. `user` is the publishing admin (req.user), or a
+ * bare { username } for the scheduler. Resolves with the new live content,
+ * or null when there is no draft.
+ */
+export async function publishDraft(user) {
+  const draft = await getSiteContentDraft();
+  if (!draft) return null;
+
+  const { publish, ...content } = draft;
+  const live = {
+    ...content,
+    publish: {
+      status: "published",
+      publishedAt: new Date().toISOString(),
+      publishedBy: user.username,
+    },
+  };
+  await saveSiteContent(live, user, "publish");
+  await removeSiteContentDraft();
+  return live;
+}
+
+let pending = null;
+
+/**
+ * Publish the draft if its scheduled time has passed. Called by the
+ * interval below and on every public content read, since the host may
+ * have been asleep when the time came. Concurrent calls share one run.
+ */
+export function publishDueDraft(now = Date.now()) {
+  if (!pending) {
+    pending = (async () => {
+      const draft = await getSiteContentDraft();
+      const publish = draft?.publish;
+      if (
+        publish?.status !== "scheduled" ||
+        !(Date.parse(publish.publishAt) <= now)
+      ) {
+        return false;
+      }
+
+      const live = await publishDraft({ username: "scheduler" });
+      await recordAudit(schedulerActor, "content.publish", {
+        after: live,
+        details: {
+          scheduledBy: publish.scheduledBy ?? null,
+          publishAt: publish.publishAt,
+        },
+      });
+      return true;
+    })().finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
+
+export function startPublishScheduler(intervalMs = SCHEDULER_INTERVAL_MS) {
+  const timer = setInterval(() => {
+    publishDueDraft().catch((err) =>
+      console.error("Scheduled publish failed:", err)
+    );
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
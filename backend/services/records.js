@@ -0,0 +1,326 @@
+// services/records.js
+// Review workflow for voice messages: every record is "new" until the host
+// shortlists, answers or rejects it. An answered record can point at the
+// episode (and the second into it) where it was answered.
+import { files } from "../storage/index.js";
+import {
+  findRecordsByStatus,
+  getRecord,
+  getRecordCounts,
+  listRecords,
+  queryRecordsByUploadTime,
+  removeRecord,
+  updateRecordCounts,
+} from "../repositories/records.js";
+
+export const RECORD_STATUSES = ["new", "shortlisted", "answered", "rejected"];
+
+export const recordStatus = (record) =>
+  RECORD_STATUSES.includes(record?.status) ? record.status : "new";
+
+// statuses that mean the message may be used on air; they need consent
+export const ON_AIR_STATUSES = ["shortlisted", "answered"];
+
+export const RECORD_SORTS = ["newest", "oldest", "longest", "shortest"];
+const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const MAX_NOTES_LENGTH = 2000;
+
+// the shape GET /audio/files returns
+const listItem = (id, rec) => {
+  const r = rec || {};
+  return {
+    id,
+    name: r.fileName || null,
+    url: r.url || null,
+    title: r.title || null,
+    notes: r.notes || null,
+    // the number itself is encrypted; see the reveal route
+    hasPhone: !!(r.phoneEncrypted || r.phone),
+    voiceType: r.voiceType || null,
+    uploadedAt: r.uploadedAt || null,
+    quarantined: !!r.quarantined,
+    quarantineReasons: r.quarantineReasons || [],
+    status: recordStatus(r),
+    answeredIn: r.answeredIn || null,
+    // { version, text, acceptedAt, voiceType }; null on older uploads
+    consent: r.consent || null,
+    // ensure duration is a number (if missing, fallback to 0)
+    duration:
+      typeof r.duration === "number" && isFinite(r.duration)
+        ? r.duration
+        : Number.parseFloat(r.duration) || 0,
+  };
+};
+
+// What the audit log keeps of a deleted record. The log is never purged,
+// so nothing about the listener (phone number, deletion token) goes in.
+export const auditedRecord = (rec) => ({
+  fileName: rec?.fileName || null,
+  title: rec?.title || null,
+  uploadedAt: rec?.uploadedAt || null,
+  status: recordStatus(rec),
+});
+
+const uploadedMs = (item) =>
+  item.uploadedAt ? Date.parse(item.uploadedAt) || 0 : 0;
+
+// sort value and direction; ties are broken by id in the same direction
+// (as an RTDB query orders them) so cursors are stable
+const SORTS = {
+  newest: { value: uploadedMs, dir: -1 },
+  oldest: { value: uploadedMs, dir: 1 },
+  longest: { value: (item) => item.duration, dir: -1 },
+  shortest: { value: (item) => item.duration, dir: 1 },
+};
+
+const encodeCursor = (value, id) =>
+  Buffer.from(JSON.stringify([value, id])).toString("base64url");
+
+/** [value, id] from a cursor, or null if it isn't one of ours. */
+export function decodeCursor(cursor) {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      typeof parsed[0] === "number" &&
+      typeof parsed[1] === "string"
+    ) {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+const noCounts = () => Object.fromEntries(RECORD_STATUSES.map((s) => [s, 0]));
+
+/**
+ * { new, shortlisted, answered, rejected } over all records. The counts are
+ * kept in the DB as records change; the first call counts them all.
+ */
+export async function recordCounts() {
+  const stored = await getRecordCounts();
+  if (stored) return { ...noCounts(), ...stored };
+
+  const counted = noCounts();
+  for (const rec of Object.values(await listRecords())) {
+    counted[recordStatus(rec)] += 1;
+  }
+  const { value } = await updateRecordCounts((current) => current ?? counted);
+  return { ...noCounts(), ...value };
+}
+
+/**
+ * Move a record between the status counts: `from` is null for a new record
+ * and `to` null for a removed one.
+ */
+export async function countStatusChange(from, to) {
+  if (from === to) return;
+  await updateRecordCounts((counts) => {
+    // not counted yet; recordCounts() will count everything
+    if (!counts) return null;
+    const next = { ...counts };
+    if (from) next[from] = Math.max(0, (next[from] || 0) - 1);
+    if (to) next[to] = (next[to] || 0) + 1;
+    return next;
+  });
+}
+
+/**
+ * A page of the unfiltered newest/oldest list straight from an uploadedAt
+ * query, or null if the cursor's record is gone and the caller has to scan.
+ */
+async function pageByUploadTime(sort, cursor, limit) {
+  const newest = sort === "newest";
+  let bound;
+  if (cursor) {
+    const after = await getRecord(cursor[1]);
+    if (!after) return null;
+    bound = [after.uploadedAt ?? null, cursor[1]];
+  }
+  // the bound is inclusive, and one more tells whether there's a next page
+  const rows = await queryRecordsByUploadTime(
+    newest
+      ? { endAt: bound, limitToLast: limit + 2 }
+      : { startAt: bound, limitToFirst: limit + 2 }
+  );
+  if (newest) rows.reverse();
+  const page = rows
+    .filter(([id]) => id !== cursor?.[1])
+    .map(([id, rec]) => listItem(id, rec));
+
+  const statusCounts = await recordCounts();
+  const items = page.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor:
+      page.length > limit && last
+        ? encodeCursor(uploadedMs(last), last.id)
+        : null,
+    total: Object.values(statusCounts).reduce((sum, n) => sum + n, 0),
+    statusCounts,
+  };
+}
+
+// records uploaded between `from` and `to` (ms) as [[id, record]]; the
+// query is a second wider on both ends, since stored times may be written
+// with or without milliseconds, and queryRecords filters exactly
+async function recordsUploadedBetween(from, to) {
+  const iso = (ms) => new Date(ms).toISOString();
+  return queryRecordsByUploadTime({
+    startAt: from !== undefined ? [iso(from - 1000)] : undefined,
+    endAt: to !== undefined ? [iso(to + 1000)] : undefined,
+  });
+}
+
+/**
+ * One page of records for the dashboard. Filters (all optional):
+ * status, voiceType, hasPhone and quarantined (booleans), from/to (ms),
+ * minDuration/maxDuration (seconds) and q (text in title, notes or file
+ * name).
+ * Resolves with { items, nextCursor, total, statusCounts }, where
+ * statusCounts ignores the status filter so the tabs can show all counts.
+ *
+ * The plain newest/oldest list is read page by page with an uploadedAt
+ * query. RTDB can't combine the other filters in a query, so those read the
+ * records in the from/to range (all of them without one) and do the rest
+ * here; the page size keeps responses small.
+ */
+export async function queryRecords({
+  status,
+  voiceType,
+  hasPhone,
+  quarantined,
+  from,
+  to,
+  minDuration,
+  maxDuration,
+  q,
+  sort = "newest",
+  cursor,
+  limit = DEFAULT_PAGE_SIZE,
+} = {}) {
+  const needle = q?.trim().toLocaleLowerCase();
+
+  const unfiltered = [
+    status,
+    voiceType,
+    hasPhone,
+    quarantined,
+    from,
+    to,
+    minDuration,
+    maxDuration,
+    needle,
+  ].every((value) => value === undefined || value === "");
+  if (unfiltered && (sort === "newest" || sort === "oldest")) {
+    const page = await pageByUploadTime(sort, cursor, limit);
+    if (page) return page;
+  }
+
+  const source =
+    from !== undefined || to !== undefined
+      ? await recordsUploadedBetween(from, to)
+      : Object.entries(await listRecords());
+  const matching = source
+    .map(([id, rec]) => listItem(id, rec))
+    .filter((item) => {
+      if (voiceType && item.voiceType !== voiceType) return false;
+      if (hasPhone !== undefined && item.hasPhone !== hasPhone) return false;
+      if (quarantined !== undefined && item.quarantined !== quarantined) {
+        return false;
+      }
+      const at = uploadedMs(item);
+      if (from !== undefined && at < from) return false;
+      if (to !== undefined && at > to) return false;
+      if (minDuration !== undefined && item.duration < minDuration) {
+        return false;
+      }
+      if (maxDuration !== undefined && item.duration > maxDuration) {
+        return false;
+      }
+      if (
+        needle &&
+        ![item.title, item.notes, item.name].some((text) =>
+          text?.toLocaleLowerCase().includes(needle)
+        )
+      ) {
+        return false;
+      }
+      return true;
+    });
+
+  const statusCounts = noCounts();
+  for (const item of matching) statusCounts[item.status] += 1;
+
+  const { value, dir } = SORTS[sort] || SORTS.newest;
+  const compare = (va, ida, vb, idb) =>
+    va !== vb ? (va - vb) * dir : ida < idb ? -dir : ida > idb ? dir : 0;
+
+  let rows = matching
+    .filter((item) => !status || item.status === status)
+    .sort((a, b) => compare(value(a), a.id, value(b), b.id));
+  const total = rows.length;
+
+  if (cursor) {
+    const [afterValue, afterId] = cursor;
+    rows = rows.filter(
+      (item) => compare(value(item), item.id, afterValue, afterId) > 0
+    );
+  }
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last ? encodeCursor(value(last), last.id) : null,
+    total,
+    statusCounts,
+  };
+}
+
+/**
+ * { episodeId: [{ title, timestamp }] } for answered messages, ordered by
+ * timestamp. Only what's safe to show publicly: no phone, no file.
+ * Public pages call this on every load, so it queries the answered
+ * records instead of reading the whole inbox.
+ */
+export async function answeredByEpisode() {
+  const byEpisode = {};
+  for (const record of Object.values(await findRecordsByStatus("answered"))) {
+    const episodeId = record?.answeredIn?.episodeId;
+    if (!episodeId) continue;
+    (byEpisode[episodeId] ||= []).push({
+      title: record.title || null,
+      timestamp: record.answeredIn.timestamp ?? null,
+    });
+  }
+  for (const list of Object.values(byEpisode)) {
+    list.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+  }
+  return byEpisode;
+}
+
+/**
+ * Delete records ({ id: record }) along with their stored audio files.
+ * A file that is already gone doesn't stop the record from going.
+ */
+export async function deleteRecords(recordsById) {
+  await Promise.all(
+    Object.entries(recordsById).map(async ([id, rec]) => {
+      const filePath = `audio/${rec?.fileName}`;
+      try {
+        await files.delete(filePath);
+      } catch (e) {
+        console.warn("Failed to delete storage file:", filePath, e);
+      }
+      await removeRecord(id);
+      await countStatusChange(recordStatus(rec), null);
+    })
+  );
+}
@@ -0,0 +1,97 @@
+// services/retention.js
+// Privacy retention for voice messages. Configured in days through env:
+//   RETENTION_PHONE_DAYS      phone numbers are wiped from older records
+//   RETENTION_RECORDING_DAYS  older recordings are deleted (file + record)
+// Unset or 0 keeps them forever. The job also encrypts any phone number
+// still stored in plain text by older versions of the upload route.
+import dotenv from "dotenv";
+import { listRecords, updateRecord } from "../repositories/records.js";
+import { recordAudit } from "./audit.js";
+import { encryptPhone } from "./phoneCrypto.js";
+import { normalizePhone } from "./phoneNumber.js";
+import { deleteRecords } from "./records.js";
+
+dotenv.config();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// stands in for req in audit entries written by the job
+const retentionActor = { user: { username: "retention" }, ip: null };
+
+const days = (value) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+export function retentionPolicy() {
+  return {
+    phoneDays: days(process.env.RETENTION_PHONE_DAYS),
+    recordingDays: days(process.env.RETENTION_RECORDING_DAYS),
+  };
+}
+
+let pending = null;
+
+/**
+ * Apply `policy` to every record. Resolves with
+ * { phonesPurged, recordingsDeleted, phonesEncrypted }. Concurrent calls
+ * share one run.
+ */
+export function runRetention(now = Date.now(), policy = retentionPolicy()) {
+  if (!pending) {
+    pending = applyPolicy(now, policy).finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
+
+async function applyPolicy(now, { phoneDays, recordingDays }) {
+  const summary = { phonesPurged: 0, recordingsDeleted: 0, phonesEncrypted: 0 };
+
+  for (const [id, record] of Object.entries(await listRecords())) {
+    const uploaded = Date.parse(record?.uploadedAt);
+    const age = Number.isFinite(uploaded) ? now - uploaded : null;
+    const expired = (limit) =>
+      limit !== null && age !== null && age > limit * DAY_MS;
+
+    if (expired(recordingDays)) {
+      await deleteRecords({ [id]: record });
+      summary.recordingsDeleted += 1;
+    } else if (expired(phoneDays) && (record.phoneEncrypted || record.phone)) {
+      await updateRecord(id, {
+        phoneEncrypted: null,
+        phoneE164Encrypted: null,
+        phone: null,
+        phonePurgedAt: new Date(now).toISOString(),
+      });
+      summary.phonesPurged += 1;
+    } else if (record?.phone) {
+      const e164 = normalizePhone(record.phone);
+      await updateRecord(id, {
+        phoneEncrypted: encryptPhone(record.phone),
+        phoneE164Encrypted: e164 ? encryptPhone(e164) : null,
+        phone: null,
+      });
+      summary.phonesEncrypted += 1;
+    }
+  }
+
+  if (Object.values(summary).some(Boolean)) {
+    await recordAudit(retentionActor, "privacy.retention", {
+      details: { ...summary, phoneDays, recordingDays },
+    });
+  }
+  return summary;
+}
+
+/** Run now and then every few hours; the timer doesn't keep the process alive. */
+export function startRetentionJob(intervalMs = JOB_INTERVAL_MS) {
+  const run = () =>
+    runRetention().catch((err) => console.error("Retention job failed:", err));
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
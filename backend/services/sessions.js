@@ -0,0 +1,119 @@
+// services/sessions.js
+// Refresh-token sessions for the admin panel. The access token is a short
+// JWT; the refresh token is an opaque random string in an httpOnly cookie,
+// stored only as a hash. Every refresh rotates it, and presenting an
+// already-rotated token (outside a short grace window for parallel tabs)
+// revokes the whole family, since that means it was copied.
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  findRefreshTokens,
+  getRefreshToken,
+  removeRefreshToken,
+  saveRefreshToken,
+  updateRefreshToken,
+} from "../repositories/refreshTokens.js";
+import { findAccountById } from "./adminUsers.js";
+
+export const ACCESS_TOKEN_TTL = "15m";
+export const REFRESH_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const REUSE_GRACE_MS = 10 * 1000;
+
+const hashToken = (token) =>
+  crypto.createHash("sha256").update(String(token)).digest("hex");
+
+// JWT carries who and what they may do; see middleware/requireRole.js
+export const signAccessToken = ({ id, username, role }) =>
+  jwt.sign({ sub: id, username, role }, process.env.JWT_SECRET, {
+    algorithm: "HS512",
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
+
+async function issueRefreshToken(userId, familyId) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  await saveRefreshToken(hashToken(token), {
+    userId,
+    familyId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + REFRESH_TTL_MS).toISOString(),
+  });
+  return token;
+}
+
+// drop this user's records that can no longer be used or reused
+async function sweepExpired(userId) {
+  const tokens = await findRefreshTokens("userId", userId);
+  const now = Date.now();
+  await Promise.all(
+    Object.entries(tokens)
+      .filter(([, t]) => Date.parse(t.expiresAt) < now)
+      .map(([hash]) => removeRefreshToken(hash))
+  );
+}
+
+async function revokeWhere(field, value) {
+  const tokens = await findRefreshTokens(field, value);
+  const revokedAt = new Date().toISOString();
+  await Promise.all(
+    Object.entries(tokens)
+      .filter(([, t]) => !t.revokedAt)
+      .map(([hash]) => updateRefreshToken(hash, { revokedAt }))
+  );
+}
+
+/** New login: resolves with { accessToken, refreshToken }. */
+export async function startSession(account) {
+  await sweepExpired(account.id);
+  const refreshToken = await issueRefreshToken(account.id, crypto.randomUUID());
+  return { accessToken: signAccessToken(account), refreshToken };
+}
+
+/**
+ * Trade a refresh token for a new pair. Resolves with
+ * { accessToken, refreshToken } or null when the session is over. The
+ * account is re-read, so role changes and removals apply here.
+ */
+export async function rotateSession(refreshToken) {
+  if (!refreshToken) return null;
+  const hash = hashToken(refreshToken);
+  const record = await getRefreshToken(hash);
+  if (!record || Date.parse(record.expiresAt) < Date.now()) return null;
+
+  if (record.revokedAt) {
+    const racing =
+      record.replacedBy &&
+      Date.now() - Date.parse(record.revokedAt) < REUSE_GRACE_MS;
+    if (!racing) {
+      await revokeWhere("familyId", record.familyId);
+      return null;
+    }
+  }
+
+  const account = await findAccountById(record.userId);
+  if (!account) {
+    await revokeWhere("familyId", record.familyId);
+    return null;
+  }
+
+  const next = await issueRefreshToken(account.id, record.familyId);
+  if (!record.revokedAt) {
+    await updateRefreshToken(hash, {
+      revokedAt: new Date().toISOString(),
+      replacedBy: hashToken(next),
+    });
+  }
+  return { accessToken: signAccessToken(account), refreshToken: next };
+}
+
+/** Logout: revoke the token's whole family (this browser's session). */
+export async function endSession(refreshToken) {
+  if (!refreshToken) return;
+  const record = await getRefreshToken(hashToken(refreshToken));
+  if (record) await revokeWhere("familyId", record.familyId);
+}
+
+/** Sign a user out everywhere, e.g. when they are removed. */
+export function revokeUserSessions(userId) {
+  return revokeWhere("userId", userId);
+}
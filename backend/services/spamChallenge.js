@@ -0,0 +1,128 @@
+// services/spamChallenge.js
+import crypto from "crypto";
+import dotenv from "dotenv";
+import { defaultStore } from "../middleware/rateLimit.js";
+
+dotenv.config();
+
+// Spam checks for the public upload route:
+//  - proof-of-work: GET /api/upload/challenge hands out a signed token, the
+//    client finds a nonce so sha256(`${token}:${nonce}`) starts with
+//    `difficulty` zero bits, and sends both back with the upload
+//  - honeypot: a hidden "website" field that people never fill in
+//
+// UPLOAD_CHALLENGE = "required" rejects uploads failing the PoW,
+// "soft" (default) stores them quarantined, "off" skips the PoW check.
+
+// read per upload, so the mode can be switched without a reload (tests)
+export const challengeMode = () => process.env.UPLOAD_CHALLENGE || "soft";
+const DIFFICULTY = Number(process.env.UPLOAD_CHALLENGE_DIFFICULTY) || 14;
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+// without a key anyone could sign their own tokens, so then there are none
+const secret = () =>
+  process.env.CHALLENGE_SECRET || process.env.JWT_SECRET || null;
+
+if (!secret() && challengeMode() !== "off") {
+  console.warn(
+    "Neither CHALLENGE_SECRET nor JWT_SECRET is set; upload challenges are not issued."
+  );
+}
+
+const sign = (payload) =>
+  crypto.createHmac("sha256", secret()).update(payload).digest("base64url");
+
+function leadingZeroBits(buf) {
+  let bits = 0;
+  for (const byte of buf) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/** A new challenge, or null when there is no key to sign it with. */
+export function issueChallenge() {
+  if (!secret()) return null;
+  const payload = Buffer.from(
+    JSON.stringify({
+      n: crypto.randomBytes(12).toString("hex"),
+      d: DIFFICULTY,
+      exp: Date.now() + CHALLENGE_TTL_MS,
+    })
+  ).toString("base64url");
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    difficulty: DIFFICULTY,
+    expiresInSeconds: CHALLENGE_TTL_MS / 1000,
+  };
+}
+
+/**
+ * Returns null when the solution is good, otherwise a short reason
+ * ("unavailable", "missing", "invalid", "expired", "unsolved", "reused").
+ */
+export async function verifyChallenge(token, nonce, store = defaultStore) {
+  if (!secret()) return "unavailable";
+  if (!token || !nonce) return "missing";
+
+  const [payload, sig] = String(token).split(".");
+  const expected = payload ? sign(payload) : "";
+  if (
+    !sig ||
+    sig.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))
+  ) {
+    return "invalid";
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return "invalid";
+  }
+  if (!claims.exp || claims.exp < Date.now()) return "expired";
+
+  const hash = crypto.createHash("sha256").update(`${token}:${nonce}`).digest();
+  if (leadingZeroBits(hash) < claims.d) return "unsolved";
+
+  // each token buys exactly one upload
+  const { count } = await store.hit(`pow:${claims.n}`, CHALLENGE_TTL_MS);
+  if (count > 1) return "reused";
+
+  return null;
+}
+
+/**
+ * Look at the submitted fields and decide what to do with the upload.
+ * Resolves with { reject: bool, reasons: string[] }; non-empty reasons on
+ * an accepted upload mean the record is stored quarantined.
+ */
+export async function assessSubmission(fields, store = defaultStore) {
+  const reasons = [];
+
+  if (fields.website && String(fields.website).trim() !== "") {
+    reasons.push("honeypot");
+  }
+
+  if (challengeMode() !== "off") {
+    const problem = await verifyChallenge(
+      fields.challengeToken,
+      fields.challengeNonce,
+      store
+    );
+    if (problem) {
+      if (challengeMode() === "required") {
+        return { reject: true, reasons: [`challenge-${problem}`] };
+      }
+      reasons.push(`challenge-${problem}`);
+    }
+  }
+
+  return { reject: false, reasons };
+}
@@ -0,0 +1,125 @@
+// services/twoFactor.js
+// TOTP second factor for admin logins, with single-use recovery codes.
+import crypto from "crypto";
+import dotenv from "dotenv";
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import {
+  getTwoFactor,
+  removeTwoFactor,
+  updateTwoFactor,
+} from "../repositories/twoFactor.js";
+import { generateSecret, otpauthUrl, verifyCode } from "./totp.js";
+
+dotenv.config();
+
+const ISSUER = process.env.TOTP_ISSUER || "Kirss Tordil admin";
+const RECOVERY_CODE_COUNT = 10;
+const MFA_TOKEN_TTL = "5m";
+
+// signed with a derived key so a half-finished login can never pass
+// verifyToken as an access token
+const mfaSecret = () => `${process.env.JWT_SECRET}:mfa`;
+
+const hashCode = (code) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      String(code)
+        .toLowerCase()
+        .replace(/[^0-9a-f]/g, "")
+    )
+    .digest("hex");
+
+function newRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashCode) };
+}
+
+export async function twoFactorStatus(userId) {
+  const tf = await getTwoFactor(userId);
+  return {
+    enabled: !!tf?.enabledAt,
+    recoveryCodesLeft: tf?.enabledAt ? (tf.recoveryCodeHashes || []).length : 0,
+  };
+}
+
+export async function isTwoFactorEnabled(userId) {
+  return (await twoFactorStatus(userId)).enabled;
+}
+
+/** Fresh secret waiting for its first code; resolves with QR + secret. */
+export async function beginEnrollment(account) {
+  const secret = generateSecret();
+  await updateTwoFactor(account.id, { pendingSecret: secret });
+  const url = otpauthUrl(secret, account.username, ISSUER);
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+}
+
+/** Enable 2FA if `code` matches the pending secret; resolves with recovery codes or null. */
+export async function confirmEnrollment(userId, code) {
+  const tf = await getTwoFactor(userId);
+  if (!tf?.pendingSecret) return null;
+  const step = verifyCode(tf.pendingSecret, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = newRecoveryCodes();
+  await updateTwoFactor(userId, {
+    secret: tf.pendingSecret,
+    pendingSecret: null,
+    enabledAt: new Date().toISOString(),
+    lastStep: step,
+    recoveryCodeHashes: hashes,
+  });
+  return codes;
+}
+
+/**
+ * Check a TOTP code or a recovery code for an enrolled user. Codes can't
+ * be replayed: TOTP steps must move forward and recovery codes are used up.
+ */
+export async function checkSecondFactor(userId, { code, recoveryCode } = {}) {
+  const tf = await getTwoFactor(userId);
+  if (!tf?.enabledAt) return false;
+
+  if (recoveryCode) {
+    const hash = hashCode(recoveryCode);
+    const left = tf.recoveryCodeHashes || [];
+    if (!left.includes(hash)) return false;
+    await updateTwoFactor(userId, {
+      recoveryCodeHashes: left.filter((h) => h !== hash),
+    });
+    return true;
+  }
+
+  const step = verifyCode(tf.secret, code);
+  if (step === null || step <= (tf.lastStep ?? -1)) return false;
+  await updateTwoFactor(userId, { lastStep: step });
+  return true;
+}
+
+export async function regenerateRecoveryCodes(userId) {
+  const { codes, hashes } = newRecoveryCodes();
+  await updateTwoFactor(userId, { recoveryCodeHashes: hashes });
+  return codes;
+}
+
+export const disableTwoFactor = (userId) => removeTwoFactor(userId);
+
+/** Short-lived proof that the password step passed. */
+export const signMfaToken = ({ id, username }) =>
+  jwt.sign({ sub: id, username }, mfaSecret(), {
+    algorithm: "HS512",
+    expiresIn: MFA_TOKEN_TTL,
+  });
+
+export function verifyMfaToken(token) {
+  try {
+    return jwt.verify(String(token), mfaSecret(), { algorithms: ["HS512"] });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+// services/voiceAnonymizer.js
+import ffmpeg from "fluent-ffmpeg";
+import os from "os";
+import path from "path";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+
+// Server-side voice disguise. Preset names mirror the frontend's
+// utils/voicePresets.ts so the same voiceType means the same voice;
+// ffmpeg (FFMPEG_PATH or on PATH) does the actual processing.
+
+const SAMPLE_RATE = 22050;
+const BITRATE_KBPS = 64;
+
+// pitch shift that keeps tempo: resample up/down, then time-stretch back
+const pitch = (semitones) => {
+  const f = Math.pow(2, semitones / 12);
+  return [
+    `asetrate=${SAMPLE_RATE}*${f.toFixed(5)}`,
+    `aresample=${SAMPLE_RATE}`,
+    `atempo=${(1 / f).toFixed(5)}`,
+  ];
+};
+
+// afftfilt evaluates real and imag separately, so random() would draw two
+// phases and change the magnitude; both use this hash of bin and frame time
+const PHASE_HASH = "sin(b*12.9898+pts*78.233)*43758.5453";
+const WHISPER_PHASE = `2*PI*(${PHASE_HASH}-floor(${PHASE_HASH}))`;
+
+const VOICE_FILTERS = {
+  voice1: [...pitch(2.4), "treble=g=3:f=4000", "bass=g=2:f=200"],
+  deep: [...pitch(-5), "bass=g=3:f=180", "treble=g=-4:f=5000"],
+  high: [...pitch(4), "treble=g=2:f=4000"],
+  robot: [
+    "aeval=val(0)*sin(2*PI*55*t)",
+    "equalizer=f=1200:t=q:w=1:g=4",
+    "volume=1.4",
+  ],
+  // keep each bin's magnitude, give it a random phase
+  whisper: [
+    `afftfilt=real='hypot(re,im)*cos(${WHISPER_PHASE})':imag='hypot(re,im)*sin(${WHISPER_PHASE})':win_size=512:overlap=0.75`,
+    "highpass=f=300",
+    "volume=1.8",
+  ],
+  radio: [
+    ...pitch(-2),
+    "highpass=f=400",
+    "lowpass=f=3200",
+    "equalizer=f=1500:t=q:w=1.2:g=6",
+  ],
+};
+
+// read per upload, so the setting can be flipped without a reload (tests)
+export const serverAnonymizeEnabled = () =>
+  process.env.SERVER_ANONYMIZE !== "false";
+
+export function isServerVoice(voiceType) {
+  return Object.prototype.hasOwnProperty.call(VOICE_FILTERS, voiceType);
+}
+
+/**
+ * Apply the voiceType preset to an uploaded recording.
+ * Resolves with an MP3 buffer; the input buffer is never written anywhere
+ * except a private temp dir that is removed afterwards. `processVoice`
+ * does the work, ffmpeg unless another (buffer, voiceType) => { buffer,
+ * mimeType, ext } is given.
+ */
+export async function anonymizeAudio(
+  buffer,
+  voiceType,
+  processVoice = ffmpegVoice
+) {
+  if (!isServerVoice(voiceType)) {
+    throw new Error(`Unknown voice preset: ${voiceType}`);
+  }
+  return processVoice(buffer, voiceType);
+}
+
+async function ffmpegVoice(buffer, voiceType) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "voice-"));
+  const inPath = path.join(dir, "input");
+  const outPath = path.join(dir, "output.mp3");
+
+  try {
+    await writeFile(inPath, buffer);
+
+    await new Promise((resolve, reject) => {
+      ffmpeg(inPath)
+        .audioChannels(1)
+        .audioFrequency(SAMPLE_RATE)
+        .audioFilters([`aresample=${SAMPLE_RATE}`, ...VOICE_FILTERS[voiceType]])
+        .audioCodec("libmp3lame")
+        .audioBitrate(BITRATE_KBPS)
+        .noVideo()
+        .format("mp3")
+        .on("end", resolve)
+        .on("error", reject)
+        .save(outPath);
+    });
+
+    return {
+      buffer: await readFile(outPath),
+      mimeType: "audio/mpeg",
+      ext: ".mp3",
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,30 @@
+// services/withdrawal.js
+// Lets a listener take back their voice message without an account: the
+// upload response carries a random token, only its hash is stored on the
+// record, and presenting the token later deletes the recording together
+// with the phone number (the same cleanup as the admin delete).
+import crypto from "crypto";
+import { findRecordByDeletionToken } from "../repositories/records.js";
+import { deleteRecords } from "./records.js";
+
+const hashToken = (token) =>
+  crypto.createHash("sha256").update(String(token)).digest("hex");
+
+/** { token } for the listener, { hash } for the record. */
+export function newDeletionToken() {
+  const token = crypto.randomBytes(24).toString("base64url");
+  return { token, hash: hashToken(token) };
+}
+
+/**
+ * Delete the recording `token` was issued for. Resolves with the removed
+ * file name, or null when no record matches (wrong or already used token).
+ */
+export async function withdrawRecording(token) {
+  if (typeof token !== "string" || !token) return null;
+  const matches = await findRecordByDeletionToken(hashToken(token));
+  if (Object.keys(matches).length === 0) return null;
+
+  await deleteRecords(matches);
+  return Object.values(matches)[0]?.fileName ?? null;
+}
@@ -0,0 +1,96 @@
+// storage/firebaseStorage.js
+// Firebase driver: Realtime Database + Cloud Storage bucket.
+import { admin, bucket } from "../firebase.js";
+
+export function createStorage() {
+  const ref = (p) => admin.database().ref(p);
+
+  const db = {
+    async get(p) {
+      const snap = await ref(p).once("value");
+      return snap.val();
+    },
+    async set(p, value) {
+      await ref(p).set(value);
+    },
+    async push(p, value) {
+      const r = await ref(p).push(value);
+      return r.key;
+    },
+    async update(p, values) {
+      await ref(p).update(values);
+    },
+    async remove(p) {
+      await ref(p).remove();
+    },
+    // [[key, value]] of the children ordered by `orderBy`, within the
+    // optional [value, key] bounds startAt/endAt, then cut to the first or
+    // last N
+    async query(p, { orderBy, startAt, endAt, limitToFirst, limitToLast }) {
+      let q = ref(p).orderByChild(orderBy);
+      if (startAt) q = q.startAt(...startAt);
+      if (endAt) q = q.endAt(...endAt);
+      if (limitToFirst !== undefined) q = q.limitToFirst(limitToFirst);
+      if (limitToLast !== undefined) q = q.limitToLast(limitToLast);
+      const rows = [];
+      (await q.once("value")).forEach((child) => {
+        rows.push([child.key, child.val()]);
+      });
+      return rows;
+    },
+    // `update` may first be called with null before the stored value is
+    // known; returning undefined aborts
+    async transaction(p, update) {
+      const { committed, snapshot } = await ref(p).transaction(update);
+      return { committed, value: snapshot.val() };
+    },
+    // { key: value } of children whose `child` equals `value`
+    async findByChild(p, child, value) {
+      const snap = await ref(p)
+        .orderByChild(child)
+        .equalTo(value)
+        .once("value");
+      return snap.val() || {};
+    },
+  };
+
+  const files = {
+    async save(p, buffer, { contentType, cacheControl, metadata } = {}) {
+      await bucket.file(p).save(buffer, {
+        metadata: { contentType, cacheControl, metadata },
+        resumable: false,
+      });
+    },
+    async exists(p) {
+      const [exists] = await bucket.file(p).exists();
+      return exists;
+    },
+    async delete(p) {
+      await bucket.file(p).delete();
+    },
+    async getMetadata(p) {
+      const [meta] = await bucket.file(p).getMetadata();
+      return {
+        contentType: meta?.contentType,
+        metadata: meta?.metadata || {},
+      };
+    },
+    createReadStream(p) {
+      return bucket.file(p).createReadStream();
+    },
+    // make the object world-readable and return its permanent URL
+    async publicUrl(p) {
+      await bucket.file(p).makePublic();
+      return `https://storage.googleapis.com/${bucket.name}/${p}`;
+    },
+    async signedUrl(p, expiresInMs) {
+      const [url] = await bucket.file(p).getSignedUrl({
+        action: "read",
+        expires: Date.now() + expiresInMs,
+      });
+      return url;
+    },
+  };
+
+  return { db, files };
+}
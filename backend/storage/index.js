@@ -0,0 +1,32 @@
+// storage/index.js
+// Picks the storage driver once at startup:
+//   STORAGE_DRIVER=firebase (default) -> Realtime DB + Cloud Storage
+//   STORAGE_DRIVER=local              -> JSON file + directory on disk
+//   STORAGE_DRIVER=memory             -> process memory (tests)
+//
+// Both expose the same two objects:
+//   db:    get/set/push/update/remove/findByChild/query/transaction on
+//          "a/b/c" paths
+//   files: save/exists/delete/getMetadata/createReadStream/publicUrl/signedUrl
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const storageDriver = process.env.STORAGE_DRIVER || "firebase";
+
+const drivers = {
+  firebase: () => import("./firebaseStorage.js"),
+  local: () => import("./localStorage.js"),
+  memory: () => import("./memoryStorage.js"),
+};
+
+if (!drivers[storageDriver]) {
+  throw new Error(`Unknown STORAGE_DRIVER "${storageDriver}"`);
+}
+
+// firebase.js initializes the admin SDK on import, so only load the driver
+// that was asked for
+const { createStorage } = await drivers[storageDriver]();
+
+// `reset` only exists on the memory driver
+export const { db, files, reset } = createStorage();
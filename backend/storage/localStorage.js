@@ -0,0 +1,110 @@
+// storage/localStorage.js
+// Offline driver: a JSON file stands in for the Realtime Database and a
+// directory for the bucket. Good for development, integration tests and
+// self-hosting without Google Cloud. Files are served by app.js under
+// /files, see `files.localRoot`.
+import fs from "fs";
+import path from "path";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { createTreeDb, segments } from "./treeDb.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DATA_DIR = path.resolve(
+  process.env.LOCAL_DATA_DIR || path.join(__dirname, "..", "local-data")
+);
+const DB_FILE = path.join(DATA_DIR, "db.json");
+const FILES_DIR = path.join(DATA_DIR, "files");
+const META_DIR = path.join(DATA_DIR, "files-meta");
+
+function createJsonDb() {
+  let initial = {};
+  try {
+    initial = JSON.parse(fs.readFileSync(DB_FILE, "utf8")) || {};
+  } catch {
+    initial = {};
+  }
+
+  // serialize writes so concurrent requests can't interleave a save
+  let writing = Promise.resolve();
+  const persist = (data) => {
+    writing = writing.then(async () => {
+      await mkdir(DATA_DIR, { recursive: true });
+      const tmp = `${DB_FILE}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(data, null, 2));
+      await rename(tmp, DB_FILE);
+    });
+    return writing;
+  };
+
+  return createTreeDb(initial, persist);
+}
+
+function createFileStore() {
+  // keep every object path inside FILES_DIR
+  const resolveIn = (root, p) => {
+    const full = path.resolve(root, ...segments(p));
+    if (!full.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage path: ${p}`);
+    }
+    return full;
+  };
+  const filePath = (p) => resolveIn(FILES_DIR, p);
+  const metaPath = (p) => `${resolveIn(META_DIR, p)}.json`;
+
+  const publicBase =
+    process.env.PUBLIC_BASE_URL ||
+    `http://localhost:${process.env.PORT || 4000}`;
+  const urlFor = (p) =>
+    `${publicBase}/files/${segments(p).map(encodeURIComponent).join("/")}`;
+
+  return {
+    localRoot: FILES_DIR,
+    async save(p, buffer, { contentType, cacheControl, metadata } = {}) {
+      const target = filePath(p);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, buffer);
+      const meta = metaPath(p);
+      await mkdir(path.dirname(meta), { recursive: true });
+      await writeFile(
+        meta,
+        JSON.stringify({ contentType, cacheControl, metadata: metadata || {} })
+      );
+    },
+    async exists(p) {
+      try {
+        await stat(filePath(p));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(p) {
+      await rm(filePath(p));
+      await rm(metaPath(p), { force: true });
+    },
+    async getMetadata(p) {
+      try {
+        const meta = JSON.parse(await readFile(metaPath(p), "utf8"));
+        return { contentType: meta.contentType, metadata: meta.metadata || {} };
+      } catch {
+        return { contentType: undefined, metadata: {} };
+      }
+    },
+    createReadStream(p) {
+      return fs.createReadStream(filePath(p));
+    },
+    async publicUrl(p) {
+      return urlFor(p);
+    },
+    // nothing to sign locally; the static route is public anyway
+    async signedUrl(p) {
+      return urlFor(p);
+    },
+  };
+}
+
+export function createStorage() {
+  return { db: createJsonDb(), files: createFileStore() };
+}
@@ -0,0 +1,57 @@
+// storage/memoryStorage.js
+// Everything in process memory, gone on exit. Used by the test suite
+// (STORAGE_DRIVER=memory); `reset()` empties both stores between tests.
+import { Readable } from "stream";
+import { createTreeDb, segments } from "./treeDb.js";
+
+function createMemoryFiles() {
+  const objects = new Map(); // path -> { buffer, contentType, metadata }
+  const key = (p) => segments(p).join("/");
+
+  return {
+    objects,
+    async save(p, buffer, { contentType, cacheControl, metadata } = {}) {
+      objects.set(key(p), {
+        buffer: Buffer.from(buffer),
+        contentType,
+        cacheControl,
+        metadata: metadata || {},
+      });
+    },
+    async exists(p) {
+      return objects.has(key(p));
+    },
+    async delete(p) {
+      if (!objects.delete(key(p))) {
+        throw new Error(`No such object: ${p}`);
+      }
+    },
+    async getMetadata(p) {
+      const obj = objects.get(key(p));
+      return { contentType: obj?.contentType, metadata: obj?.metadata || {} };
+    },
+    createReadStream(p) {
+      const obj = objects.get(key(p));
+      if (!obj) throw new Error(`No such object: ${p}`);
+      return Readable.from([obj.buffer]);
+    },
+    async publicUrl(p) {
+      return `memory://${key(p)}`;
+    },
+    async signedUrl(p) {
+      return `memory://${key(p)}?signed`;
+    },
+  };
+}
+
+export function createStorage() {
+  const db = createTreeDb();
+  const files = createMemoryFiles();
+
+  const reset = async () => {
+    await db.set("", {});
+    files.objects.clear();
+  };
+
+  return { db, files, reset };
+}
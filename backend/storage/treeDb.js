@@ -0,0 +1,149 @@
+// storage/treeDb.js
+// A plain JS object with Realtime Database semantics ("a/b/c" paths, null
+// deletes, push keys). Shared by the local and memory drivers; `persist`
+// is called after every write.
+import crypto from "crypto";
+
+export const segments = (p) => String(p).split("/").filter(Boolean);
+
+// chronologically sortable, like RTDB push keys
+const pushKey = () =>
+  Date.now().toString(36).padStart(9, "0") +
+  crypto.randomBytes(6).toString("hex");
+
+// keys that would reach Object.prototype through a plain object
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const clone = (v) => (v === undefined ? null : JSON.parse(JSON.stringify(v)));
+
+// RTDB's orderByChild order: missing, false, true, numbers, strings,
+// objects; ties go by key
+const rank = (v) => {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === "boolean") return v ? 2 : 1;
+  return { number: 3, string: 4 }[typeof v] ?? 5;
+};
+const compareKeys = (a, b) => (a < b ? -1 : a > b ? 1 : 0);
+const compareOrdered = ([va, ka], [vb, kb]) => {
+  const ra = rank(va);
+  const rb = rank(vb);
+  if (ra !== rb) return ra - rb;
+  if (ra === 3 || ra === 4) {
+    if (va !== vb) return va < vb ? -1 : 1;
+  }
+  return compareKeys(ka, kb);
+};
+
+export function createTreeDb(initial = {}, persist = async () => {}) {
+  let data = initial;
+
+  const read = (p) => {
+    let node = data;
+    for (const s of segments(p)) {
+      if (
+        node === null ||
+        typeof node !== "object" ||
+        !Object.hasOwn(node, s)
+      ) {
+        return null;
+      }
+      node = node[s];
+    }
+    return node;
+  };
+
+  const write = (p, value) => {
+    const segs = segments(p);
+    const unsafe = segs.find((s) => UNSAFE_KEYS.has(s));
+    if (unsafe !== undefined) throw new Error(`Invalid key: ${unsafe}`);
+    if (segs.length === 0) {
+      data = clone(value) ?? {};
+      return;
+    }
+    const parents = [];
+    let node = data;
+    for (const s of segs.slice(0, -1)) {
+      if (
+        !Object.hasOwn(node, s) ||
+        node[s] === null ||
+        typeof node[s] !== "object"
+      ) {
+        node[s] = {};
+      }
+      parents.push([node, s]);
+      node = node[s];
+    }
+    const last = segs[segs.length - 1];
+    if (value !== null && value !== undefined) {
+      node[last] = clone(value);
+      return;
+    }
+    // like RTDB: writing null deletes, and empty parents disappear with it
+    delete node[last];
+    for (const [parent, key] of parents.reverse()) {
+      if (Object.keys(parent[key]).length > 0) break;
+      delete parent[key];
+    }
+  };
+
+  return {
+    async get(p) {
+      return clone(read(p));
+    },
+    async set(p, value) {
+      write(p, value);
+      await persist(data);
+    },
+    async push(p, value) {
+      const key = pushKey();
+      write(`${p}/${key}`, value);
+      await persist(data);
+      return key;
+    },
+    async update(p, values) {
+      for (const [k, v] of Object.entries(values || {})) {
+        write(`${p}/${k}`, v);
+      }
+      await persist(data);
+    },
+    async remove(p) {
+      write(p, null);
+      await persist(data);
+    },
+    // [[key, value]] of the children ordered by `orderBy`, within the
+    // optional [value, key] bounds startAt/endAt, then cut to the first or
+    // last N
+    async query(p, { orderBy, startAt, endAt, limitToFirst, limitToLast }) {
+      const parent = read(p) || {};
+      let rows = Object.entries(parent)
+        .map(([k, v]) => [v?.[orderBy] ?? null, k, v])
+        .filter(
+          (row) =>
+            (!startAt || compareOrdered(row, startAt) >= 0) &&
+            (!endAt || compareOrdered(row, endAt) <= 0)
+        )
+        .sort(compareOrdered);
+      if (limitToFirst !== undefined) rows = rows.slice(0, limitToFirst);
+      if (limitToLast !== undefined) rows = rows.slice(-limitToLast);
+      return rows.map(([, k, v]) => [k, clone(v)]);
+    },
+    // like RTDB: `update` gets the current value and returns the new one,
+    // or undefined to leave it as it is
+    async transaction(p, update) {
+      const next = update(clone(read(p)));
+      if (next === undefined)
+        return { committed: false, value: clone(read(p)) };
+      write(p, next);
+      await persist(data);
+      return { committed: true, value: clone(next) };
+    },
+    async findByChild(p, child, value) {
+      const parent = read(p) || {};
+      const result = {};
+      for (const [k, v] of Object.entries(parent)) {
+        if (v && v[child] === value) result[k] = clone(v);
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,404 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db, files } from "../storage/index.js";
+import { encryptPhone } from "../services/phoneCrypto.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+describe("/audio", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const seed = async (id, fileName, extra = {}) => {
+    await files.save(`audio/${fileName}`, Buffer.from("RIFF"), {
+      contentType: "audio/wav",
+    });
+    await db.set(`records/${id}`, { fileName, duration: 1, ...extra });
+  };
+
+  const consent = {
+    version: "abc123",
+    text: "Nõustun",
+    acceptedAt: "2024-01-01T00:00:00.000Z",
+    voiceType: "original",
+  };
+
+  const del = (filename, headers = authHeader()) =>
+    fetch(`${server.base}/audio/files/${encodeURIComponent(filename)}`, {
+      method: "DELETE",
+      headers,
+    });
+
+  it("lists records newest first with normalized fields", async () => {
+    await seed("a", "old.wav", { uploadedAt: "2024-01-01T00:00:00Z" });
+    await seed("b", "new.wav", {
+      uploadedAt: "2025-01-01T00:00:00Z",
+      duration: "3.5",
+    });
+
+    const res = await fetch(`${server.base}/audio/files`, {
+      headers: authHeader(),
+    });
+    const { items: list, nextCursor, total } = await res.json();
+    assert.equal(total, 2);
+    assert.equal(nextCursor, null);
+    assert.deepEqual(
+      list.map((r) => [r.id, r.name, r.duration]),
+      [
+        ["b", "new.wav", 3.5],
+        ["a", "old.wav", 1],
+      ]
+    );
+    assert.equal(list[0].quarantined, false);
+  });
+
+  it("deletes the record and the stored file by file name", async () => {
+    await seed("a", "keep.wav");
+    await seed("b", "gone.wav");
+
+    const res = await del("gone.wav");
+    assert.equal(res.status, 200);
+    assert.equal(await files.exists("audio/gone.wav"), false);
+    assert.equal(await db.get("records/b"), null);
+    assert.ok(await db.get("records/a"));
+    assert.ok(await files.exists("audio/keep.wav"));
+  });
+
+  it("removes every record pointing at the same file", async () => {
+    await seed("a", "dup.wav");
+    await db.set("records/b", { fileName: "dup.wav" });
+
+    const res = await del("dup.wav");
+    assert.match((await res.json()).message, /Deleted 2 record/);
+    assert.equal(await db.get("records"), null);
+  });
+
+  it("still removes the record when the file is already gone", async () => {
+    await db.set("records/a", { fileName: "missing.wav" });
+
+    const res = await del("missing.wav");
+    assert.equal(res.status, 200);
+    assert.equal(await db.get("records/a"), null);
+  });
+
+  it("deletes an orphaned file that has no record", async () => {
+    await files.save("audio/orphan.wav", Buffer.from("RIFF"));
+
+    const res = await del("orphan.wav");
+    assert.equal(res.status, 200);
+    assert.match((await res.json()).message, /no DB record/);
+    assert.equal(await files.exists("audio/orphan.wav"), false);
+  });
+
+  it("answers 404 when neither exists", async () => {
+    const res = await del("nothing.wav");
+    assert.equal(res.status, 404);
+  });
+
+  it("needs a token", async () => {
+    await seed("a", "x.wav");
+    const res = await del("x.wav", {});
+    assert.equal(res.status, 401);
+    assert.ok(await db.get("records/a"));
+  });
+
+  it("streams a download with the stored content type", async () => {
+    await seed("a", "voice.wav");
+    const res = await fetch(`${server.base}/audio/download/voice.wav`, {
+      headers: authHeader(),
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "audio/wav");
+    assert.equal(await res.text(), "RIFF");
+  });
+
+  const setStatus = (id, body, headers = authHeader()) =>
+    fetch(`${server.base}/audio/records/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  it("tracks review status and the episode that answered a message", async () => {
+    await seed("a", "question.wav", { title: "Kysimus", consent });
+    await db.set("episodes/ep1", {
+      title: "Osa 1",
+      publishedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const list = async () =>
+      (
+        await (
+          await fetch(`${server.base}/audio/files`, { headers: authHeader() })
+        ).json()
+      ).items;
+    assert.equal((await list())[0].status, "new");
+
+    assert.equal((await setStatus("a", { status: "shortlisted" })).status, 200);
+    assert.equal((await list())[0].status, "shortlisted");
+
+    const answered = await setStatus("a", {
+      status: "answered",
+      episodeId: "ep1",
+      timestamp: 754,
+    });
+    assert.equal(answered.status, 200);
+    const [record] = await list();
+    assert.deepEqual(record.answeredIn, { episodeId: "ep1", timestamp: 754 });
+
+    // shown on the public episode, without phone or file name
+    const episode = await (
+      await fetch(`${server.base}/api/episodes/ep1`)
+    ).json();
+    assert.deepEqual(episode.answeredMessages, [
+      { title: "Kysimus", timestamp: 754 },
+    ]);
+
+    // only the answered records are read, not the whole inbox
+    await seed("b", "other.wav", { title: "Teine" });
+    const get = db.get;
+    db.get = (path) => {
+      assert.notEqual(path, "records");
+      return get.call(db, path);
+    };
+    try {
+      const [listed] = await (
+        await fetch(`${server.base}/api/episodes`)
+      ).json();
+      assert.deepEqual(listed.answeredMessages, [
+        { title: "Kysimus", timestamp: 754 },
+      ]);
+    } finally {
+      db.get = get;
+    }
+
+    // moving away from answered drops the link
+    await setStatus("a", { status: "rejected" });
+    assert.equal((await db.get("records/a")).answeredIn, undefined);
+    assert.equal((await db.get("records/a")).statusChangedBy, "admin");
+  });
+
+  it("keeps messages without consent off the air", async () => {
+    await seed("a", "x.wav");
+    for (const status of ["shortlisted", "answered"]) {
+      assert.equal((await setStatus("a", { status })).status, 409);
+    }
+    assert.equal((await setStatus("a", { status: "rejected" })).status, 200);
+    assert.equal((await files_("")).body.items[0].consent, null);
+  });
+
+  it("validates status changes", async () => {
+    await seed("a", "x.wav", { consent });
+    assert.equal((await setStatus("a", { status: "done" })).status, 400);
+    assert.equal(
+      (await setStatus("a", { status: "answered", episodeId: "nope" })).status,
+      400
+    );
+    assert.equal(
+      (await setStatus("a", { status: "new", episodeId: "ep1" })).status,
+      400
+    );
+    assert.equal(
+      (await setStatus("a", { status: "answered", timestamp: -1 })).status,
+      400
+    );
+    assert.equal((await setStatus("zzz", { status: "new" })).status, 404);
+    assert.equal(
+      (await setStatus("a", { status: "new" }, authHeader("listener"))).status,
+      403
+    );
+  });
+
+  const files_ = async (query = "") => {
+    const res = await fetch(`${server.base}/audio/files?${query}`, {
+      headers: authHeader(),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  it("filters records on the server", async () => {
+    await seed("a", "a.wav", {
+      uploadedAt: "2024-03-01T10:00:00Z",
+      voiceType: "normal",
+      phone: "5551234",
+      duration: 10,
+      title: "Küsimus autodest",
+    });
+    await seed("b", "b.wav", {
+      uploadedAt: "2024-03-02T10:00:00Z",
+      voiceType: "robot",
+      duration: 40,
+      title: "Tervitus",
+      notes: "Mängida AUTODE osas",
+    });
+    await seed("c", "c.wav", {
+      uploadedAt: "2024-04-01T10:00:00Z",
+      voiceType: "normal",
+      duration: 90,
+      status: "rejected",
+      quarantined: true,
+    });
+    const ids = async (query) =>
+      (await files_(query)).body.items.map((r) => r.id);
+
+    assert.deepEqual(await ids("voiceType=normal"), ["c", "a"]);
+    assert.deepEqual(await ids("hasPhone=true"), ["a"]);
+    assert.deepEqual(await ids("hasPhone=false"), ["c", "b"]);
+    assert.deepEqual(await ids("quarantined=true"), ["c"]);
+    // a date-only "to" includes that whole day
+    assert.deepEqual(await ids("from=2024-03-01&to=2024-03-02"), ["b", "a"]);
+    assert.deepEqual(await ids("minDuration=20&maxDuration=60"), ["b"]);
+    // title and notes, case-insensitive
+    assert.deepEqual(await ids("q=autod"), ["b", "a"]);
+    assert.deepEqual(await ids("status=rejected"), ["c"]);
+    assert.deepEqual(await ids("sort=longest"), ["c", "b", "a"]);
+    assert.deepEqual(await ids("sort=oldest"), ["a", "b", "c"]);
+
+    // counts follow the other filters but not the status tab
+    const { body } = await files_("status=new&voiceType=normal");
+    assert.equal(body.total, 1);
+    assert.deepEqual(body.statusCounts, {
+      new: 1,
+      shortlisted: 0,
+      answered: 0,
+      rejected: 1,
+    });
+  });
+
+  it("pages through records with a cursor", async () => {
+    for (let i = 0; i < 5; i++) {
+      // same upload time for a few, so ties have to be broken by id
+      await seed(`r${i}`, `${i}.wav`, {
+        uploadedAt: `2024-01-0${i < 3 ? 1 : i}T00:00:00Z`,
+      });
+    }
+    const pages = async (query) => {
+      const seen = [];
+      let cursor = "";
+      do {
+        const { body } = await files_(
+          `limit=2&${query}${cursor ? `&cursor=${cursor}` : ""}`
+        );
+        assert.ok(body.items.length <= 2);
+        assert.equal(body.total, 5);
+        seen.push(...body.items.map((r) => r.id));
+        cursor = body.nextCursor;
+      } while (cursor);
+      return seen;
+    };
+    const newest = ["r4", "r3", "r2", "r1", "r0"];
+    // a filter that matches everything reads all records; same order
+    assert.deepEqual(await pages("hasPhone=false"), newest);
+
+    // without filters the pages come from an uploadedAt query; only the
+    // first status count reads every record
+    await files_();
+    const get = db.get;
+    db.get = (path) => {
+      assert.notEqual(path, "records");
+      return get.call(db, path);
+    };
+    try {
+      assert.deepEqual(await pages(""), newest);
+      assert.deepEqual(await pages("sort=oldest"), [...newest].reverse());
+    } finally {
+      db.get = get;
+    }
+  });
+
+  it("keeps the status counts up to date", async () => {
+    await seed("a", "a.wav", { consent });
+    await seed("b", "b.wav", { status: "rejected" });
+    const counts = async () => (await files_()).body.statusCounts;
+    assert.deepEqual(await counts(), {
+      new: 1,
+      shortlisted: 0,
+      answered: 0,
+      rejected: 1,
+    });
+
+    await setStatus("a", { status: "shortlisted" });
+    await del("b.wav");
+    assert.deepEqual(await counts(), {
+      new: 0,
+      shortlisted: 1,
+      answered: 0,
+      rejected: 0,
+    });
+    assert.equal((await files_()).body.total, 1);
+  });
+
+  it("rejects bad list parameters", async () => {
+    assert.equal((await files_("cursor=nope")).status, 400);
+    assert.equal((await files_("sort=random")).status, 400);
+    assert.equal((await files_("status=done")).status, 400);
+    assert.equal((await files_("from=yesterday")).status, 400);
+    assert.equal((await files_("limit=0")).status, 400);
+    assert.equal((await files_("minDuration=abc")).status, 400);
+  });
+
+  it("saves notes on a record", async () => {
+    await seed("a", "x.wav", { status: "shortlisted" });
+    const res = await setStatus("a", { notes: "  Vastata järgmises osas " });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).status, "shortlisted");
+    assert.equal((await db.get("records/a")).notes, "Vastata järgmises osas");
+    assert.deepEqual(
+      (await files_("q=järgmises")).body.items.map((r) => r.id),
+      ["a"]
+    );
+
+    await setStatus("a", { notes: "" });
+    assert.equal((await db.get("records/a")).notes, undefined);
+    assert.equal((await setStatus("a", {})).status, 400);
+    assert.equal(
+      (await setStatus("a", { notes: "x".repeat(2001) })).status,
+      400
+    );
+  });
+
+  it("doesn't treat Object.prototype as a record", async () => {
+    await seed("a", "x.wav");
+    for (const id of ["__proto__", "constructor"]) {
+      assert.equal((await setStatus(id, { notes: "x" })).status, 404, id);
+    }
+    assert.equal({}.notes, undefined);
+    assert.equal(await db.get("records/__proto__"), null);
+    await assert.rejects(db.update("records/__proto__", { notes: "x" }));
+    assert.equal({}.notes, undefined);
+  });
+
+  it("reveals a phone number to the owner and logs it", async () => {
+    await seed("a", "x.wav", { phoneEncrypted: encryptPhone("5551234") });
+    await seed("b", "y.wav");
+    const reveal = (id, headers = authHeader()) =>
+      fetch(`${server.base}/audio/records/${id}/reveal-phone`, {
+        method: "POST",
+        headers,
+      });
+
+    // the list only says whether there is one
+    const [item] = (await files_("hasPhone=true")).body.items;
+    assert.equal(item.hasPhone, true);
+    assert.equal(item.phone, undefined);
+
+    assert.equal((await reveal("a", authHeader("editor"))).status, 403);
+    assert.equal((await reveal("b")).status, 404);
+
+    const res = await reveal("a");
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), {
+      id: "a",
+      phone: "5551234",
+      phoneE164: "+3725551234",
+    });
+
+    const [entry] = Object.values(await db.get("auditLog"));
+    assert.equal(entry.action, "audio.phone_reveal");
+    assert.equal(entry.target, "x.wav");
+    assert.ok(!JSON.stringify(entry).includes("5551234"));
+  });
+});
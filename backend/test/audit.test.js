@@ -0,0 +1,125 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db, files } from "../storage/index.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+describe("/api/audit", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const call = (method, path, body, headers = authHeader()) =>
+    fetch(`${server.base}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const audit = async (query = "") => {
+    const res = await call("GET", `/api/audit${query}`);
+    assert.equal(res.status, 200);
+    return res.json();
+  };
+
+  it("records deletes with who did it and the removed record", async () => {
+    await db.set("records/a", {
+      fileName: "gone.wav",
+      title: "Tere",
+      uploadedAt: "2024-06-01T10:00:00.000Z",
+      phoneEncrypted: "v1:a:b:c",
+      phoneE164Encrypted: "v1:d:e:f",
+      phone: "5551234",
+      deletionTokenHash: "abc",
+    });
+    await files.save("audio/gone.wav", Buffer.from("x"));
+
+    const res = await call(
+      "DELETE",
+      "/audio/files/gone.wav",
+      undefined,
+      authHeader("editor", "u1", "produtsent")
+    );
+    assert.equal(res.status, 200);
+
+    const { entries } = await audit();
+    assert.equal(entries.length, 1);
+    const [entry] = entries;
+    assert.equal(entry.action, "audio.delete");
+    assert.equal(entry.target, "gone.wav");
+    assert.deepEqual(entry.actor, {
+      id: "u1",
+      username: "produtsent",
+      role: "editor",
+    });
+    // nothing about the listener: the log is kept for good
+    assert.deepEqual(entry.before.a, {
+      fileName: "gone.wav",
+      title: "Tere",
+      uploadedAt: "2024-06-01T10:00:00.000Z",
+      status: "new",
+    });
+    assert.ok(Date.parse(entry.at));
+  });
+
+  it("keeps before and after for content merges", async () => {
+    await db.set("siteContent", {
+      coverImage: "/images/background.jpg",
+      mobileImage: "/images/background-small.jpg",
+      title: "Vana",
+      description: "Tere",
+      videoLink: { title: "v", youtubeLink: "https://youtu.be/x" },
+      socials: { spotify: "s", youtube: "y", instagram: "i" },
+      footer: { brand: "brand" },
+    });
+
+    const res = await call("PUT", "/api/content", { title: "Uus" });
+    assert.equal(res.status, 200);
+
+    const [entry] = (await audit("?action=content.merge")).entries;
+    assert.equal(entry.before.title, "Vana");
+    assert.equal(entry.after.title, "Uus");
+  });
+
+  it("filters by action prefix and user, newest first with paging", async () => {
+    await call("POST", "/api/users", { username: "esimene", role: "editor" });
+    await call("POST", "/api/users", { username: "teine", role: "listener" });
+    const { entries: users } = await audit("?action=user.");
+    assert.equal(users.length, 2);
+    assert.ok(users[0].id > users[1].id);
+
+    await db.set("records/a", { fileName: "a.wav" });
+    await call(
+      "DELETE",
+      "/audio/files/a.wav",
+      undefined,
+      authHeader("editor", "u1", "produtsent")
+    );
+
+    const mine = await audit("?user=produtsent");
+    assert.deepEqual(
+      mine.entries.map((e) => e.action),
+      ["audio.delete"]
+    );
+
+    const first = await audit("?limit=2");
+    assert.equal(first.entries.length, 2);
+    assert.ok(first.nextBefore);
+    const rest = await audit(`?limit=2&before=${first.nextBefore}`);
+    assert.equal(rest.entries.length, 1);
+    assert.equal(rest.nextBefore, null);
+  });
+
+  it("is only readable by owners", async () => {
+    const res = await call(
+      "GET",
+      "/api/audit",
+      undefined,
+      authHeader("editor")
+    );
+    assert.equal(res.status, 403);
+    assert.equal((await call("GET", "/api/audit", undefined, {})).status, 401);
+  });
+});
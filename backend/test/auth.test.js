@@ -0,0 +1,56 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { startServer } from "./helpers.js";
+
+describe("POST /api/auth/login", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  const login = (body) =>
+    fetch(`${server.base}/api/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("returns an HS512 token for the right credentials", async () => {
+    const res = await login({ username: "admin", password: "correct horse" });
+    assert.equal(res.status, 200);
+    const { token } = await res.json();
+    const claims = jwt.verify(token, process.env.JWT_SECRET, {
+      algorithms: ["HS512"],
+    });
+    assert.equal(claims.username, "admin");
+    assert.equal(claims.role, "owner");
+  });
+
+  it("requires both fields", async () => {
+    const res = await login({ username: "admin" });
+    assert.equal(res.status, 400);
+  });
+
+  it("rejects an unknown user and a wrong password the same way", async () => {
+    const wrongUser = await login({ username: "eve", password: "x" });
+    const wrongPass = await login({ username: "admin", password: "x" });
+    assert.equal(wrongUser.status, 401);
+    assert.equal(wrongPass.status, 401);
+    assert.deepEqual(await wrongUser.json(), await wrongPass.json());
+  });
+
+  it("protected routes refuse missing and forged tokens", async () => {
+    const none = await fetch(`${server.base}/audio/files`);
+    assert.equal(none.status, 401);
+
+    const forged = jwt.sign({ username: "admin" }, "not-the-secret", {
+      algorithm: "HS512",
+    });
+    const res = await fetch(`${server.base}/audio/files`, {
+      headers: { Authorization: `Bearer ${forged}` },
+    });
+    assert.equal(res.status, 401);
+  });
+});
@@ -0,0 +1,120 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../storage/index.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+const validContent = () => ({
+  coverImage: "/images/background.jpg",
+  mobileImage: "/images/background-small.jpg",
+  title: "Kirss Tordil",
+  description: "Tere",
+  videoLink: { title: "Viimane episood", youtubeLink: "https://youtu.be/x" },
+  socials: { spotify: "s", youtube: "y", instagram: "i" },
+  footer: { brand: "brand" },
+});
+
+describe("/api/content", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const send = (method, body, headers = authHeader()) =>
+    fetch(`${server.base}/api/content`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  it("GET returns {} when nothing is stored", async () => {
+    const res = await fetch(`${server.base}/api/content`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), {});
+  });
+
+  it("POST replaces the content when it matches the schema", async () => {
+    const res = await send("POST", validContent());
+    assert.equal(res.status, 200);
+    assert.deepEqual(await db.get("siteContent"), validContent());
+  });
+
+  it("POST needs a token", async () => {
+    const res = await send("POST", validContent(), {});
+    assert.equal(res.status, 401);
+  });
+
+  it("POST rejects missing required fields and unknown keys", async () => {
+    const { footer, ...missing } = validContent();
+    const res = await send("POST", missing);
+    assert.equal(res.status, 400);
+    const body = await res.json();
+    assert.equal(body.message, "Invalid content format");
+    assert.ok(body.errors.some((e) => e.params.missingProperty === "footer"));
+
+    const extra = await send("POST", { ...validContent(), extra: 1 });
+    assert.equal(extra.status, 400);
+    assert.equal(await db.get("siteContent"), null);
+  });
+
+  it("PUT deep-merges nested objects and keeps siblings", async () => {
+    await db.set("siteContent", validContent());
+
+    const res = await send("PUT", {
+      title: "Uus",
+      socials: { spotify: "new-spotify" },
+    });
+    assert.equal(res.status, 200);
+
+    const stored = await db.get("siteContent");
+    assert.equal(stored.title, "Uus");
+    assert.deepEqual(stored.socials, {
+      spotify: "new-spotify",
+      youtube: "y",
+      instagram: "i",
+    });
+    assert.deepEqual(stored.videoLink, validContent().videoLink);
+    assert.deepEqual((await res.json()).updated, stored);
+  });
+
+  it("PUT validates the merged result and leaves the DB alone", async () => {
+    await db.set("siteContent", validContent());
+
+    const res = await send("PUT", { socials: { tiktok: "t" } });
+    assert.equal(res.status, 400);
+    assert.equal(
+      (await res.json()).message,
+      "Resulting data structure invalid"
+    );
+    assert.deepEqual(await db.get("siteContent"), validContent());
+  });
+
+  it("ignores publish metadata sent by the client", async () => {
+    const published = {
+      status: "published",
+      publishedAt: "2024-05-01T10:00:00.000Z",
+      publishedBy: "admin",
+    };
+    await db.set("siteContent", { ...validContent(), publish: published });
+    const forged = { status: "scheduled", publishAt: "2030-01-01T00:00:00Z" };
+
+    const replaced = await send("POST", { ...validContent(), publish: forged });
+    assert.equal(replaced.status, 200);
+    assert.deepEqual((await db.get("siteContent")).publish, published);
+
+    const merged = await send("PUT", { title: "Uus", publish: forged });
+    assert.equal(merged.status, 200);
+    const stored = await db.get("siteContent");
+    assert.equal(stored.title, "Uus");
+    assert.deepEqual(stored.publish, published);
+  });
+
+  it("PUT on empty content fails until the result is complete", async () => {
+    const partial = await send("PUT", { title: "Only a title" });
+    assert.equal(partial.status, 400);
+
+    const full = await send("PUT", validContent());
+    assert.equal(full.status, 200);
+  });
+});
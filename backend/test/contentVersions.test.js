@@ -0,0 +1,120 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../storage/index.js";
+import { diffContent } from "../services/contentVersions.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+const content = (title) => ({
+  coverImage: "/images/background.jpg",
+  mobileImage: "/images/background-small.jpg",
+  title,
+  description: "Tere",
+  videoLink: { title: "Viimane episood", youtubeLink: "https://youtu.be/x" },
+  socials: { spotify: "s", youtube: "y", instagram: "i" },
+  footer: { brand: "brand" },
+});
+
+describe("content versions", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const call = (method, path, body, headers = authHeader()) =>
+    fetch(`${server.base}/api/content${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it("snapshots the previous content with its author on every write", async () => {
+    await call(
+      "POST",
+      "",
+      content("Esimene"),
+      authHeader("owner", "env", "admin")
+    );
+    await call(
+      "PUT",
+      "",
+      { title: "Teine" },
+      authHeader("editor", "u1", "toimetaja")
+    );
+
+    const res = await call("GET", "/versions");
+    assert.equal(res.status, 200);
+    const versions = await res.json();
+    assert.equal(versions.length, 1);
+    assert.equal(versions[0].reason, "merge");
+    assert.deepEqual(versions[0].savedBy, { id: "env", username: "admin" });
+    assert.deepEqual(versions[0].replacedBy, {
+      id: "u1",
+      username: "toimetaja",
+    });
+    assert.ok(versions[0].savedAt);
+    // summaries leave the content out
+    assert.equal(versions[0].content, undefined);
+
+    const version = await (
+      await call("GET", `/versions/${versions[0].id}`)
+    ).json();
+    assert.equal(version.content.title, "Esimene");
+    assert.deepEqual(version.changes, [
+      { path: "title", from: "Teine", to: "Esimene" },
+    ]);
+  });
+
+  it("restores a version and keeps the replaced content as a new version", async () => {
+    await call("POST", "", content("Hea"));
+    await call("POST", "", content("Katki"));
+    const [good] = await (await call("GET", "/versions")).json();
+
+    const res = await call("POST", `/versions/${good.id}/restore`);
+    assert.equal(res.status, 200);
+    assert.equal((await db.get("siteContent")).title, "Hea");
+
+    const versions = await (await call("GET", "/versions")).json();
+    assert.equal(versions.length, 2);
+    const restored = versions.find((v) => v.reason === "restore");
+    const bad = await (await call("GET", `/versions/${restored.id}`)).json();
+    assert.equal(bad.content.title, "Katki");
+  });
+
+  it("rejects versions that no longer match the schema", async () => {
+    const id = await db.push("siteContentVersions", {
+      content: { title: "vana kuju" },
+      reason: "replace",
+    });
+    const res = await call("POST", `/versions/${id}/restore`);
+    assert.equal(res.status, 400);
+  });
+
+  it("is for editors and owners only", async () => {
+    const res = await call(
+      "GET",
+      "/versions",
+      undefined,
+      authHeader("listener")
+    );
+    assert.equal(res.status, 403);
+    assert.equal((await call("GET", "/versions/nope")).status, 404);
+  });
+});
+
+describe("diffContent", () => {
+  it("lists changed, added and removed fields by path", () => {
+    assert.deepEqual(
+      diffContent(
+        { title: "a", socials: { spotify: "s", youtube: "y" } },
+        { title: "a", socials: { spotify: "S" }, footer: { brand: "b" } }
+      ),
+      [
+        { path: "footer.brand", from: null, to: "b" },
+        { path: "socials.spotify", from: "s", to: "S" },
+        { path: "socials.youtube", from: "y", to: null },
+      ]
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../storage/index.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const episode = (title, daysAgo, extra = {}) => ({
+  title,
+  description: "Kirjeldus",
+  publishedAt: new Date(Date.now() - daysAgo * DAY).toISOString(),
+  youtubeLink: "https://youtu.be/abc",
+  spotifyLink: "https://open.spotify.com/episode/x",
+  tags: ["intervjuu"],
+  ...extra,
+});
+
+describe("/api/episodes", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const call = (method, path, body, headers = authHeader()) =>
+    fetch(`${server.base}/api/episodes${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it("creates episodes and lists published ones newest first", async () => {
+    const created = await call("POST", "", episode("Esimene osa", 14));
+    assert.equal(created.status, 201);
+    const { id } = await created.json();
+    assert.ok(id);
+
+    await call("POST", "", episode("Teine osa", 7));
+    await call("POST", "", episode("Tulevane osa", -3));
+
+    const res = await fetch(`${server.base}/api/episodes`);
+    const list = await res.json();
+    assert.deepEqual(
+      list.map((e) => e.title),
+      ["Teine osa", "Esimene osa"]
+    );
+
+    const limited = await (
+      await fetch(`${server.base}/api/episodes?limit=1`)
+    ).json();
+    assert.equal(limited.length, 1);
+
+    // the editor sees future-dated episodes too
+    const all = await (await call("GET", "/all")).json();
+    assert.equal(all[0].title, "Tulevane osa");
+    assert.equal(all.length, 3);
+
+    const future = all[0].id;
+    assert.equal(
+      (await fetch(`${server.base}/api/episodes/${future}`)).status,
+      404
+    );
+  });
+
+  it("validates episodes", async () => {
+    const bad = [
+      { ...episode("x", 1), title: "" },
+      { ...episode("x", 1), publishedAt: "eile" },
+      { ...episode("x", 1), unknown: true },
+      { description: "no title" },
+    ];
+    for (const body of bad) {
+      assert.equal((await call("POST", "", body)).status, 400);
+    }
+  });
+
+  it("tidies tags", async () => {
+    const res = await call(
+      "POST",
+      "",
+      episode("Sildid", 1, { tags: [" muusika ", "muusika", "", "külaline"] })
+    );
+    assert.deepEqual((await res.json()).tags, ["muusika", "külaline"]);
+  });
+
+  it("updates and deletes episodes, leaving an audit trail", async () => {
+    const { id } = await (await call("POST", "", episode("Vana", 1))).json();
+
+    const updated = await call("PUT", `/${id}`, episode("Uus", 1));
+    assert.equal(updated.status, 200);
+    assert.equal((await db.get(`episodes/${id}`)).title, "Uus");
+
+    assert.equal((await call("DELETE", `/${id}`)).status, 200);
+    assert.equal(await db.get(`episodes/${id}`), null);
+    assert.equal((await call("PUT", `/${id}`, episode("x", 1))).status, 404);
+
+    const { entries } = await (
+      await fetch(`${server.base}/api/audit?action=episode.`, {
+        headers: authHeader(),
+      })
+    ).json();
+    assert.deepEqual(entries.map((e) => e.action).sort(), [
+      "episode.create",
+      "episode.delete",
+      "episode.update",
+    ]);
+  });
+
+  it("needs an editor to change episodes", async () => {
+    const res = await call("POST", "", episode("x", 1), authHeader("listener"));
+    assert.equal(res.status, 403);
+    assert.equal((await call("POST", "", episode("x", 1), {})).status, 401);
+  });
+});
@@ -0,0 +1,178 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db, files } from "../storage/index.js";
+import {
+  authHeader,
+  mp3Buffer,
+  resetState,
+  startServer,
+  wavBuffer,
+} from "./helpers.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("podcast feed", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(async () => {
+    await resetState();
+    await db.set("siteContent", {
+      coverImage: "/images/background.jpg",
+      mobileImage: "/images/background-small.jpg",
+      title: "Kirss & Tordil",
+      description: "Saade <kõigest>",
+      videoLink: { title: "t", youtubeLink: "https://youtu.be/x" },
+      socials: { spotify: "s", youtube: "y", instagram: "i" },
+      footer: { brand: "Kirss Tordil" },
+    });
+  });
+
+  const createEpisode = async (title, daysAgo, extra = {}) => {
+    const res = await fetch(`${server.base}/api/episodes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeader() },
+      body: JSON.stringify({
+        title,
+        publishedAt: new Date(Date.now() - daysAgo * DAY).toISOString(),
+        ...extra,
+      }),
+    });
+    return (await res.json()).id;
+  };
+
+  const uploadAudio = (id, buffer, name = "episode.mp3") => {
+    const form = new FormData();
+    form.append("audio", new Blob([buffer], { type: "audio/mpeg" }), name);
+    return fetch(`${server.base}/api/episodes/${id}/audio`, {
+      method: "POST",
+      headers: authHeader(),
+      body: form,
+    });
+  };
+
+  const feed = async () => {
+    const res = await fetch(`${server.base}/feed.xml`);
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type"), /application\/rss\+xml/);
+    return res.text();
+  };
+
+  it("stores MP3 episode audio with size and duration", async () => {
+    const id = await createEpisode("Esimene", 1);
+    const res = await uploadAudio(id, mp3Buffer(100));
+    assert.equal(res.status, 200);
+    const { audio } = await res.json();
+    assert.equal(audio.mimeType, "audio/mpeg");
+    assert.equal(audio.size, 41700);
+    assert.equal(audio.duration, 3);
+    assert.ok(await files.exists(audio.path));
+
+    // editing the episode keeps the audio
+    await fetch(`${server.base}/api/episodes/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...authHeader() },
+      body: JSON.stringify({ title: "Muudetud", publishedAt: "2024-01-01" }),
+    });
+    assert.equal((await db.get(`episodes/${id}/audio`)).path, audio.path);
+
+    // replacing it removes the old file
+    const again = await (await uploadAudio(id, mp3Buffer(50))).json();
+    assert.equal(await files.exists(audio.path), false);
+    assert.ok(await files.exists(again.audio.path));
+  });
+
+  it("only takes MP3 or M4A", async () => {
+    const id = await createEpisode("Wav", 1);
+    const res = await uploadAudio(id, wavBuffer(1), "episode.wav");
+    assert.equal(res.status, 415);
+    assert.equal((await res.json()).code, "UNSUPPORTED_FORMAT");
+  });
+
+  it("lists published episodes with audio as RSS items", async () => {
+    const withAudio = await createEpisode("Osa & 1", 2, {
+      description: "Kirjeldus",
+      showNotes: "Märkmed ]]> lõpp",
+      explicit: true,
+      episodeNumber: 1,
+      tags: ["intervjuu"],
+    });
+    await uploadAudio(withAudio, mp3Buffer(100));
+    await createEpisode("Ilma helita", 1);
+    const future = await createEpisode("Tulevik", -2);
+    await uploadAudio(future, mp3Buffer(10));
+
+    const xml = await feed();
+    assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    assert.match(
+      xml,
+      /xmlns:itunes="http:\/\/www.itunes.com\/dtds\/podcast-1.0.dtd"/
+    );
+    assert.match(xml, /<title>Kirss &amp; Tordil<\/title>/);
+    assert.match(
+      xml,
+      /<description><!\[CDATA\[Saade <kõigest>\]\]><\/description>/
+    );
+    assert.match(xml, /<itunes:author>Kirss Tordil<\/itunes:author>/);
+    assert.match(xml, /<itunes:category text="Society &amp; Culture"\/>/);
+    assert.match(
+      xml,
+      /<itunes:image href="http:\/\/127.0.0.1:\d+\/images\/background.jpg"\/>/
+    );
+
+    const items = xml.match(/<item>[\s\S]*?<\/item>/g);
+    assert.equal(items.length, 1);
+    const [item] = items;
+    assert.match(item, /<title>Osa &amp; 1<\/title>/);
+    assert.match(
+      item,
+      new RegExp(`<guid isPermaLink="false">${withAudio}</guid>`)
+    );
+    assert.match(
+      item,
+      /<enclosure url="memory:\/\/episodes\/[^"]+\.mp3" length="41700" type="audio\/mpeg"\/>/
+    );
+    assert.match(item, /<itunes:duration>3<\/itunes:duration>/);
+    assert.match(item, /<itunes:explicit>true<\/itunes:explicit>/);
+    assert.match(item, /<itunes:episode>1<\/itunes:episode>/);
+    assert.match(item, /<category>intervjuu<\/category>/);
+    assert.match(item, /Märkmed \]\]\]\]><!\[CDATA\[> lõpp/);
+    assert.match(
+      item,
+      /<pubDate>\w{3}, \d{2} \w{3} \d{4} [\d:]{8} GMT<\/pubDate>/
+    );
+  });
+
+  it("reports what Apple would reject", async () => {
+    const id = await createEpisode("Ilma helita", 1);
+
+    const check = async () => {
+      const res = await fetch(`${server.base}/api/feed/check`, {
+        headers: authHeader("listener"),
+      });
+      assert.equal(res.status, 200);
+      return res.json();
+    };
+
+    let { feedUrl, problems } = await check();
+    assert.match(feedUrl, /\/feed.xml$/);
+    const errors = problems.filter((p) => p.level === "error");
+    assert.deepEqual(
+      errors.map((p) => p.message),
+      ["No published episode has audio yet."]
+    );
+    assert.ok(problems.some((p) => p.message.includes("Ilma helita")));
+
+    await uploadAudio(id, mp3Buffer(20));
+    ({ problems } = await check());
+    // the memory driver's memory:// URLs are the only thing left
+    assert.deepEqual(
+      problems.filter((p) => p.level === "error").map((p) => p.message),
+      ['"Ilma helita": the audio URL must be http(s).']
+    );
+
+    assert.equal((await fetch(`${server.base}/api/feed/check`)).status, 401);
+  });
+});
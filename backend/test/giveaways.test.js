@@ -0,0 +1,158 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../storage/index.js";
+import { encryptPhone } from "../services/phoneCrypto.js";
+import { drawWinners } from "../services/giveaways.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+describe("/api/giveaways", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const api = async (path, { method = "GET", body, headers } = {}) => {
+    const res = await fetch(`${server.base}/api/giveaways${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(headers || authHeader()),
+      },
+      body: body && JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const message = (id, uploadedAt, phone, extra = {}) =>
+    db.set(`records/${id}`, {
+      fileName: `${id}.wav`,
+      title: id,
+      uploadedAt,
+      ...(phone ? { phoneEncrypted: encryptPhone(phone) } : {}),
+      ...extra,
+    });
+
+  const campaign = {
+    name: "Suvekingitus",
+    startsAt: "2024-06-01T00:00:00.000Z",
+    endsAt: "2024-06-30T23:59:59.000Z",
+    winnersCount: 2,
+  };
+
+  it("draws the same winners from the same seed", () => {
+    const entries = ["a", "b", "c", "d", "e", "f"];
+    const first = drawWinners(entries, "seed-1", 3);
+    assert.equal(new Set(first).size, 3);
+    assert.deepEqual(drawWinners(entries, "seed-1", 3), first);
+    assert.equal(drawWinners(entries, "seed-1", 10).length, 6);
+  });
+
+  it("lists one entry per phone number inside the window", async () => {
+    await message("r1", "2024-06-02T10:00:00Z", "+372 5551 2345");
+    await message("r2", "2024-06-03T10:00:00Z", "55512345"); // same number
+    await message("r3", "2024-06-04T10:00:00Z", "5000000");
+    await message("r4", "2024-06-05T10:00:00Z", null); // no phone
+    await message("r5", "2024-07-05T10:00:00Z", "5111111"); // too late
+    await message("r6", "2024-06-06T10:00:00Z", "5222222", {
+      quarantined: true,
+    });
+    await message("r7", "2024-06-07T10:00:00Z", "5333333", {
+      status: "rejected",
+    });
+
+    const { body: created } = await api("", { method: "POST", body: campaign });
+    const { body: entries } = await api(`/${created.id}/entries`);
+    assert.deepEqual(
+      entries.map((e) => e.recordId),
+      ["r1", "r3"]
+    );
+    // no phone numbers in the response
+    assert.ok(!JSON.stringify(entries).includes("5551"));
+  });
+
+  it("draws once, stores the winners and can be verified", async () => {
+    for (let i = 0; i < 5; i++) {
+      await message(`r${i}`, `2024-06-1${i}T10:00:00Z`, `500000${i}`);
+    }
+    const { body: created } = await api("", { method: "POST", body: campaign });
+
+    const { status, body } = await api(`/${created.id}/draw`, {
+      method: "POST",
+      body: { seed: "announced-on-air" },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.draw.seed, "announced-on-air");
+    assert.equal(body.draw.eligibleCount, 5);
+    assert.equal(body.draw.winners.length, 2);
+    assert.equal(body.draw.verified, true);
+    assert.equal(body.draw.drawnBy, "admin");
+    assert.deepEqual(
+      body.draw.winners.map((w) => w.recordId),
+      drawWinners(["r0", "r1", "r2", "r3", "r4"], "announced-on-air", 2)
+    );
+
+    const again = await api(`/${created.id}/draw`, { method: "POST" });
+    assert.equal(again.status, 409);
+
+    const { body: history } = await api("");
+    assert.equal(history.length, 1);
+    assert.deepEqual(history[0].draw.winners, body.draw.winners);
+
+    const audit = Object.values(await db.get("auditLog")).map((e) => e.action);
+    assert.deepEqual(audit, ["giveaway.create", "giveaway.draw"]);
+  });
+
+  it("saves only one of two draws sent at once", async () => {
+    for (let i = 0; i < 5; i++) {
+      await message(`r${i}`, `2024-06-1${i}T10:00:00Z`, `500000${i}`);
+    }
+    const { body: created } = await api("", { method: "POST", body: campaign });
+
+    const results = await Promise.all(
+      ["first", "second"].map((seed) =>
+        api(`/${created.id}/draw`, { method: "POST", body: { seed } })
+      )
+    );
+    assert.deepEqual(results.map((r) => r.status).sort(), [200, 409]);
+    const won = results.find((r) => r.status === 200).body;
+    const { body: history } = await api("");
+    assert.equal(history[0].draw.seed, won.draw.seed);
+  });
+
+  it("won't draw while the window is open", async () => {
+    const { body: created } = await api("", {
+      method: "POST",
+      body: {
+        ...campaign,
+        endsAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      },
+    });
+    assert.equal(
+      (await api(`/${created.id}/draw`, { method: "POST" })).status,
+      409
+    );
+  });
+
+  it("validates campaigns and is owner only", async () => {
+    assert.equal(
+      (await api("", { method: "POST", body: { name: "x" } })).status,
+      400
+    );
+    assert.equal(
+      (
+        await api("", {
+          method: "POST",
+          body: { ...campaign, endsAt: "2024-05-01T00:00:00Z" },
+        })
+      ).status,
+      400
+    );
+    assert.equal((await api("/nope/draw", { method: "POST" })).status, 404);
+    assert.equal(
+      (await api("", { headers: authHeader("editor") })).status,
+      403
+    );
+  });
+});
@@ -0,0 +1,57 @@
+// test/helpers.js
+import { once } from "events";
+import jwt from "jsonwebtoken";
+import app from "../app.js";
+import { reset } from "../storage/index.js";
+import { defaultStore } from "../middleware/rateLimit.js";
+
+/** Start the app on a random port; resolves with { base, close }. */
+export async function startServer() {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return {
+    base: `http://127.0.0.1:${server.address().port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+/** Empty the in-memory DB, bucket and rate-limit counters. */
+export async function resetState() {
+  await reset();
+  await defaultStore.reset();
+}
+
+export function authHeader(role = "owner", sub = "env", username = "admin") {
+  const token = jwt.sign({ sub, username, role }, process.env.JWT_SECRET, {
+    algorithm: "HS512",
+    expiresIn: "1h",
+  });
+  return { Authorization: `Bearer ${token}` };
+}
+
+/** Silent 16-bit mono PCM WAV of the given length. */
+export function wavBuffer(seconds, sampleRate = 8000) {
+  const dataBytes = Math.round(seconds * sampleRate) * 2;
+  const buf = Buffer.alloc(44 + dataBytes);
+  buf.write("RIFF", 0);
+  buf.writeUInt32LE(36 + dataBytes, 4);
+  buf.write("WAVE", 8);
+  buf.write("fmt ", 12);
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(1, 20); // PCM
+  buf.writeUInt16LE(1, 22); // mono
+  buf.writeUInt32LE(sampleRate, 24);
+  buf.writeUInt32LE(sampleRate * 2, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36);
+  buf.writeUInt32LE(dataBytes, 40);
+  return buf;
+}
+
+/** Silent MPEG-1 Layer III, 128 kbps / 44.1 kHz, ~26 ms per frame. */
+export function mp3Buffer(frames = 100) {
+  const frame = Buffer.alloc(417);
+  frame.writeUInt32BE(0xfffb9064, 0);
+  return Buffer.concat(Array(frames).fill(frame));
+}
@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizePhone } from "../services/phoneNumber.js";
+
+describe("normalizePhone", () => {
+  it("normalizes to E.164, Estonian by default", () => {
+    for (const typed of [
+      "5551 2345",
+      "+372 5551 2345",
+      "00372-5551-2345",
+      "372 5551 2345",
+      "(+372) 5551.2345",
+    ]) {
+      assert.equal(normalizePhone(typed), "+37255512345", typed);
+    }
+    assert.equal(normalizePhone("612 3456"), "+3726123456");
+    assert.equal(normalizePhone("+358 40 123 4567"), "+358401234567");
+    assert.equal(normalizePhone("0044 20 7946 0958"), "+442079460958");
+
+    for (const junk of [
+      "",
+      "helista",
+      "555-CALL",
+      "123",
+      "0551 2345", // no Estonian number starts with 0
+      "+372 123", // too short for Estonia
+      "+372 5551 23456", // too long for Estonia
+      "+0 123 456 789",
+      "+1 234 567 890 123 456", // over 15 digits
+      "5551 2345 ext 2",
+    ]) {
+      assert.equal(normalizePhone(junk), null, junk);
+    }
+  });
+});
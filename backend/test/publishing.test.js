@@ -0,0 +1,135 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db } from "../storage/index.js";
+import { publishDueDraft } from "../services/publishing.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+const content = (title) => ({
+  coverImage: "/images/background.jpg",
+  mobileImage: "/images/background-small.jpg",
+  title,
+  description: "Tere",
+  videoLink: { title: "Viimane episood", youtubeLink: "https://youtu.be/x" },
+  socials: { spotify: "s", youtube: "y", instagram: "i" },
+  footer: { brand: "brand" },
+});
+
+describe("draft and scheduled publishing", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(async () => {
+    await resetState();
+    await db.set("siteContent", content("Live"));
+  });
+
+  const call = (method, path, body, headers = authHeader()) =>
+    fetch(`${server.base}/api/content${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const publicTitle = async () =>
+    (await (await fetch(`${server.base}/api/content`)).json()).title;
+
+  it("keeps drafts off the live site until published", async () => {
+    const saved = await call("PUT", "/draft", content("Mustand"));
+    assert.equal(saved.status, 200);
+    assert.equal((await saved.json()).publish.status, "draft");
+    assert.equal(await publicTitle(), "Live");
+
+    // any admin can load it for the preview page
+    const draft = await call(
+      "GET",
+      "/draft",
+      undefined,
+      authHeader("listener")
+    );
+    assert.equal((await draft.json()).title, "Mustand");
+
+    const res = await call("POST", "/draft/publish");
+    assert.equal(res.status, 200);
+    const live = await db.get("siteContent");
+    assert.equal(live.title, "Mustand");
+    assert.equal(live.publish.status, "published");
+    assert.equal(live.publish.publishedBy, "admin");
+    assert.equal(await db.get("siteContentDraft"), null);
+
+    // the replaced live content is in the history
+    const [version] = await (await call("GET", "/versions")).json();
+    assert.equal(version.reason, "publish");
+  });
+
+  it("publishes a scheduled draft once its time has passed", async () => {
+    await call("PUT", "/draft", content("Uus osa"));
+    const publishAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const res = await call("PUT", "/draft/schedule", { publishAt });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).publish.status, "scheduled");
+
+    // editing keeps the schedule
+    const edited = await (
+      await call("PUT", "/draft", content("Uus osa 2"))
+    ).json();
+    assert.equal(edited.publish.publishAt, publishAt);
+
+    assert.equal(await publishDueDraft(), false);
+    assert.equal(await publicTitle(), "Live");
+
+    assert.equal(await publishDueDraft(Date.now() + 2 * 60 * 60 * 1000), true);
+    assert.equal(await publicTitle(), "Uus osa 2");
+
+    const { entries } = await (
+      await fetch(`${server.base}/api/audit?action=content.publish`, {
+        headers: authHeader(),
+      })
+    ).json();
+    assert.equal(entries[0].actor.username, "scheduler");
+    assert.equal(entries[0].details.scheduledBy, "admin");
+  });
+
+  it("publishes an overdue draft on the next public read", async () => {
+    await call("PUT", "/draft", content("Hilinenud"));
+    await db.update("siteContentDraft/publish", {
+      status: "scheduled",
+      publishAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    assert.equal(await publicTitle(), "Hilinenud");
+  });
+
+  it("validates drafts and schedule times", async () => {
+    const { footer, ...missing } = content("x");
+    assert.equal((await call("PUT", "/draft", missing)).status, 400);
+
+    assert.equal(
+      (await call("PUT", "/draft/schedule", { publishAt: "2020-01-01" }))
+        .status,
+      400
+    );
+    assert.equal((await call("POST", "/draft/publish")).status, 404);
+
+    const listener = await call(
+      "PUT",
+      "/draft",
+      content("x"),
+      authHeader("listener")
+    );
+    assert.equal(listener.status, 403);
+  });
+
+  it("unschedules and discards drafts", async () => {
+    await call("PUT", "/draft", content("Mustand"));
+    await call("PUT", "/draft/schedule", {
+      publishAt: new Date(Date.now() + 60000).toISOString(),
+    });
+    const unscheduled = await (await call("DELETE", "/draft/schedule")).json();
+    assert.equal(unscheduled.publish.status, "draft");
+    assert.equal(unscheduled.publish.publishAt, undefined);
+
+    assert.equal((await call("DELETE", "/draft")).status, 200);
+    assert.equal(await db.get("siteContentDraft"), null);
+  });
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db, files } from "../storage/index.js";
+import { runRetention } from "../services/retention.js";
+import { decryptPhone } from "../services/phoneCrypto.js";
+import { resetState } from "./helpers.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2025-06-01T00:00:00Z");
+
+describe("retention", () => {
+  beforeEach(resetState);
+
+  const seed = async (id, ageDays, extra = {}) => {
+    const fileName = `${id}.wav`;
+    await files.save(`audio/${fileName}`, Buffer.from("RIFF"), {
+      contentType: "audio/wav",
+    });
+    await db.set(`records/${id}`, {
+      fileName,
+      uploadedAt: new Date(NOW - ageDays * DAY_MS).toISOString(),
+      ...extra,
+    });
+  };
+
+  it("wipes old phone numbers and deletes old recordings", async () => {
+    await seed("fresh", 5, { phoneEncrypted: "v1:a:b:c" });
+    await seed("older", 40, { phoneEncrypted: "v1:a:b:c" });
+    await seed("oldest", 400, { phoneEncrypted: "v1:a:b:c" });
+
+    const summary = await runRetention(NOW, {
+      phoneDays: 30,
+      recordingDays: 365,
+    });
+    assert.deepEqual(summary, {
+      phonesPurged: 1,
+      recordingsDeleted: 1,
+      phonesEncrypted: 0,
+    });
+
+    assert.equal((await db.get("records/fresh")).phoneEncrypted, "v1:a:b:c");
+    const older = await db.get("records/older");
+    assert.equal(older.phoneEncrypted, undefined);
+    assert.equal(older.phonePurgedAt, new Date(NOW).toISOString());
+    assert.equal(await db.get("records/oldest"), null);
+    assert.equal(await files.exists("audio/oldest.wav"), false);
+
+    const [entry] = Object.values(await db.get("auditLog"));
+    assert.equal(entry.action, "privacy.retention");
+    assert.equal(entry.actor.username, "retention");
+  });
+
+  it("keeps everything without a policy but encrypts plain phone numbers", async () => {
+    await seed("legacy", 1000, { phone: "5551234" });
+
+    const summary = await runRetention(NOW, {
+      phoneDays: null,
+      recordingDays: null,
+    });
+    assert.equal(summary.phonesEncrypted, 1);
+
+    const record = await db.get("records/legacy");
+    assert.equal(record.phone, undefined);
+    assert.equal(decryptPhone(record.phoneEncrypted), "5551234");
+    assert.equal(decryptPhone(record.phoneE164Encrypted), "+3725551234");
+    assert.ok(await files.exists("audio/legacy.wav"));
+  });
+
+  it("does nothing (and logs nothing) when nothing is due", async () => {
+    await seed("fresh", 1, { phoneEncrypted: "v1:a:b:c" });
+    await runRetention(NOW, { phoneDays: 30, recordingDays: 30 });
+    assert.equal(await db.get("auditLog"), null);
+  });
+});
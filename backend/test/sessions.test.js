@@ -0,0 +1,180 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { db } from "../storage/index.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+const SESSION_HEADERS = { "X-Admin-Session": "1" };
+
+describe("refresh-token sessions", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const post = (path, body, cookie, extraHeaders = SESSION_HEADERS) =>
+    fetch(`${server.base}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...extraHeaders,
+        ...(cookie ? { Cookie: `admin_refresh=${cookie}` } : {}),
+      },
+      body: JSON.stringify(body || {}),
+    });
+
+  const refreshCookie = (res) => {
+    const header = res.headers
+      .getSetCookie()
+      .find((c) => c.startsWith("admin_refresh="));
+    return header ? header.split(";")[0].split("=")[1] : null;
+  };
+
+  const login = async () => {
+    const res = await post("/api/auth/login", {
+      username: "admin",
+      password: "correct horse",
+    });
+    assert.equal(res.status, 200);
+    return { token: (await res.json()).token, cookie: refreshCookie(res) };
+  };
+
+  it("sets an httpOnly refresh cookie scoped to /api/auth", async () => {
+    const res = await post("/api/auth/login", {
+      username: "admin",
+      password: "correct horse",
+    });
+    const header = res.headers
+      .getSetCookie()
+      .find((c) => c.startsWith("admin_refresh="));
+    assert.match(header, /HttpOnly/);
+    assert.match(header, /Secure/);
+    assert.match(header, /Path=\/api\/auth/);
+    assert.match(header, /SameSite=Strict/);
+
+    const claims = jwt.decode((await res.json()).token);
+    assert.equal(claims.exp - claims.iat, 15 * 60);
+  });
+
+  it("trades the cookie for a new token and rotates it", async () => {
+    const { cookie } = await login();
+
+    const res = await post("/api/auth/refresh", {}, cookie);
+    assert.equal(res.status, 200);
+    const { token } = await res.json();
+    assert.equal(jwt.decode(token).role, "owner");
+
+    const rotated = refreshCookie(res);
+    assert.ok(rotated);
+    assert.notEqual(rotated, cookie);
+    assert.equal((await post("/api/auth/refresh", {}, rotated)).status, 200);
+  });
+
+  it("refuses a missing or unknown cookie", async () => {
+    assert.equal((await post("/api/auth/refresh")).status, 401);
+    assert.equal((await post("/api/auth/refresh", {}, "nope")).status, 401);
+  });
+
+  it("revokes the family when a rotated token is replayed", async () => {
+    const { cookie } = await login();
+    const first = await post("/api/auth/refresh", {}, cookie);
+    const current = refreshCookie(first);
+
+    // move the rotation out of the parallel-tab grace window
+    const tokens = await db.get("refreshTokens");
+    for (const [hash, t] of Object.entries(tokens)) {
+      if (t.revokedAt) {
+        await db.update(`refreshTokens/${hash}`, {
+          revokedAt: new Date(Date.now() - 60 * 1000).toISOString(),
+        });
+      }
+    }
+
+    assert.equal((await post("/api/auth/refresh", {}, cookie)).status, 401);
+    // the legitimate holder is signed out too
+    assert.equal((await post("/api/auth/refresh", {}, current)).status, 401);
+  });
+
+  it("tolerates two tabs refreshing at the same moment", async () => {
+    const { cookie } = await login();
+    const [a, b] = await Promise.all([
+      post("/api/auth/refresh", {}, cookie),
+      post("/api/auth/refresh", {}, cookie),
+    ]);
+    assert.equal(a.status, 200);
+    assert.equal(b.status, 200);
+  });
+
+  it("logout revokes the session server-side", async () => {
+    const { cookie } = await login();
+    const res = await post("/api/auth/logout", {}, cookie);
+    assert.equal(res.status, 200);
+    assert.equal(refreshCookie(res), "");
+    assert.equal((await post("/api/auth/refresh", {}, cookie)).status, 401);
+  });
+
+  it("needs the session header to refresh or log out", async () => {
+    const { cookie } = await login();
+    for (const path of ["/api/auth/refresh", "/api/auth/logout"]) {
+      assert.equal((await post(path, {}, cookie, {})).status, 403, path);
+    }
+    // the session is untouched
+    assert.equal((await post("/api/auth/refresh", {}, cookie)).status, 200);
+  });
+
+  it("applies role changes and removals on refresh", async () => {
+    const invited = await fetch(`${server.base}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeader() },
+      body: JSON.stringify({ username: "producer", role: "listener" }),
+    });
+    const { user, inviteToken } = await invited.json();
+    const accepted = await post("/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "a long enough password",
+    });
+    const cookie = refreshCookie(accepted);
+
+    await db.update(`adminUsers/${user.id}`, { role: "editor" });
+    const refreshed = await post("/api/auth/refresh", {}, cookie);
+    assert.equal(jwt.decode((await refreshed.json()).token).role, "editor");
+
+    await fetch(`${server.base}/api/users/${user.id}`, {
+      method: "DELETE",
+      headers: authHeader(),
+    });
+    const gone = await post("/api/auth/refresh", {}, refreshCookie(refreshed));
+    assert.equal(gone.status, 401);
+  });
+
+  it("signs a user out when the owner changes their role", async () => {
+    const invited = await fetch(`${server.base}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeader() },
+      body: JSON.stringify({ username: "producer", role: "editor" }),
+    });
+    const { user, inviteToken } = await invited.json();
+    const accepted = await post("/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "a long enough password",
+    });
+    const cookie = refreshCookie(accepted);
+
+    const changeRole = (role) =>
+      fetch(`${server.base}/api/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...authHeader() },
+        body: JSON.stringify({ role }),
+      });
+    // the same role again changes nothing
+    assert.equal((await changeRole("editor")).status, 200);
+    const kept = await post("/api/auth/refresh", {}, cookie);
+    assert.equal(kept.status, 200);
+
+    assert.equal((await changeRole("listener")).status, 200);
+    const demoted = await post("/api/auth/refresh", {}, refreshCookie(kept));
+    assert.equal(demoted.status, 401);
+  });
+});
@@ -0,0 +1,25 @@
+// test/setup.js
+// Loaded with `node --import` before any app module, so these win over .env
+// (dotenv never overrides variables that are already set).
+import bcrypt from "bcryptjs";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+
+process.env.NODE_ENV = "test";
+process.env.STORAGE_DRIVER = "memory";
+process.env.JWT_SECRET = "test-secret";
+process.env.ADMIN_USERNAME = "admin";
+process.env.ADMIN_PASSWORD_HASH = bcrypt.hashSync("correct horse", 4);
+process.env.UPLOAD_CHALLENGE = "off";
+process.env.SERVER_ANONYMIZE = "false";
+process.env.SENTRY_DSN = "";
+
+// each test file gets its own chunked-upload dir, so sweeping in one
+// can't touch another's sessions
+process.env.UPLOAD_SESSION_DIR = mkdtempSync(
+  path.join(os.tmpdir(), "upload-sessions-test-")
+);
+process.on("exit", () =>
+  rmSync(process.env.UPLOAD_SESSION_DIR, { recursive: true, force: true })
+);
@@ -0,0 +1,232 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { codeForStep, currentStep } from "../services/totp.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+describe("two-factor login", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const post = (path, body, headers = {}) =>
+    fetch(`${server.base}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body || {}),
+    });
+
+  const login = (password = "correct horse") =>
+    post("/api/auth/login", { username: "admin", password });
+
+  // enroll the env owner; resolves with { secret, recoveryCodes }
+  const enroll = async () => {
+    const setup = await post("/api/auth/2fa/setup", {}, authHeader());
+    const { secret, qrCode, otpauthUrl } = await setup.json();
+    assert.match(qrCode, /^data:image\/png;base64,/);
+    assert.match(otpauthUrl, /^otpauth:\/\/totp\//);
+
+    const enable = await post(
+      "/api/auth/2fa/enable",
+      { code: codeForStep(secret, currentStep()) },
+      authHeader()
+    );
+    assert.equal(enable.status, 200);
+    const { recoveryCodes } = await enable.json();
+    return { secret, recoveryCodes };
+  };
+
+  it("logs in with the password alone until 2FA is enabled", async () => {
+    const res = await login();
+    assert.ok((await res.json()).token);
+  });
+
+  it("enrollment needs a valid first code", async () => {
+    await post("/api/auth/2fa/setup", {}, authHeader());
+    const res = await post(
+      "/api/auth/2fa/enable",
+      { code: "000000" },
+      authHeader()
+    );
+    assert.equal(res.status, 400);
+    const status = await fetch(`${server.base}/api/auth/2fa`, {
+      headers: authHeader(),
+    });
+    assert.equal((await status.json()).enabled, false);
+  });
+
+  it("asks for a code after the password and only then issues a token", async () => {
+    const { secret, recoveryCodes } = await enroll();
+    assert.equal(recoveryCodes.length, 10);
+
+    const first = await (await login()).json();
+    assert.equal(first.mfaRequired, true);
+    assert.equal(first.token, undefined);
+
+    // the intermediate token is not an access token
+    const sneaky = await fetch(`${server.base}/audio/files`, {
+      headers: { Authorization: `Bearer ${first.mfaToken}` },
+    });
+    assert.equal(sneaky.status, 401);
+
+    const wrong = await post("/api/auth/login/verify", {
+      mfaToken: first.mfaToken,
+      code: "123456",
+    });
+    assert.equal(wrong.status, 401);
+
+    const code = codeForStep(secret, currentStep() + 1);
+    const ok = await post("/api/auth/login/verify", {
+      mfaToken: first.mfaToken,
+      code,
+    });
+    assert.equal(ok.status, 200);
+    assert.ok((await ok.json()).token);
+
+    // the same code can't be used twice
+    const again = await post("/api/auth/login/verify", {
+      mfaToken: first.mfaToken,
+      code,
+    });
+    assert.equal(again.status, 401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { recoveryCodes } = await enroll();
+    const { mfaToken } = await (await login()).json();
+
+    const used = await post("/api/auth/login/verify", {
+      mfaToken,
+      recoveryCode: recoveryCodes[0].toUpperCase(),
+    });
+    assert.equal(used.status, 200);
+
+    const reused = await post("/api/auth/login/verify", {
+      mfaToken,
+      recoveryCode: recoveryCodes[0],
+    });
+    assert.equal(reused.status, 401);
+
+    const status = await fetch(`${server.base}/api/auth/2fa`, {
+      headers: authHeader(),
+    });
+    assert.equal((await status.json()).recoveryCodesLeft, 9);
+  });
+
+  it("disabling needs a valid code", async () => {
+    const { secret } = await enroll();
+    const bad = await post(
+      "/api/auth/2fa/disable",
+      { code: "000000" },
+      authHeader()
+    );
+    assert.equal(bad.status, 400);
+
+    const ok = await post(
+      "/api/auth/2fa/disable",
+      { code: codeForStep(secret, currentStep() + 1) },
+      authHeader()
+    );
+    assert.equal(ok.status, 200);
+    assert.ok((await (await login()).json()).token);
+  });
+
+  describe("lockout", () => {
+    it("locks the account after repeated wrong passwords", async () => {
+      for (let i = 0; i < 5; i++) {
+        assert.equal((await login("wrong")).status, 401);
+      }
+      const locked = await login();
+      assert.equal(locked.status, 429);
+      assert.equal((await locked.json()).code, "LOCKED_OUT");
+      assert.ok(Number(locked.headers.get("retry-after")) > 0);
+    });
+
+    it("a successful login resets the count", async () => {
+      for (let i = 0; i < 4; i++) await login("wrong");
+      assert.equal((await login()).status, 200);
+      for (let i = 0; i < 4; i++) await login("wrong");
+      assert.equal((await login()).status, 200);
+    });
+
+    it("counts wrong 2FA codes too", async () => {
+      await enroll();
+      const { mfaToken } = await (await login()).json();
+      for (let i = 0; i < 5; i++) {
+        await post("/api/auth/login/verify", { mfaToken, code: "000000" });
+      }
+      const locked = await post("/api/auth/login/verify", {
+        mfaToken,
+        code: "000000",
+      });
+      assert.equal(locked.status, 429);
+    });
+
+    it("counts wrong codes when disabling or renewing recovery codes", async () => {
+      const { secret } = await enroll();
+      for (let i = 0; i < 3; i++) {
+        const res = await post(
+          "/api/auth/2fa/disable",
+          { code: "000000" },
+          authHeader()
+        );
+        assert.equal(res.status, 400);
+      }
+      for (let i = 0; i < 2; i++) {
+        await post(
+          "/api/auth/2fa/recovery-codes",
+          { recoveryCode: "nope-nope" },
+          authHeader()
+        );
+      }
+
+      // even the right code waits now, and so does the password login
+      const locked = await post(
+        "/api/auth/2fa/disable",
+        { code: codeForStep(secret, currentStep()) },
+        authHeader()
+      );
+      assert.equal(locked.status, 429);
+      assert.equal((await locked.json()).code, "LOCKED_OUT");
+      assert.equal((await login()).status, 429);
+    });
+
+    it("counts wrong codes when enabling", async () => {
+      const setup = await post("/api/auth/2fa/setup", {}, authHeader());
+      const { secret } = await setup.json();
+      for (let i = 0; i < 5; i++) {
+        const res = await post(
+          "/api/auth/2fa/enable",
+          { code: "000000" },
+          authHeader()
+        );
+        assert.equal(res.status, 400);
+      }
+
+      const locked = await post(
+        "/api/auth/2fa/enable",
+        { code: codeForStep(secret, currentStep()) },
+        authHeader()
+      );
+      assert.equal(locked.status, 429);
+      assert.equal((await locked.json()).code, "LOCKED_OUT");
+      const status = await fetch(`${server.base}/api/auth/2fa`, {
+        headers: authHeader(),
+      });
+      assert.equal((await status.json()).enabled, false);
+    });
+
+    it("unknown usernames are counted as well", async () => {
+      for (let i = 0; i < 5; i++) {
+        await post("/api/auth/login", { username: "ghost", password: "x" });
+      }
+      const res = await post("/api/auth/login", {
+        username: "ghost",
+        password: "x",
+      });
+      assert.equal(res.status, 429);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { db, files } from "../storage/index.js";
+import { MAX_DURATION_SECONDS } from "../services/audioValidation.js";
+import { decryptPhone } from "../services/phoneCrypto.js";
+import { DEFAULT_CONSENT_TEXT, consentVersion } from "../services/consent.js";
+import app from "../app.js";
+import { mp3Buffer, resetState, startServer, wavBuffer } from "./helpers.js";
+
+describe("POST /api/upload", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const upload = (buffer, fields = {}, type = "audio/wav") => {
+    const form = new FormData();
+    form.append("audio", new Blob([buffer], { type }), "message.wav");
+    const all = {
+      consentVersion: consentVersion(DEFAULT_CONSENT_TEXT),
+      ...fields,
+    };
+    for (const [k, v] of Object.entries(all)) form.append(k, v);
+    return fetch(`${server.base}/api/upload`, { method: "POST", body: form });
+  };
+
+  const onlyRecord = async () => {
+    const records = Object.values((await db.get("records")) || {});
+    assert.equal(records.length, 1);
+    return records[0];
+  };
+
+  it("stores the file and a record", async () => {
+    const res = await upload(wavBuffer(1), { title: "Minu lugu" });
+    assert.equal(res.status, 200);
+    const body = await res.json();
+
+    const record = await onlyRecord();
+    assert.match(record.fileName, /^Minu_lugu\d{4}\.wav$/);
+    assert.equal(record.url, body.url);
+    assert.equal(record.quarantined, false);
+    assert.ok(await files.exists(`audio/${record.fileName}`));
+    assert.equal(
+      (await files.getMetadata(`audio/${record.fileName}`)).contentType,
+      "audio/wav"
+    );
+  });
+
+  it("stores the phone number encrypted, as typed and in E.164", async () => {
+    const res = await upload(wavBuffer(1), { phoneNumber: "5551 2345" });
+    assert.equal(res.status, 200);
+
+    const record = await onlyRecord();
+    assert.equal(record.phone, undefined);
+    assert.ok(!record.phoneEncrypted.includes("5551"));
+    assert.equal(decryptPhone(record.phoneEncrypted), "5551 2345");
+    assert.equal(decryptPhone(record.phoneE164Encrypted), "+37255512345");
+  });
+
+  it("refuses a phone number that isn't one", async () => {
+    const res = await upload(wavBuffer(1), { phoneNumber: "helista mulle" });
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "PHONE_INVALID");
+    assert.equal(await db.get("records"), null);
+  });
+
+  it("lets the listener withdraw the message with its token", async () => {
+    const res = await upload(wavBuffer(1), { phoneNumber: "5551234" });
+    const { deletionToken } = await res.json();
+    const record = await onlyRecord();
+    assert.ok(deletionToken);
+    assert.ok(!JSON.stringify(record).includes(deletionToken));
+
+    const withdraw = (token) =>
+      fetch(`${server.base}/api/upload/withdraw`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+    const wrong = await withdraw("not-the-token");
+    assert.equal(wrong.status, 404);
+    assert.equal((await wrong.json()).code, "WITHDRAW_NOT_FOUND");
+
+    assert.equal((await withdraw(deletionToken)).status, 200);
+    assert.equal(await db.get("records"), null);
+    assert.equal(await files.exists(`audio/${record.fileName}`), false);
+
+    const [entry] = Object.values(await db.get("auditLog"));
+    assert.equal(entry.action, "audio.withdraw");
+    assert.equal(entry.target, record.fileName);
+    assert.equal(entry.actor, null);
+
+    // works once
+    assert.equal((await withdraw(deletionToken)).status, 404);
+  });
+
+  it("stores the accepted consent with the record", async () => {
+    const res = await upload(wavBuffer(1), { voiceType: "original" });
+    assert.equal(res.status, 200);
+    const { consent } = await onlyRecord();
+    assert.equal(consent.version, consentVersion(DEFAULT_CONSENT_TEXT));
+    assert.equal(consent.text, DEFAULT_CONSENT_TEXT);
+    assert.equal(consent.voiceType, "original");
+    assert.ok(Date.parse(consent.acceptedAt));
+  });
+
+  it("refuses uploads without current consent", async () => {
+    const missing = await upload(wavBuffer(1), { consentVersion: "" });
+    assert.equal(missing.status, 400);
+    assert.equal((await missing.json()).code, "CONSENT_REQUIRED");
+
+    // the text was edited after the page loaded
+    await db.set("siteContent", { consent: { text: "Uus tekst" } });
+    const outdated = await upload(wavBuffer(1));
+    assert.equal(outdated.status, 409);
+    assert.equal((await outdated.json()).code, "CONSENT_OUTDATED");
+
+    const current = await (
+      await fetch(`${server.base}/api/upload/consent`)
+    ).json();
+    assert.deepEqual(current, {
+      text: "Uus tekst",
+      version: consentVersion("Uus tekst"),
+    });
+    assert.equal(
+      (await upload(wavBuffer(1), { consentVersion: current.version })).status,
+      200
+    );
+  });
+
+  it("uses the duration sent by the client", async () => {
+    const res = await upload(wavBuffer(1), { duration: "2.5" });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).duration, 2.5);
+    assert.equal((await onlyRecord()).duration, 2.5);
+  });
+
+  it("falls back to the duration read from the file", async () => {
+    for (const duration of [undefined, "", "abc", "0", "-3"]) {
+      await resetState();
+      const fields = duration === undefined ? {} : { duration };
+      const res = await upload(wavBuffer(2), fields);
+      assert.equal(res.status, 200, `duration=${duration}`);
+      assert.equal((await res.json()).duration, 2, `duration=${duration}`);
+    }
+  });
+
+  it("rejects a claimed duration over the limit", async () => {
+    const res = await upload(wavBuffer(1), {
+      duration: String(MAX_DURATION_SECONDS + 60),
+    });
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, "DURATION_TOO_LONG");
+    assert.equal(await db.get("records"), null);
+  });
+
+  it("rejects a file that is really longer than the limit", async () => {
+    const res = await upload(wavBuffer(MAX_DURATION_SECONDS + 60, 100), {
+      duration: "1",
+    });
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, "DURATION_TOO_LONG");
+  });
+
+  it("rejects files that are not audio", async () => {
+    const res = await upload(Buffer.from("definitely not audio"), {});
+    assert.equal(res.status, 415);
+    assert.equal((await res.json()).code, "UNSUPPORTED_FORMAT");
+  });
+
+  it("quarantines uploads that filled the honeypot", async () => {
+    const res = await upload(wavBuffer(1), { website: "http://spam" });
+    assert.equal(res.status, 200);
+    const record = await onlyRecord();
+    assert.equal(record.quarantined, true);
+    assert.deepEqual(record.quarantineReasons, ["honeypot"]);
+  });
+
+  describe("with anonymize=true", () => {
+    let calls;
+    const disguised = mp3Buffer(40); // ~1 s
+
+    beforeEach(() => {
+      calls = [];
+      process.env.SERVER_ANONYMIZE = "true";
+      app.set("voiceProcessor", async (buffer, voiceType) => {
+        calls.push({ buffer, voiceType });
+        return { buffer: disguised, mimeType: "audio/mpeg", ext: ".mp3" };
+      });
+    });
+    afterEach(() => {
+      process.env.SERVER_ANONYMIZE = "false";
+      app.set("voiceProcessor", undefined);
+    });
+
+    it("stores only the disguised voice", async () => {
+      const raw = wavBuffer(1);
+      const res = await upload(raw, { anonymize: "true", voiceType: "deep" });
+      assert.equal(res.status, 200);
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].voiceType, "deep");
+      assert.ok(calls[0].buffer.equals(raw));
+
+      const record = await onlyRecord();
+      assert.equal(record.anonymizedOnServer, true);
+      assert.match(record.fileName, /\.mp3$/);
+      assert.equal(files.objects.size, 1);
+      assert.ok(
+        files.objects.get(`audio/${record.fileName}`).buffer.equals(disguised)
+      );
+    });
+
+    it("checks the length before processing", async () => {
+      const res = await upload(wavBuffer(MAX_DURATION_SECONDS + 60, 100), {
+        anonymize: "true",
+        voiceType: "deep",
+        duration: "10",
+      });
+      assert.equal(res.status, 422);
+      assert.equal((await res.json()).code, "DURATION_TOO_LONG");
+      assert.equal(calls.length, 0);
+    });
+
+    it("checks the length of the processed file", async () => {
+      // stands in for a webm without duration that turns out to be long
+      app.set("voiceProcessor", async () => ({
+        buffer: mp3Buffer(Math.ceil((MAX_DURATION_SECONDS + 60) / 0.026)),
+        mimeType: "audio/mpeg",
+        ext: ".mp3",
+      }));
+      const res = await upload(wavBuffer(1), {
+        anonymize: "true",
+        voiceType: "deep",
+        duration: "10",
+      });
+      assert.equal(res.status, 422);
+      assert.equal((await res.json()).code, "DURATION_TOO_LONG");
+      assert.equal(await db.get("records"), null);
+      assert.equal(files.objects.size, 0);
+    });
+
+    it("refuses voices the server doesn't know", async () => {
+      const res = await upload(wavBuffer(1), {
+        anonymize: "true",
+        voiceType: "chipmunk",
+      });
+      assert.equal(res.status, 400);
+      assert.equal((await res.json()).code, "UNKNOWN_VOICE");
+      assert.equal(calls.length, 0);
+      assert.equal(await db.get("records"), null);
+    });
+
+    it("never falls back to the raw voice when processing fails", async () => {
+      app.set("voiceProcessor", async () => {
+        throw new Error("ffmpeg exited with code 1");
+      });
+      const res = await upload(wavBuffer(1), {
+        anonymize: "true",
+        voiceType: "deep",
+      });
+      assert.equal(res.status, 503);
+      assert.equal((await res.json()).code, "ANONYMIZER_UNAVAILABLE");
+      assert.equal(await db.get("records"), null);
+      assert.equal(files.objects.size, 0);
+    });
+
+    it("answers 503 when server processing is switched off", async () => {
+      process.env.SERVER_ANONYMIZE = "false";
+      const res = await upload(wavBuffer(1), {
+        anonymize: "true",
+        voiceType: "deep",
+      });
+      assert.equal(res.status, 503);
+      assert.equal((await res.json()).code, "ANONYMIZER_UNAVAILABLE");
+      assert.equal(calls.length, 0);
+      assert.equal(await db.get("records"), null);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { db } from "../storage/index.js";
+import { CHUNK_SIZE } from "../services/chunkedUploads.js";
+import { DEFAULT_CONSENT_TEXT, consentVersion } from "../services/consent.js";
+import { authHeader, resetState, startServer, wavBuffer } from "./helpers.js";
+
+describe("upload rate limits and spam checks", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+  afterEach(() => {
+    process.env.UPLOAD_CHALLENGE = "off";
+  });
+
+  const upload = (fields = {}, ip = "203.0.113.1") => {
+    const form = new FormData();
+    form.append("audio", new Blob([wavBuffer(1)]), "message.wav");
+    const all = {
+      consentVersion: consentVersion(DEFAULT_CONSENT_TEXT),
+      ...fields,
+    };
+    for (const [k, v] of Object.entries(all)) form.append(k, v);
+    return fetch(`${server.base}/api/upload`, {
+      method: "POST",
+      headers: { "X-Forwarded-For": ip },
+      body: form,
+    });
+  };
+
+  const getChallenge = async () => {
+    const res = await fetch(`${server.base}/api/upload/challenge`);
+    assert.equal(res.status, 200);
+    return res.json();
+  };
+
+  // the tests' difficulty fits in the first 32 bits of the hash
+  const solve = ({ token, difficulty }) => {
+    for (let nonce = 0; ; nonce++) {
+      const hash = crypto
+        .createHash("sha256")
+        .update(`${token}:${nonce}`)
+        .digest();
+      if (hash.readUInt32BE(0) >>> (32 - difficulty) === 0) {
+        return { challengeToken: token, challengeNonce: String(nonce) };
+      }
+    }
+  };
+
+  // a correctly signed token that ran out before it was used
+  const expiredToken = () => {
+    const payload = Buffer.from(
+      JSON.stringify({ n: "expired", d: 1, exp: Date.now() - 1000 })
+    ).toString("base64url");
+    const sig = crypto
+      .createHmac("sha256", process.env.JWT_SECRET)
+      .update(payload)
+      .digest("base64url");
+    return `${payload}.${sig}`;
+  };
+
+  const onlyRecord = async () => {
+    const records = Object.values((await db.get("records")) || {});
+    assert.equal(records.length, 1);
+    return records[0];
+  };
+
+  it("limits uploads per client", async () => {
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await upload()).status, 200, `upload ${i + 1}`);
+    }
+    const limited = await upload();
+    assert.equal(limited.status, 429);
+    assert.equal((await limited.json()).code, "RATE_LIMITED");
+    assert.ok(Number(limited.headers.get("Retry-After")) > 0);
+
+    // someone else still gets through
+    assert.equal((await upload({}, "203.0.113.2")).status, 200);
+  });
+
+  it("limits uploads across all clients", async () => {
+    // session starts count like uploads and are cheap to refuse
+    const start = (ip) =>
+      fetch(`${server.base}/api/upload/sessions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+        body: JSON.stringify({ size: 0 }),
+      });
+    for (let i = 0; i < 200; i++) {
+      const res = await start(`10.0.${Math.floor(i / 250)}.${i % 250}`);
+      assert.equal(res.status, 400, `start ${i + 1}`);
+    }
+    const limited = await start("192.0.2.99");
+    assert.equal(limited.status, 429);
+  });
+
+  it("hands out challenges", async () => {
+    const challenge = await getChallenge();
+    assert.ok(challenge.token);
+    assert.equal(challenge.expiresInSeconds, 600);
+    assert.ok(challenge.difficulty > 0);
+  });
+
+  it("refuses to hand out challenges without a signing secret", async () => {
+    const saved = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      const res = await fetch(`${server.base}/api/upload/challenge`);
+      assert.equal(res.status, 503);
+      assert.equal((await res.json()).code, "CHALLENGE_UNAVAILABLE");
+    } finally {
+      process.env.JWT_SECRET = saved;
+    }
+  });
+
+  it("accepts a solved challenge once", async () => {
+    process.env.UPLOAD_CHALLENGE = "required";
+    const solved = solve(await getChallenge());
+
+    const res = await upload(solved);
+    assert.equal(res.status, 200);
+    assert.equal((await onlyRecord()).quarantined, false);
+
+    const again = await upload(solved);
+    assert.equal(again.status, 403);
+    assert.equal((await again.json()).code, "CHALLENGE_FAILED");
+  });
+
+  it("refuses expired, forged and missing challenges when required", async () => {
+    process.env.UPLOAD_CHALLENGE = "required";
+    const { token } = await getChallenge();
+    for (const fields of [
+      { challengeToken: expiredToken(), challengeNonce: "0" },
+      { challengeToken: `${token}x`, challengeNonce: "0" },
+      {},
+    ]) {
+      const res = await upload(fields);
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, "CHALLENGE_FAILED");
+    }
+    assert.equal(await db.get("records"), null);
+  });
+
+  it("quarantines failed challenges in soft mode", async () => {
+    process.env.UPLOAD_CHALLENGE = "soft";
+    const solved = solve(await getChallenge());
+    await upload(solved);
+    await upload(solved); // reused
+    await upload({ challengeToken: expiredToken(), challengeNonce: "0" });
+
+    const res = await fetch(
+      `${server.base}/audio/files?quarantined=true&sort=oldest`,
+      { headers: authHeader() }
+    );
+    const { items } = await res.json();
+    assert.deepEqual(
+      items.map((item) => item.quarantineReasons),
+      [["challenge-reused"], ["challenge-expired"]]
+    );
+
+    const clean = await fetch(`${server.base}/audio/files?quarantined=false`, {
+      headers: authHeader(),
+    });
+    assert.equal((await clean.json()).items.length, 1);
+  });
+
+  it("keeps a chunked upload when its challenge fails", async () => {
+    process.env.UPLOAD_CHALLENGE = "required";
+    const audio = wavBuffer(1);
+    const base = `${server.base}/api/upload/sessions`;
+    const { uploadId } = await (
+      await fetch(base, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ size: audio.length }),
+      })
+    ).json();
+    await fetch(`${base}/${uploadId}/chunks/0`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: audio.subarray(0, CHUNK_SIZE),
+    });
+
+    const complete = (fields) =>
+      fetch(`${base}/${uploadId}/complete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          consentVersion: consentVersion(DEFAULT_CONSENT_TEXT),
+          ...fields,
+        }),
+      });
+
+    const stale = await complete({
+      challengeToken: expiredToken(),
+      challengeNonce: "0",
+    });
+    assert.equal(stale.status, 403);
+    assert.equal((await complete(solve(await getChallenge()))).status, 200);
+    await onlyRecord();
+  });
+});
@@ -0,0 +1,139 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { setTimeout as sleep } from "timers/promises";
+import path from "path";
+import { db } from "../storage/index.js";
+import {
+  CHUNK_SIZE,
+  SESSION_TTL_MS,
+  sweepExpired,
+} from "../services/chunkedUploads.js";
+import { DEFAULT_CONSENT_TEXT, consentVersion } from "../services/consent.js";
+import { resetState, startServer, wavBuffer } from "./helpers.js";
+
+describe("chunked uploads (/api/upload/sessions)", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(async () => {
+    await resetState();
+    await rm(process.env.UPLOAD_SESSION_DIR, { recursive: true, force: true });
+  });
+
+  const url = (p = "") => `${server.base}/api/upload/sessions${p}`;
+  const json = (method, p, body) =>
+    fetch(url(p), {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body && JSON.stringify(body),
+    });
+  const putChunk = (id, index, bytes) =>
+    fetch(url(`/${id}/chunks/${index}`), {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: bytes,
+    });
+  const complete = (id, fields = {}) =>
+    json("POST", `/${id}/complete`, {
+      consentVersion: consentVersion(DEFAULT_CONSENT_TEXT),
+      title: "Tükkidena",
+      ...fields,
+    });
+  const sessionDir = (id) => path.join(process.env.UPLOAD_SESSION_DIR, id);
+  // the route answers first and cleans up right after
+  const removedSoon = async (id) => {
+    for (let i = 0; i < 50 && existsSync(sessionDir(id)); i++) await sleep(10);
+    return !existsSync(sessionDir(id));
+  };
+
+  // ~1.1 MB, so two chunks
+  const audio = wavBuffer(70);
+  const chunk = (i) => audio.subarray(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
+
+  const start = async () => {
+    const res = await json("POST", "", {
+      fileName: "message.wav",
+      mimeType: "audio/wav",
+      size: audio.length,
+    });
+    assert.equal(res.status, 200);
+    return res.json();
+  };
+
+  it("stores the recording once every chunk is in", async () => {
+    const { uploadId, totalChunks, chunkSize } = await start();
+    assert.equal(totalChunks, 2);
+    assert.equal(chunkSize, CHUNK_SIZE);
+
+    // out of order, and the retry of a chunk is harmless
+    assert.equal((await putChunk(uploadId, 1, chunk(1))).status, 200);
+    assert.equal((await putChunk(uploadId, 1, chunk(1))).status, 200);
+    const resumed = await (await fetch(url(`/${uploadId}`))).json();
+    assert.deepEqual(resumed.received, [1]);
+    const last = await putChunk(uploadId, 0, chunk(0));
+    assert.deepEqual((await last.json()).received, [0, 1]);
+
+    const res = await complete(uploadId);
+    assert.equal(res.status, 200);
+    const [record] = Object.values(await db.get("records"));
+    assert.match(record.fileName, /^Tkkidena\d{4}\.wav$/);
+    assert.equal(record.duration, 70);
+
+    // the parts are gone with the session
+    assert.ok(await removedSoon(uploadId));
+    assert.equal((await fetch(url(`/${uploadId}`))).status, 404);
+  });
+
+  it("refuses chunks that don't fit the session", async () => {
+    const { uploadId } = await start();
+    const wrongSize = await putChunk(uploadId, 0, chunk(0).subarray(10));
+    assert.equal(wrongSize.status, 400);
+    assert.equal((await wrongSize.json()).code, "INVALID_CHUNK");
+    assert.equal((await putChunk(uploadId, 2, chunk(1))).status, 400);
+    assert.equal((await putChunk("f".repeat(32), 0, chunk(0))).status, 404);
+  });
+
+  it("reports missing chunks and keeps the parts for a retry", async () => {
+    const { uploadId } = await start();
+    await putChunk(uploadId, 0, chunk(0));
+
+    const early = await complete(uploadId);
+    assert.equal(early.status, 409);
+    assert.deepEqual(await early.json(), {
+      error: "Upload incomplete",
+      code: "UPLOAD_INCOMPLETE",
+      missing: [1],
+    });
+
+    await putChunk(uploadId, 1, chunk(1));
+    assert.equal((await complete(uploadId)).status, 200);
+  });
+
+  it("keeps the parts when consent has to be given again", async () => {
+    const { uploadId } = await start();
+    await putChunk(uploadId, 0, chunk(0));
+    await putChunk(uploadId, 1, chunk(1));
+
+    const stale = await complete(uploadId, { consentVersion: "old" });
+    assert.equal(stale.status, 409);
+    assert.equal((await stale.json()).code, "CONSENT_OUTDATED");
+    assert.equal((await complete(uploadId)).status, 200);
+  });
+
+  it("drops abandoned sessions once they expire", async () => {
+    const { uploadId } = await start();
+    await putChunk(uploadId, 0, chunk(0));
+
+    assert.equal(await sweepExpired(Date.now() + SESSION_TTL_MS / 2), 0);
+    assert.equal(existsSync(sessionDir(uploadId)), true);
+
+    assert.equal(await sweepExpired(Date.now() + SESSION_TTL_MS + 1000), 1);
+    assert.equal(existsSync(sessionDir(uploadId)), false);
+    assert.equal((await fetch(url(`/${uploadId}`))).status, 404);
+    assert.equal((await complete(uploadId)).status, 404);
+  });
+});
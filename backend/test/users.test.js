@@ -0,0 +1,244 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { db, files } from "../storage/index.js";
+import { authHeader, resetState, startServer } from "./helpers.js";
+
+describe("admin users and roles", () => {
+  let server;
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+  beforeEach(resetState);
+
+  const call = (method, path, body, headers = authHeader()) =>
+    fetch(`${server.base}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const invite = async (username, role) => {
+    const res = await call("POST", "/api/users", { username, role });
+    assert.equal(res.status, 201);
+    return res.json();
+  };
+
+  it("invites a user who sets a password and logs in with their role", async () => {
+    const { user, inviteToken } = await invite("producer", "listener");
+    assert.equal(user.status, "invited");
+    assert.equal(user.invitedBy, "admin");
+
+    // no password yet
+    const early = await call("POST", "/api/auth/login", {
+      username: "producer",
+      password: "whatever-long",
+    });
+    assert.equal(early.status, 401);
+
+    const accepted = await call("POST", "/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "a long enough password",
+    });
+    assert.equal(accepted.status, 200);
+
+    const login = await call("POST", "/api/auth/login", {
+      username: "producer",
+      password: "a long enough password",
+    });
+    const { token } = await login.json();
+    const claims = jwt.decode(token);
+    assert.equal(claims.role, "listener");
+    assert.equal(claims.sub, user.id);
+
+    // invite links are single use
+    const again = await call("POST", "/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "another long password",
+    });
+    assert.equal(again.status, 400);
+  });
+
+  it("rejects short passwords and expired invites", async () => {
+    const { user, inviteToken } = await invite("editor1", "editor");
+
+    const short = await call("POST", "/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "short",
+    });
+    assert.equal(short.status, 400);
+
+    await db.update(`adminUsers/${user.id}`, {
+      inviteExpiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const expired = await call("POST", "/api/auth/accept-invite", {
+      token: inviteToken,
+      password: "a long enough password",
+    });
+    assert.equal(expired.status, 400);
+  });
+
+  it("validates invites and refuses duplicate names", async () => {
+    assert.equal(
+      (await call("POST", "/api/users", { username: "x", role: "editor" }))
+        .status,
+      400
+    );
+    assert.equal(
+      (await call("POST", "/api/users", { username: "someone", role: "god" }))
+        .status,
+      400
+    );
+    await invite("someone", "editor");
+    assert.equal(
+      (
+        await call("POST", "/api/users", {
+          username: "someone",
+          role: "editor",
+        })
+      ).status,
+      409
+    );
+    assert.equal(
+      (await call("POST", "/api/users", { username: "admin", role: "editor" }))
+        .status,
+      409
+    );
+  });
+
+  it("lists the built-in owner and stored users without secrets", async () => {
+    await invite("producer", "listener");
+    const res = await call("GET", "/api/users");
+    const list = await res.json();
+    assert.deepEqual(
+      list.map((u) => [u.username, u.role, u.builtIn]),
+      [
+        ["admin", "owner", true],
+        ["producer", "listener", false],
+      ]
+    );
+    assert.ok(list.every((u) => !("passwordHash" in u)));
+    assert.ok(list.every((u) => !("inviteTokenHash" in u)));
+  });
+
+  it("changes roles and removes users", async () => {
+    const { user } = await invite("producer", "listener");
+
+    const patched = await call("PATCH", `/api/users/${user.id}`, {
+      role: "editor",
+    });
+    assert.equal((await patched.json()).role, "editor");
+
+    const removed = await call("DELETE", `/api/users/${user.id}`);
+    assert.equal(removed.status, 200);
+    assert.equal(await db.get(`adminUsers/${user.id}`), null);
+
+    const missing = await call("DELETE", `/api/users/${user.id}`);
+    assert.equal(missing.status, 404);
+  });
+
+  it("won't let an owner remove or demote themselves", async () => {
+    const { user } = await invite("owner2", "owner");
+    const asOwner2 = authHeader("owner", user.id, "owner2");
+
+    const del = await call(
+      "DELETE",
+      `/api/users/${user.id}`,
+      undefined,
+      asOwner2
+    );
+    assert.equal(del.status, 400);
+    const patch = await call(
+      "PATCH",
+      `/api/users/${user.id}`,
+      { role: "listener" },
+      asOwner2
+    );
+    assert.equal(patch.status, 400);
+  });
+
+  it("only owners manage users", async () => {
+    for (const role of ["editor", "listener"]) {
+      const res = await call("GET", "/api/users", undefined, authHeader(role));
+      assert.equal(res.status, 403, role);
+    }
+  });
+
+  describe("permissions", () => {
+    const seed = async () => {
+      await files.save("audio/a.wav", Buffer.from("RIFF"), {
+        contentType: "audio/wav",
+      });
+      await db.set("records/a", { fileName: "a.wav" });
+    };
+
+    it("listeners can list and download but not delete", async () => {
+      await seed();
+      const listener = authHeader("listener");
+
+      assert.equal(
+        (await call("GET", "/audio/files", undefined, listener)).status,
+        200
+      );
+      assert.equal(
+        (await call("GET", "/audio/download/a.wav", undefined, listener))
+          .status,
+        200
+      );
+      assert.equal(
+        (await call("DELETE", "/audio/files/a.wav", undefined, listener))
+          .status,
+        403
+      );
+      assert.ok(await db.get("records/a"));
+    });
+
+    it("editors can delete audio", async () => {
+      await seed();
+      const res = await call(
+        "DELETE",
+        "/audio/files/a.wav",
+        undefined,
+        authHeader("editor")
+      );
+      assert.equal(res.status, 200);
+    });
+
+    it("listeners can't write content or upload images", async () => {
+      const listener = authHeader("listener");
+      assert.equal(
+        (await call("PUT", "/api/content", { title: "x" }, listener)).status,
+        403
+      );
+      assert.equal(
+        (await call("POST", "/api/content", {}, listener)).status,
+        403
+      );
+
+      const form = new FormData();
+      form.append("image", new Blob(["x"], { type: "image/png" }), "b.png");
+      const upload = await fetch(`${server.base}/uploadimage`, {
+        method: "POST",
+        headers: listener,
+        body: form,
+      });
+      assert.equal(upload.status, 403);
+    });
+
+    it("tokens without a role are refused on protected writes", async () => {
+      const legacy = jwt.sign({ username: "admin" }, process.env.JWT_SECRET, {
+        algorithm: "HS512",
+      });
+      const res = await call(
+        "PUT",
+        "/api/content",
+        { title: "x" },
+        {
+          Authorization: `Bearer ${legacy}`,
+        }
+      );
+      assert.equal(res.status, 403);
+    });
+  });
+});
@@ -1,7 +1,5 @@
 import { useEffect, useState } from "react";
-import Footer from "./components/Footer";
-import Header from "./components/Header";
-import HomePage from "./pages/HomePage";
+import SiteLayout from "./components/SiteLayout";
 import "./App.css";
 
 function App() {
@@ -18,21 +16,7 @@ function App() {
     return <div className="text-center py-10">Loading...</div>;
   }
 
-  return (
-    <div className="flex flex-col min-h-screen items-center">
-      <div className="w-full">
-        <Header />
-      </div>
-
-      <main className="flex-grow flex flex-col items-center justify-start w-full max-w-screen-md px-4">
-        <HomePage data={contentData} />
-      </main>
-
-      <footer className="w-full">
-        <Footer brand={contentData.footer?.brand || "Your Page Name"} />
-      </footer>
-    </div>
-  );
+  return <SiteLayout contentData={contentData} />;
 }
 
 export default App;
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { adminApi } from "../utils/adminApi";
+import { ROLE_LABELS } from "../utils/adminSession";
+import type { AdminRole, AdminSession } from "../utils/adminSession";
+
+type AdminUser = {
+  id: string;
+  username: string;
+  role: AdminRole;
+  status: "active" | "invited";
+  inviteExpiresAt?: string | null;
+  invitedBy?: string | null;
+  builtIn?: boolean;
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as AdminRole[];
+
+export default function AdminUsers({ session }: { session: AdminSession }) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<AdminRole>("editor");
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const errorMessage = (err: unknown) =>
+    (axios.isAxiosError(err) && err.response?.data?.message) ||
+    "Request failed (see console).";
+
+  const fetchUsers = async () => {
+    try {
+      const res = await adminApi.get<AdminUser[]>(`${API_BASE}/api/users`);
+      setUsers(res.data || []);
+    } catch (err) {
+      console.error("Error fetching users:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteLink(null);
+    try {
+      const res = await adminApi.post<{ inviteToken: string }>(
+        `${API_BASE}/api/users`,
+        { username: username.trim(), role }
+      );
+      setInviteLink(
+        `${window.location.origin}/admin/invite?token=${encodeURIComponent(
+          res.data.inviteToken
+        )}`
+      );
+      setUsername("");
+      fetchUsers();
+    } catch (err) {
+      console.error("Invite failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleRoleChange = async (user: AdminUser, next: AdminRole) => {
+    try {
+      await adminApi.patch(`${API_BASE}/api/users/${user.id}`, {
+        role: next,
+      });
+      setUsers((prev) =>
+        prev.map((u) => (u.id === user.id ? { ...u, role: next } : u))
+      );
+    } catch (err) {
+      console.error("Role change failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleRemove = async (user: AdminUser) => {
+    if (!window.confirm(`Remove user "${user.username}"?`)) return;
+    try {
+      await adminApi.delete(`${API_BASE}/api/users/${user.id}`);
+      setUsers((prev) => prev.filter((u) => u.id !== user.id));
+    } catch (err) {
+      console.error("Remove failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  if (loading) return <p className="text-center p-4">Loading users...</p>;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6 text-center">Admin Users</h2>
+
+      <ul className="space-y-3 mb-6">
+        {users.map((user) => {
+          const locked = user.builtIn || user.id === session.id;
+          return (
+            <li
+              key={user.id}
+              className="flex items-center justify-between gap-4 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="font-semibold truncate">{user.username}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {user.status === "invited"
+                    ? `Invited by ${user.invitedBy ?? "unknown"}, pending`
+                    : user.builtIn
+                    ? "Built-in account"
+                    : "Active"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={user.role}
+                  disabled={locked}
+                  onChange={(e) =>
+                    handleRoleChange(user, e.target.value as AdminRole)
+                  }
+                  className="p-1 text-sm border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+                {!locked && (
+                  <button
+                    onClick={() => handleRemove(user)}
+                    className="text-sm text-red-500 hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleInvite} className="flex flex-col gap-2">
+        <label className="block text-sm font-medium">Invite a user</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as AdminRole)}
+            className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={!username.trim()}
+          className="bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition disabled:opacity-50"
+        >
+          Create invite
+        </button>
+      </form>
+
+      {inviteLink && (
+        <div className="mt-4 text-sm">
+          <p className="mb-1">
+            Send this link to the new user. It works once and expires in 7 days:
+          </p>
+          <input
+            readOnly
+            value={inviteLink}
+            onFocus={(e) => e.target.select()}
+            className="w-full p-2 border border-gray-300 dark:border-gray-700 rounded bg-gray-50 dark:bg-gray-800"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,36 @@
-import React, { useEffect, useState } from "react";
-import axios from "axios";
+import React, { useEffect, useRef, useState } from "react";
 import CustomAudioPlayer from "./CustomAudioPlayer";
+import VirtualList from "./VirtualList";
+import RevealedPhoneNumber from "./RevealedPhoneNumber";
+import { canEdit, isOwner } from "../utils/adminSession";
+import { adminApi, adminFetch } from "../utils/adminApi";
+import { useAuth } from "../utils/authContext";
+import { formatTimestamp, parseTimestamp } from "../utils/episodes";
+import type { Episode } from "../utils/episodes";
+import type { RevealedPhone } from "../utils/phoneNumber";
+import { VOICE_LIST } from "../utils/voicePresets";
+
+type RecordStatus = "new" | "shortlisted" | "answered" | "rejected";
+
+const STATUS_LABELS: Record<RecordStatus, string> = {
+  new: "New",
+  shortlisted: "Shortlisted",
+  answered: "Answered",
+  rejected: "Rejected",
+};
+const STATUSES = Object.keys(STATUS_LABELS) as RecordStatus[];
+
+// usable on air; the server refuses them for messages without consent
+const ON_AIR: RecordStatus[] = ["shortlisted", "answered"];
+
+type AnsweredIn = { episodeId: string; timestamp: number | null };
+
+type Consent = {
+  version: string;
+  text: string;
+  acceptedAt: string;
+  voiceType?: string | null;
+};
 
 type AudioFile = {
   id?: string;
@@ -8,26 +38,196 @@ type AudioFile = {
   uploadedAt?: string;
   url: string;
   title?: string | null;
-  phone?: string | null;
+  notes?: string | null;
+  hasPhone?: boolean; // the number itself only comes from the reveal route
   voiceType?: string | null;
   duration?: number; // normalized numeric duration (seconds)
+  quarantined?: boolean; // flagged by the upload spam checks
+  quarantineReasons?: string[];
+  status?: RecordStatus;
+  answeredIn?: AnsweredIn | null;
+  consent?: Consent | null;
 };
 
+// status picker; answered messages also get the episode and the moment
+function StatusControls({
+  file,
+  episodes,
+  onSave,
+}: {
+  file: AudioFile;
+  episodes: Episode[];
+  onSave: (status: RecordStatus, answeredIn: AnsweredIn | null) => void;
+}) {
+  const [status, setStatus] = useState<RecordStatus>(file.status ?? "new");
+  const [episodeId, setEpisodeId] = useState(file.answeredIn?.episodeId ?? "");
+  const [at, setAt] = useState(
+    file.answeredIn?.timestamp != null
+      ? formatTimestamp(file.answeredIn.timestamp)
+      : ""
+  );
+
+  const save = (next: RecordStatus) => {
+    setStatus(next);
+    if (next !== "answered") onSave(next, null);
+  };
+
+  const saveAnswer = () => {
+    const timestamp = at.trim() ? parseTimestamp(at) : null;
+    if (at.trim() && timestamp === null) {
+      alert("Use a time like 12:34");
+      return;
+    }
+    onSave("answered", episodeId ? { episodeId, timestamp } : null);
+  };
+
+  const inputClass =
+    "p-1 text-sm border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-black dark:text-white";
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2">
+      <select
+        value={status}
+        onChange={(e) => save(e.target.value as RecordStatus)}
+        className={inputClass}
+      >
+        {STATUSES.map((s) => (
+          <option
+            key={s}
+            value={s}
+            disabled={!file.consent && ON_AIR.includes(s)}
+          >
+            {STATUS_LABELS[s]}
+          </option>
+        ))}
+      </select>
+      {status === "answered" && (
+        <>
+          <select
+            value={episodeId}
+            onChange={(e) => setEpisodeId(e.target.value)}
+            className={`${inputClass} max-w-[12rem]`}
+          >
+            <option value="">No episode</option>
+            {episodes.map((ep) => (
+              <option key={ep.id} value={ep.id}>
+                {ep.title}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="12:34"
+            value={at}
+            disabled={!episodeId}
+            onChange={(e) => setAt(e.target.value)}
+            className={`${inputClass} w-20`}
+          />
+          <button
+            onClick={saveAnswer}
+            className="text-sm bg-blue-600 text-secondary px-2 py-1 rounded"
+          >
+            Save
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+// notes for the team, saved when the field loses focus
+function NotesField({
+  file,
+  onSave,
+}: {
+  file: AudioFile;
+  onSave: (notes: string) => void;
+}) {
+  const [notes, setNotes] = useState(file.notes ?? "");
+
+  return (
+    <textarea
+      rows={1}
+      placeholder="Notes"
+      value={notes}
+      maxLength={2000}
+      onChange={(e) => setNotes(e.target.value)}
+      onBlur={() => {
+        if (notes.trim() !== (file.notes ?? "")) onSave(notes);
+      }}
+      className="mt-2 w-full p-1 text-sm border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-black dark:text-white"
+    />
+  );
+}
+
 type PlayerState = {
   playing: boolean;
   current: number;
   volume: number;
 };
 
+type AudioPage = {
+  items: AudioFile[];
+  nextCursor: string | null;
+  total: number;
+  statusCounts: Record<RecordStatus, number>;
+};
+
+type Filters = {
+  from: string;
+  to: string;
+  voiceType: string;
+  hasPhone: "" | "true" | "false";
+  quarantined: "" | "true" | "false";
+  minDuration: string;
+  maxDuration: string;
+  sort: "newest" | "oldest" | "longest" | "shortest";
+};
+
+const NO_FILTERS: Filters = {
+  from: "",
+  to: "",
+  voiceType: "",
+  hasPhone: "",
+  quarantined: "",
+  minDuration: "",
+  maxDuration: "",
+  sort: "newest",
+};
+
+const VOICE_TYPES = ["original", ...VOICE_LIST];
+
+const PAGE_SIZE = 30;
+
 export default function AudioList(): JSX.Element {
   const [files, setFiles] = useState<AudioFile[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [statusCounts, setStatusCounts] = useState<Record<
+    RecordStatus,
+    number
+  > | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [playerStateMap, setPlayerStateMap] = useState<
     Record<string, PlayerState>
   >({});
-  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [statusFilter, setStatusFilter] = useState<RecordStatus | "all">("all");
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  // numbers the owner revealed in this visit, by record id
+  const [phones, setPhones] = useState<Record<string, RevealedPhone>>({});
+  // only the latest request may fill the list
+  const requestRef = useRef(0);
 
-  const token = localStorage.getItem("admin-token");
+  const { token, session } = useAuth();
+  const signedIn = !!token;
+  // listeners only listen and download; the server refuses their changes
+  const mayEdit = canEdit(session);
+  // "seda näen vaid mina": only the owner sees phone numbers
+  const mayRevealPhone = isOwner(session);
 
   const useProd = true; // flip this for testing
 
@@ -35,127 +235,97 @@ export default function AudioList(): JSX.Element {
     ? "https://podcast-homepage.onrender.com"
     : "http://localhost:4000";
 
+  // search as you type, without a request per key
+  useEffect(() => {
+    const timer = window.setTimeout(() => setQuery(search.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  const fetchPage = async (cursor?: string) => {
+    const request = ++requestRef.current;
+    if (cursor) setLoadingMore(true);
+    else setLoading(true);
+    try {
+      const res = await adminApi.get<AudioPage>(`${API_BASE}/audio/files`, {
+        params: {
+          limit: PAGE_SIZE,
+          cursor,
+          status: statusFilter === "all" ? undefined : statusFilter,
+          q: query || undefined,
+          ...Object.fromEntries(
+            Object.entries(filters).filter(([, value]) => value !== "")
+          ),
+        },
+      });
+      if (request !== requestRef.current) return;
+      setFiles((prev) =>
+        cursor ? [...prev, ...res.data.items] : res.data.items
+      );
+      setNextCursor(res.data.nextCursor);
+      setTotal(res.data.total);
+      setStatusCounts(res.data.statusCounts);
+    } catch (err) {
+      console.error("Error fetching audio files:", err);
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
   useEffect(() => {
-    if (!token) {
+    if (!signedIn) {
       setLoading(false);
       return;
     }
+    fetchPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signedIn, statusFilter, query, filters]);
 
-    // fallback that uses an <audio> element to read duration (used when server value is absent)
-    const fallbackDurationFromAudioElement = (url: string, timeoutMs = 5000) =>
-      new Promise<number>((resolve) => {
-        try {
-          const a = new Audio();
-          a.preload = "metadata";
-          a.crossOrigin = "anonymous";
-          let settled = false;
-          let timeoutId: number | undefined;
-
-          const cleanup = () => {
-            try {
-              a.src = "";
-              a.onloadedmetadata = null;
-              a.onerror = null;
-            } catch {}
-            if (timeoutId) window.clearTimeout(timeoutId);
-          };
-
-          a.onloadedmetadata = () => {
-            if (settled) return;
-            settled = true;
-            const d = Number.isFinite(a.duration) ? a.duration : 0;
-            cleanup();
-            resolve(d || 0);
-          };
-
-          a.onerror = () => {
-            if (settled) return;
-            settled = true;
-            cleanup();
-            resolve(0);
-          };
-
-          timeoutId = window.setTimeout(() => {
-            if (settled) return;
-            settled = true;
-            cleanup();
-            resolve(0);
-          }, timeoutMs);
-
-          // set src last to start loading
-          a.src = url;
-          try {
-            a.load();
-          } catch {}
-        } catch (err) {
-          resolve(0);
-        }
-      });
+  useEffect(() => {
+    if (!signedIn) return;
 
-    const fetchFiles = async () => {
-      setLoading(true);
+    // for the "answered in" picker and labels
+    const fetchEpisodes = async () => {
       try {
-        const res = await axios.get<AudioFile[]>(`${API_BASE}/audio/files`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const list = res.data || [];
-
-        // prepare playerStateMap keys
-        const initialMap: Record<string, PlayerState> = {};
-        list.forEach((f) => {
-          initialMap[f.url] = { playing: false, current: 0, volume: 1 };
-        });
-        setPlayerStateMap(initialMap);
-
-        // Normalize durations
-        const enriched = await Promise.all(
-          list.map(async (f) => {
-            const raw = (f as any).duration;
-            let dur = 0;
-
-            if (typeof raw === "number" && Number.isFinite(raw) && raw > 0) {
-              dur = raw;
-            } else if (typeof raw === "string" && raw.trim() !== "") {
-              const cleaned = raw.replace(",", "").trim();
-              const parsed = Number.parseFloat(cleaned);
-              if (Number.isFinite(parsed) && parsed > 0) dur = parsed;
-            }
-
-            if (!Number.isFinite(dur) || dur <= 0) {
-              try {
-                dur = await fallbackDurationFromAudioElement(f.url, 5000);
-                if (!Number.isFinite(dur)) dur = 0;
-              } catch {
-                dur = 0;
-              }
-            }
-
-            return { ...f, duration: dur };
-          })
+        const res = await adminApi.get<Episode[]>(
+          `${API_BASE}/api/episodes/all`
         );
-
-        const map: Record<string, number> = {};
-        enriched.forEach((f) => {
-          map[f.url] = f.duration ?? 0;
-        });
-        setDurations(map);
-        setFiles(enriched);
+        setEpisodes(res.data || []);
       } catch (err) {
-        console.error("Error fetching audio files:", err);
-      } finally {
-        setLoading(false);
+        console.error("Error fetching episodes:", err);
       }
     };
 
-    fetchFiles();
+    fetchEpisodes();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token]);
+  }, [signedIn]);
+
+  const loadMore = () => {
+    if (nextCursor && !loading && !loadingMore) fetchPage(nextCursor);
+  };
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  // keep the tab counts in step with local changes
+  const countChange = (from: RecordStatus | null, to: RecordStatus | null) =>
+    setStatusCounts((prev) =>
+      prev
+        ? {
+            ...prev,
+            ...(from ? { [from]: prev[from] - 1 } : {}),
+            ...(to ? { [to]: prev[to] + 1 } : {}),
+          }
+        : prev
+    );
 
   const handleDownload = async (fileName: string) => {
     try {
-      const response = await fetch(`${API_BASE}/audio/download/${fileName}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await adminFetch(
+        `${API_BASE}/audio/download/${fileName}`
+      );
       if (!response.ok) throw new Error("Download failed");
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
@@ -175,23 +345,253 @@ export default function AudioList(): JSX.Element {
   const handleDelete = async (fileName: string) => {
     if (!window.confirm(`Delete file "${fileName}"?`)) return;
     try {
-      await axios.delete(`${API_BASE}/audio/files/${fileName}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      await adminApi.delete(`${API_BASE}/audio/files/${fileName}`);
+      const gone = files.filter((f) => f.name === fileName);
       setFiles((prev) => prev.filter((f) => f.name !== fileName));
+      setTotal((n) => n - gone.length);
+      gone.forEach((f) => countChange(f.status ?? "new", null));
     } catch (err) {
       console.error("Delete failed:", err);
       alert("Delete failed (see console).");
     }
   };
 
+  const handleStatus = async (
+    file: AudioFile,
+    status: RecordStatus,
+    answeredIn: AnsweredIn | null
+  ) => {
+    if (!file.id) return;
+    try {
+      await adminApi.patch(`${API_BASE}/audio/records/${file.id}`, {
+        status,
+        episodeId: answeredIn?.episodeId,
+        timestamp: answeredIn?.timestamp ?? undefined,
+      });
+      countChange(file.status ?? "new", status);
+      // it no longer belongs on the tab that's open
+      if (statusFilter !== "all" && status !== statusFilter) {
+        setFiles((prev) => prev.filter((f) => f.id !== file.id));
+        setTotal((n) => n - 1);
+        return;
+      }
+      setFiles((prev) =>
+        prev.map((f) => (f.id === file.id ? { ...f, status, answeredIn } : f))
+      );
+    } catch (err) {
+      console.error("Status change failed:", err);
+      alert("Status change failed (see console).");
+    }
+  };
+
+  const handleRevealPhone = async (file: AudioFile) => {
+    if (!file.id) return;
+    try {
+      const res = await adminApi.post<RevealedPhone>(
+        `${API_BASE}/audio/records/${file.id}/reveal-phone`
+      );
+      setPhones((prev) => ({ ...prev, [file.id!]: res.data }));
+    } catch (err) {
+      console.error("Revealing phone number failed:", err);
+      alert("Revealing phone number failed (see console).");
+    }
+  };
+
+  const handleNotes = async (file: AudioFile, notes: string) => {
+    if (!file.id) return;
+    try {
+      const res = await adminApi.patch<{ notes: string | null }>(
+        `${API_BASE}/audio/records/${file.id}`,
+        { notes }
+      );
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.id === file.id ? { ...f, notes: res.data.notes } : f
+        )
+      );
+    } catch (err) {
+      console.error("Saving notes failed:", err);
+      alert("Saving notes failed (see console).");
+    }
+  };
+
+  const answeredLabel = (answeredIn: AnsweredIn) => {
+    const episode = episodes.find((e) => e.id === answeredIn.episodeId);
+    return `${episode?.title ?? "a deleted episode"}${
+      answeredIn.timestamp != null
+        ? ` at ${formatTimestamp(answeredIn.timestamp)}`
+        : ""
+    }`;
+  };
+
+  const renderItem = (file: AudioFile) => (
+    <div
+      className={`bg-gray-50 dark:bg-gray-800 p-4 rounded-lg shadow-sm ${
+        file.quarantined ? "opacity-80" : ""
+      }`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-gray-900 dark:text-white truncate">
+            {file.title || file.name}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Phone:{" "}
+            {!file.hasPhone ? (
+              <span className="font-medium">none</span>
+            ) : file.id && phones[file.id] ? (
+              <RevealedPhoneNumber {...phones[file.id]} />
+            ) : mayRevealPhone ? (
+              <button
+                onClick={() => handleRevealPhone(file)}
+                title="Every reveal is written to the audit log"
+                className="underline"
+              >
+                Reveal
+              </button>
+            ) : (
+              <span className="font-medium">hidden</span>
+            )}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            File name:{" "}
+            <span className="font-medium">{file.name ?? "none"}</span>
+          </p>
+          {file.quarantined && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Flagged: {(file.quarantineReasons || []).join(", ") || "unknown"}
+            </p>
+          )}
+          {file.consent ? (
+            <p
+              className="text-xs text-gray-500 dark:text-gray-400"
+              title={file.consent.text}
+            >
+              Consent {file.consent.version.slice(0, 8)} on{" "}
+              {new Date(file.consent.acceptedAt).toLocaleString()}, voice:{" "}
+              {file.consent.voiceType ?? "unknown"}
+            </p>
+          ) : (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              No consent to air this message
+            </p>
+          )}
+          {file.answeredIn && (
+            <p className="text-xs text-green-600 dark:text-green-400">
+              Answered in {answeredLabel(file.answeredIn)}
+            </p>
+          )}
+          {mayEdit && file.id ? (
+            <StatusControls
+              file={file}
+              episodes={episodes}
+              onSave={(status, answeredIn) =>
+                handleStatus(file, status, answeredIn)
+              }
+            />
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Status: {STATUS_LABELS[file.status ?? "new"]}
+            </p>
+          )}
+          {mayEdit && file.id ? (
+            <NotesField
+              file={file}
+              onSave={(notes) => handleNotes(file, notes)}
+            />
+          ) : (
+            file.notes && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap">
+                {file.notes}
+              </p>
+            )
+          )}
+          <p className="text-xs text-gray-400 mt-1">
+            {file.uploadedAt && !isNaN(Date.parse(file.uploadedAt))
+              ? new Date(file.uploadedAt).toLocaleString()
+              : "Date unknown"}
+          </p>
+          <div className="mt-3">
+            <CustomAudioPlayer
+              url={file.url}
+              duration={file.duration ?? 0}
+              disabled={false}
+              playerStateMap={playerStateMap}
+              setPlayerStateMap={setPlayerStateMap}
+            />
+            <div className="text-xs text-gray-500 mt-1">
+              ({(file.duration ?? 0).toFixed(2)} sec)
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-end gap-2">
+          <button
+            onClick={() => handleDownload(file.name)}
+            title="Download"
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <span>
+              {/* Download SVG */}{" "}
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="w-5 h-5 text-green-400"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  d="M12 3v12m0 0l4-4m-4 4l-4-4M21 21H3"
+                />{" "}
+              </svg>
+            </span>
+          </button>
+          {mayEdit && (
+            <button
+              onClick={() => handleDelete(file.name)}
+              title="Delete"
+              className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span>
+                {/* Trash SVG */}{" "}
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="w-5 h-5 text-red-500"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                >
+                  {" "}
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    d="M19 7l-.867 12.142A2 2 0 0 1 16.138 21H7.862a2 2 0 0 1-1.995-1.858L5 7m5 4v6m4-6v6M9 7V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v3"
+                  />{" "}
+                </svg>
+              </span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  const inputClass =
+    "p-2 text-sm border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-black dark:text-white";
+  const allCount = statusCounts
+    ? STATUSES.reduce((sum, s) => sum + statusCounts[s], 0)
+    : total;
+
   if (!token)
     return (
       <p className="text-center p-4">
         You must be logged in to view audio files.
       </p>
     );
-  if (loading) return <p className="text-center p-4">Loading audio files...</p>;
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-6 bg-white dark:bg-gray-900 rounded-lg shadow">
@@ -199,102 +599,148 @@ export default function AudioList(): JSX.Element {
         Audio Recordings
       </h2>
 
-      {files.length === 0 ? (
+      <div className="flex flex-wrap justify-center gap-2 mb-4 text-sm">
+        {(["all", ...STATUSES] as const).map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatusFilter(s)}
+            className={`px-3 py-1 rounded-full border border-gray-300 dark:border-gray-700 ${
+              statusFilter === s
+                ? "bg-blue-600 text-secondary"
+                : "text-gray-900 dark:text-white"
+            }`}
+          >
+            {s === "all"
+              ? `All (${allCount})`
+              : `${STATUS_LABELS[s]} (${statusCounts?.[s] ?? 0})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 text-gray-900 dark:text-white">
+        <input
+          type="search"
+          placeholder="Search title or notes"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${inputClass} col-span-2`}
+        />
+        <select
+          value={filters.sort}
+          onChange={(e) => setFilter("sort", e.target.value as Filters["sort"])}
+          className={inputClass}
+        >
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="longest">Longest first</option>
+          <option value="shortest">Shortest first</option>
+        </select>
+        <select
+          value={filters.voiceType}
+          onChange={(e) => setFilter("voiceType", e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Any voice</option>
+          {VOICE_TYPES.map((v) => (
+            <option key={v} value={v}>
+              {v}
+            </option>
+          ))}
+        </select>
+        <label className="flex flex-col text-xs">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-xs">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-xs">
+          Min length (sec)
+          <input
+            type="number"
+            min={0}
+            value={filters.minDuration}
+            onChange={(e) => setFilter("minDuration", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-xs">
+          Max length (sec)
+          <input
+            type="number"
+            min={0}
+            value={filters.maxDuration}
+            onChange={(e) => setFilter("maxDuration", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <select
+          value={filters.hasPhone}
+          onChange={(e) =>
+            setFilter("hasPhone", e.target.value as Filters["hasPhone"])
+          }
+          className={inputClass}
+        >
+          <option value="">With or without phone</option>
+          <option value="true">Has phone</option>
+          <option value="false">No phone</option>
+        </select>
+        <select
+          value={filters.quarantined}
+          onChange={(e) =>
+            setFilter("quarantined", e.target.value as Filters["quarantined"])
+          }
+          className={inputClass}
+        >
+          <option value="">Flagged or not</option>
+          <option value="false">Not flagged</option>
+          <option value="true">Quarantined only</option>
+        </select>
+        <button
+          onClick={() => {
+            setFilters(NO_FILTERS);
+            setSearch("");
+          }}
+          className="col-span-2 text-sm underline"
+        >
+          Clear filters
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-center p-4">Loading audio files...</p>
+      ) : files.length === 0 ? (
         <p className="text-center text-gray-600 dark:text-gray-300">
           No audio files found.
         </p>
       ) : (
-        <ul className="space-y-4">
-          {files.map((file) => (
-            <li
-              key={file.url}
-              className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg shadow-sm"
-            >
-              <div className="flex items-start justify-between gap-4">
-                <div className="flex-1 min-w-0">
-                  <p className="font-semibold text-gray-900 dark:text-white truncate">
-                    {file.title || file.name}
-                  </p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">
-                    Phone:{" "}
-                    <span className="font-medium">{file.phone ?? "none"}</span>
-                  </p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">
-                    File name:{" "}
-                    <span className="font-medium">{file.name ?? "none"}</span>
-                  </p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    {file.uploadedAt && !isNaN(Date.parse(file.uploadedAt))
-                      ? new Date(file.uploadedAt).toLocaleString()
-                      : "Date unknown"}
-                  </p>
-                  <div className="mt-3">
-                    <CustomAudioPlayer
-                      url={file.url}
-                      duration={file.duration ?? 0}
-                      disabled={false}
-                      playerStateMap={playerStateMap}
-                      setPlayerStateMap={setPlayerStateMap}
-                    />
-                    <div className="text-xs text-gray-500 mt-1">
-                      ({(file.duration ?? 0).toFixed(2)} sec)
-                    </div>
-                  </div>
-                </div>
-
-                <div className="flex flex-col items-end gap-2">
-                  <button
-                    onClick={() => handleDownload(file.name)}
-                    title="Download"
-                    className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
-                  >
-                    <span>
-                      {/* Download SVG */}{" "}
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        className="w-5 h-5 text-green-400"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth="2"
-                          d="M12 3v12m0 0l4-4m-4 4l-4-4M21 21H3"
-                        />{" "}
-                      </svg>
-                    </span>
-                  </button>
-                  <button
-                    onClick={() => handleDelete(file.name)}
-                    title="Delete"
-                    className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
-                  >
-                    <span>
-                      {/* Trash SVG */}{" "}
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        className="w-5 h-5 text-red-500"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                      >
-                        {" "}
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth="2"
-                          d="M19 7l-.867 12.142A2 2 0 0 1 16.138 21H7.862a2 2 0 0 1-1.995-1.858L5 7m5 4v6m4-6v6M9 7V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v3"
-                        />{" "}
-                      </svg>
-                    </span>
-                  </button>
-                </div>
-              </div>
-            </li>
-          ))}
-        </ul>
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            Showing {files.length} of {total}
+          </p>
+          <VirtualList
+            items={files}
+            getKey={(f) => f.id ?? f.url}
+            renderItem={renderItem}
+            estimateHeight={260}
+            // the player that's playing stays mounted while scrolled away
+            isPinned={(f) => !!playerStateMap[f.url]?.playing}
+            onEndReached={loadMore}
+            className="max-h-[70vh]"
+          />
+          {loadingMore && <p className="text-center p-2">Loading more...</p>}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { adminApi } from "../utils/adminApi";
+
+type AuditEntry = {
+  id: string;
+  action: string;
+  actor: { id: string | null; username: string | null; role: string | null };
+  target?: string | null;
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown> | null;
+  ip?: string | null;
+  at: string;
+};
+
+type AuditPage = { entries: AuditEntry[]; nextBefore: string | null };
+
+// a trailing dot matches the whole group on the server
+const ACTIONS: { value: string; label: string }[] = [
+  { value: "", label: "All actions" },
+  { value: "audio.delete", label: "Recording deleted" },
+  { value: "audio.phone_reveal", label: "Phone number revealed" },
+  { value: "privacy.", label: "Retention job" },
+  { value: "giveaway.", label: "Giveaways" },
+  { value: "content.", label: "Content changed" },
+  { value: "episode.", label: "Episodes" },
+  { value: "image.upload", label: "Image uploaded" },
+  { value: "user.", label: "User management" },
+  { value: "2fa.", label: "2FA changes" },
+];
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [action, setAction] = useState("");
+  const [user, setUser] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const fetchEntries = async (before?: string) => {
+    setLoading(true);
+    try {
+      const res = await adminApi.get<AuditPage>(`${API_BASE}/api/audit`, {
+        params: {
+          action: action || undefined,
+          user: user.trim() || undefined,
+          before,
+        },
+      });
+      setEntries((prev) =>
+        before ? [...prev, ...res.data.entries] : res.data.entries
+      );
+      setNextBefore(res.data.nextBefore);
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action]);
+
+  const hasChange = (e: AuditEntry) => e.before != null || e.after != null;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6 text-center">Audit Log</h2>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          fetchEntries();
+        }}
+        className="flex gap-2 mb-4"
+      >
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className="p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+        >
+          {ACTIONS.map((a) => (
+            <option key={a.value} value={a.value}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Username"
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          className="flex-1 min-w-0 p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+        />
+        <button
+          type="submit"
+          className="bg-blue-600 text-secondary px-4 py-2 rounded"
+        >
+          Filter
+        </button>
+      </form>
+
+      {!loading && entries.length === 0 ? (
+        <p className="text-center text-sm">No entries.</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((e) => (
+            <li
+              key={e.id}
+              className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg text-sm"
+            >
+              <div className="flex justify-between gap-4">
+                <span className="font-semibold">
+                  {e.action}
+                  {e.target ? ` · ${e.target}` : ""}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {new Date(e.at).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {e.actor?.username ?? "unknown"}
+                {e.actor?.role ? ` (${e.actor.role})` : ""}
+                {e.ip ? ` from ${e.ip}` : ""}
+              </p>
+              {(hasChange(e) || e.details) && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs">Details</summary>
+                  <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                    {e.before != null && (
+                      <div>
+                        <p className="text-xs font-semibold">Before</p>
+                        <pre className="text-xs overflow-auto max-h-60 p-2 rounded bg-white dark:bg-gray-900">
+                          {JSON.stringify(e.before, null, 2)}
+                        </pre>
+                      </div>
+                    )}
+                    {e.after != null && (
+                      <div>
+                        <p className="text-xs font-semibold">After</p>
+                        <pre className="text-xs overflow-auto max-h-60 p-2 rounded bg-white dark:bg-gray-900">
+                          {JSON.stringify(e.after, null, 2)}
+                        </pre>
+                      </div>
+                    )}
+                    {e.details && (
+                      <pre className="text-xs overflow-auto p-2 rounded bg-white dark:bg-gray-900">
+                        {JSON.stringify(e.details, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {loading && <p className="text-center p-4">Loading...</p>}
+
+      {nextBefore && !loading && (
+        <button
+          onClick={() => fetchEntries(nextBefore)}
+          className="mt-4 w-full text-sm underline"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import {
+  endSession,
+  getAccessToken,
+  onAccessTokenChange,
+  refreshAccessToken,
+  startSession,
+} from "../utils/adminApi";
+import { sessionFromToken } from "../utils/adminSession";
+import { AuthContext } from "../utils/authContext";
+
+// renew this long before the access token runs out
+const RENEW_BEFORE_MS = 60 * 1000;
+
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const [token, setToken] = useState<string | null>(getAccessToken());
+  const [ready, setReady] = useState(false);
+
+  // pick up an existing session from the refresh cookie
+  useEffect(() => {
+    const unsubscribe = onAccessTokenChange(setToken);
+    // tokens used to be kept here; they're memory-only now
+    localStorage.removeItem("admin-token");
+    (getAccessToken() ? Promise.resolve() : refreshAccessToken())
+      .catch((err) => console.warn("Session refresh failed:", err))
+      .finally(() => setReady(true));
+    return unsubscribe;
+  }, []);
+
+  const session = useMemo(() => sessionFromToken(token), [token]);
+
+  // renew quietly before expiry so open tabs never hit a 401
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const delay = Math.max(session.expiresAt - Date.now() - RENEW_BEFORE_MS, 0);
+    const id = window.setTimeout(() => {
+      refreshAccessToken().catch((err) =>
+        console.warn("Session refresh failed:", err)
+      );
+    }, delay);
+    return () => window.clearTimeout(id);
+  }, [session]);
+
+  const value = useMemo(
+    () => ({
+      token,
+      session,
+      ready,
+      login: (username: string, password: string) =>
+        startSession("/api/auth/login", { username, password }),
+      verifyLogin: (
+        mfaToken: string,
+        proof: { code: string } | { recoveryCode: string }
+      ) => startSession("/api/auth/login/verify", { mfaToken, ...proof }),
+      acceptInvite: (inviteToken: string, password: string) =>
+        startSession("/api/auth/accept-invite", {
+          token: inviteToken,
+          password,
+        }),
+      logout: endSession,
+    }),
+    [token, session, ready]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
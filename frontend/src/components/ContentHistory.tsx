@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { adminApi } from "../utils/adminApi";
+
+type Author = { id: string | null; username: string | null } | null;
+
+type VersionSummary = {
+  id: string;
+  savedAt: string | null;
+  savedBy: Author;
+  replacedAt: string | null;
+  replacedBy: Author;
+  reason: "replace" | "merge" | "restore" | "publish" | null;
+};
+
+// `from` is the current value, `to` what restoring the version gives
+type Change = { path: string; from: unknown; to: unknown };
+
+type VersionDetail = VersionSummary & { changes: Change[] };
+
+const show = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+
+const when = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString() : "unknown time";
+
+export default function ContentHistory({
+  revision,
+  onRestored,
+}: {
+  revision: number;
+  onRestored: () => void;
+}) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [selected, setSelected] = useState<VersionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const errorMessage = (err: unknown) =>
+    (axios.isAxiosError(err) && err.response?.data?.message) ||
+    "Request failed (see console).";
+
+  const fetchVersions = async () => {
+    try {
+      const res = await adminApi.get<VersionSummary[]>(
+        `${API_BASE}/api/content/versions`
+      );
+      setVersions(res.data || []);
+    } catch (err) {
+      console.error("Error fetching content versions:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelected(null);
+    fetchVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [revision]);
+
+  const handleSelect = async (id: string) => {
+    if (selected?.id === id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const res = await adminApi.get<VersionDetail>(
+        `${API_BASE}/api/content/versions/${id}`
+      );
+      setSelected(res.data);
+    } catch (err) {
+      console.error("Error fetching version:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleRestore = async (version: VersionDetail) => {
+    if (
+      !window.confirm(
+        `Restore the content saved ${when(
+          version.savedAt
+        )}? The current content stays in the history.`
+      )
+    )
+      return;
+    try {
+      await adminApi.post(
+        `${API_BASE}/api/content/versions/${version.id}/restore`
+      );
+      onRestored();
+    } catch (err) {
+      console.error("Restore failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  if (loading) return <p className="text-center p-4">Loading history...</p>;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6 text-center">Content History</h2>
+
+      {versions.length === 0 ? (
+        <p className="text-center text-sm">No earlier versions yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {versions.map((v) => (
+            <li
+              key={v.id}
+              className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg text-sm"
+            >
+              <button
+                onClick={() => handleSelect(v.id)}
+                className="w-full text-left"
+              >
+                <span className="font-semibold">{when(v.savedAt)}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {" "}
+                  by {v.savedBy?.username ?? "unknown"}
+                </span>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Replaced ({v.reason ?? "edit"}) by{" "}
+                  {v.replacedBy?.username ?? "unknown"} on {when(v.replacedAt)}
+                </p>
+              </button>
+
+              {selected?.id === v.id && (
+                <div className="mt-3">
+                  {selected.changes.length === 0 ? (
+                    <p className="text-xs">Same as the current content.</p>
+                  ) : (
+                    <table className="w-full text-xs table-fixed">
+                      <thead>
+                        <tr className="text-left">
+                          <th className="w-1/4 pb-1">Field</th>
+                          <th className="pb-1">Current</th>
+                          <th className="pb-1">This version</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selected.changes.map((c) => (
+                          <tr key={c.path} className="align-top">
+                            <td className="pr-2 font-mono break-all">
+                              {c.path}
+                            </td>
+                            <td className="pr-2 break-words text-red-600 dark:text-red-400">
+                              {show(c.from)}
+                            </td>
+                            <td className="break-words text-green-600 dark:text-green-400">
+                              {show(c.to)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <button
+                    onClick={() => handleRestore(selected)}
+                    disabled={selected.changes.length === 0}
+                    className="mt-3 w-full bg-blue-600 text-secondary px-4 py-2 rounded disabled:opacity-50"
+                  >
+                    Restore this version
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
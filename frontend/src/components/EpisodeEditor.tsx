@@ -0,0 +1,441 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { adminApi } from "../utils/adminApi";
+import { formatTimestamp } from "../utils/episodes";
+import type { Episode, EpisodeInput } from "../utils/episodes";
+
+type Form = {
+  title: string;
+  description: string;
+  publishedAt: string; // datetime-local value
+  youtubeLink: string;
+  spotifyLink: string;
+  coverImage: string;
+  showNotes: string;
+  tags: string; // comma separated
+  episodeNumber: string;
+  explicit: boolean;
+};
+
+type TextField = Exclude<keyof Form, "explicit">;
+
+type FeedCheck = {
+  feedUrl: string;
+  problems: { level: "error" | "warning"; message: string }[];
+};
+
+// datetime-local wants local time without seconds or zone
+const toLocalInput = (iso: string) => {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const emptyForm = (): Form => ({
+  title: "",
+  description: "",
+  publishedAt: toLocalInput(new Date().toISOString()),
+  youtubeLink: "",
+  spotifyLink: "",
+  coverImage: "",
+  showNotes: "",
+  tags: "",
+  episodeNumber: "",
+  explicit: false,
+});
+
+const formFromEpisode = (e: Episode): Form => ({
+  title: e.title,
+  description: e.description ?? "",
+  publishedAt: toLocalInput(e.publishedAt),
+  youtubeLink: e.youtubeLink ?? "",
+  spotifyLink: e.spotifyLink ?? "",
+  coverImage: e.coverImage ?? "",
+  showNotes: e.showNotes ?? "",
+  tags: e.tags.join(", "),
+  episodeNumber: e.episodeNumber ? String(e.episodeNumber) : "",
+  explicit: !!e.explicit,
+});
+
+// empty optional fields are left out rather than stored as ""
+const episodeFromForm = (f: Form): EpisodeInput => {
+  const optional = (value: string) => value.trim() || undefined;
+  return {
+    title: f.title.trim(),
+    description: optional(f.description),
+    publishedAt: new Date(f.publishedAt).toISOString(),
+    youtubeLink: optional(f.youtubeLink),
+    spotifyLink: optional(f.spotifyLink),
+    coverImage: optional(f.coverImage),
+    showNotes: optional(f.showNotes),
+    tags: f.tags
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean),
+    episodeNumber: Number.parseInt(f.episodeNumber, 10) || undefined,
+    explicit: f.explicit,
+  };
+};
+
+const inputClass =
+  "w-full p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-black dark:text-white";
+
+export default function EpisodeEditor() {
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [loading, setLoading] = useState(true);
+  // id of the episode being edited, "new" for a new one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<Form>(emptyForm);
+  const [uploading, setUploading] = useState(false);
+  const [feed, setFeed] = useState<FeedCheck | null>(null);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const errorMessage = (err: unknown) =>
+    (axios.isAxiosError(err) && err.response?.data?.message) ||
+    "Request failed (see console).";
+
+  const fetchEpisodes = async () => {
+    try {
+      const res = await adminApi.get<Episode[]>(`${API_BASE}/api/episodes/all`);
+      setEpisodes(res.data || []);
+    } catch (err) {
+      console.error("Error fetching episodes:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchFeedCheck = async () => {
+    try {
+      const res = await adminApi.get<FeedCheck>(`${API_BASE}/api/feed/check`);
+      setFeed(res.data);
+    } catch (err) {
+      console.error("Error checking feed:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchEpisodes();
+    fetchFeedCheck();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const current = episodes.find((e) => e.id === editing);
+
+  const startEdit = (episode: Episode | null) => {
+    setEditing(episode ? episode.id : "new");
+    setForm(episode ? formFromEpisode(episode) : emptyForm());
+  };
+
+  const handleCoverSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const data = new FormData();
+    data.append("image", file);
+    setUploading(true);
+    try {
+      const res = await adminApi.post<{ imageUrl: string }>(
+        `${API_BASE}/uploadimage?type=episode`,
+        data
+      );
+      setForm((prev) => ({ ...prev, coverImage: res.data.imageUrl }));
+    } catch (err) {
+      console.error("Cover upload failed:", err);
+      alert("Cover upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = episodeFromForm(form);
+    try {
+      if (editing === "new") {
+        await adminApi.post(`${API_BASE}/api/episodes`, body);
+      } else {
+        await adminApi.put(`${API_BASE}/api/episodes/${editing}`, body);
+      }
+      setEditing(null);
+      fetchEpisodes();
+      fetchFeedCheck();
+    } catch (err) {
+      console.error("Saving episode failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleAudioSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !current) return;
+    const data = new FormData();
+    data.append("audio", file);
+    setUploading(true);
+    try {
+      const res = await adminApi.post<Episode>(
+        `${API_BASE}/api/episodes/${current.id}/audio`,
+        data
+      );
+      setEpisodes((prev) =>
+        prev.map((ep) => (ep.id === current.id ? res.data : ep))
+      );
+      fetchFeedCheck();
+    } catch (err) {
+      console.error("Audio upload failed:", err);
+      alert(errorMessage(err));
+    } finally {
+      setUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleDelete = async (episode: Episode) => {
+    if (!window.confirm(`Delete episode "${episode.title}"?`)) return;
+    try {
+      await adminApi.delete(`${API_BASE}/api/episodes/${episode.id}`);
+      setEpisodes((prev) => prev.filter((e) => e.id !== episode.id));
+      fetchFeedCheck();
+    } catch (err) {
+      console.error("Deleting episode failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  if (loading) return <p className="text-center p-4">Loading episodes...</p>;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6 text-center">Episodes</h2>
+
+      {editing ? (
+        <form onSubmit={handleSave} className="flex flex-col gap-3">
+          {[
+            { label: "Title", name: "title" },
+            { label: "Description", name: "description", textarea: true },
+            { label: "YouTube link", name: "youtubeLink" },
+            { label: "Spotify link", name: "spotifyLink" },
+            { label: "Tags (comma separated)", name: "tags" },
+            { label: "Show notes", name: "showNotes", textarea: true },
+          ].map(({ label, name, textarea }) => (
+            <div key={name}>
+              <label className="block text-sm font-medium mb-1">{label}</label>
+              {textarea ? (
+                <textarea
+                  name={name}
+                  value={form[name as TextField]}
+                  onChange={handleChange}
+                  rows={4}
+                  className={inputClass}
+                />
+              ) : (
+                <input
+                  name={name}
+                  value={form[name as TextField]}
+                  onChange={handleChange}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Publish date (future episodes stay hidden until then)
+            </label>
+            <input
+              type="datetime-local"
+              name="publishedAt"
+              value={form.publishedAt}
+              onChange={handleChange}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label className="block text-sm font-medium mb-1">
+                Episode number
+              </label>
+              <input
+                type="number"
+                min={1}
+                name="episodeNumber"
+                value={form.episodeNumber}
+                onChange={handleChange}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <input
+                type="checkbox"
+                checked={form.explicit}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, explicit: e.target.checked }))
+                }
+              />
+              Explicit content
+            </label>
+          </div>
+
+          {current && (
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Episode audio for the podcast feed (MP3 or M4A)
+              </label>
+              {current.audio && (
+                <audio
+                  controls
+                  src={current.audio.url}
+                  className="w-full mb-2"
+                />
+              )}
+              <input
+                type="file"
+                accept="audio/mpeg,audio/mp4,audio/x-m4a,.mp3,.m4a"
+                onChange={handleAudioSelect}
+                className={inputClass}
+              />
+              {current.audio && (
+                <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+                  {formatTimestamp(current.audio.duration)},{" "}
+                  {(current.audio.size / 1024 / 1024).toFixed(1)} MB
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Cover art</label>
+            <input
+              type="file"
+              accept="image/jpeg,image/png"
+              onChange={handleCoverSelect}
+              className={inputClass}
+            />
+            {uploading && <p className="text-sm mt-1">Uploading...</p>}
+            {form.coverImage && (
+              <img
+                src={form.coverImage}
+                alt="Cover preview"
+                className="mt-2 h-32 w-32 object-cover rounded shadow"
+              />
+            )}
+          </div>
+
+          <div className="flex gap-2 mt-2">
+            <button
+              type="submit"
+              disabled={!form.title.trim() || !form.publishedAt || uploading}
+              className="flex-1 bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition disabled:opacity-50"
+            >
+              {editing === "new" ? "Add episode" : "Save episode"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 rounded border border-gray-300 dark:border-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <button
+            onClick={() => startEdit(null)}
+            className="w-full mb-4 bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition"
+          >
+            New episode
+          </button>
+          {episodes.length === 0 ? (
+            <p className="text-center text-sm">No episodes yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {episodes.map((episode) => {
+                const upcoming = Date.parse(episode.publishedAt) > Date.now();
+                return (
+                  <li
+                    key={episode.id}
+                    className="flex items-center justify-between gap-4 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">{episode.title}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {upcoming ? "Goes live " : ""}
+                        {new Date(episode.publishedAt).toLocaleString()}
+                        {episode.audio ? "" : " · no audio"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm">
+                      <button
+                        onClick={() => startEdit(episode)}
+                        className="hover:text-gray-400"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(episode)}
+                        className="text-red-500 hover:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {feed && (
+            <div className="mt-6 text-sm">
+              <p className="font-medium mb-1">
+                Podcast feed:{" "}
+                <a
+                  href={feed.feedUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="underline break-all"
+                >
+                  {feed.feedUrl}
+                </a>
+              </p>
+              {feed.problems.length === 0 ? (
+                <p className="text-green-600 dark:text-green-400">
+                  Ready for Apple Podcasts and Spotify.
+                </p>
+              ) : (
+                <ul className="list-disc pl-5 space-y-1">
+                  {feed.problems.map((p) => (
+                    <li
+                      key={p.message}
+                      className={
+                        p.level === "error"
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-yellow-600 dark:text-yellow-400"
+                      }
+                    >
+                      {p.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { FaSpotify, FaYoutube } from "react-icons/fa";
+import {
+  formatEpisodeDate,
+  formatTimestamp,
+  youtubeEmbedUrl,
+  youtubeUrlAt,
+} from "../utils/episodes";
+import type { Episode } from "../utils/episodes";
+
+interface EpisodeListProps {
+  // shown while there are no episodes yet (the old single videoLink)
+  fallback?: ReactNode;
+}
+
+const RECENT_COUNT = 6;
+
+const EpisodeLinks = ({ episode }: { episode: Episode }) => (
+  <div className="flex gap-4 text-2xl">
+    {episode.spotifyLink && (
+      <a
+        href={episode.spotifyLink}
+        target="_blank"
+        rel="noopener noreferrer"
+        aria-label="Kuula Spotifys"
+        className="text-green-600 hover:text-green-800"
+      >
+        <FaSpotify />
+      </a>
+    )}
+    {episode.youtubeLink && (
+      <a
+        href={episode.youtubeLink}
+        target="_blank"
+        rel="noopener noreferrer"
+        aria-label="Vaata YouTubes"
+        className="text-red-600 hover:text-red-800"
+      >
+        <FaYoutube />
+      </a>
+    )}
+  </div>
+);
+
+const EpisodeList: React.FC<EpisodeListProps> = ({ fallback = null }) => {
+  const [episodes, setEpisodes] = useState<Episode[] | null>(null);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  useEffect(() => {
+    fetch(`${API_BASE}/api/episodes?limit=${RECENT_COUNT}`)
+      .then((res) => res.json())
+      .then((data) => setEpisodes(Array.isArray(data) ? data : []))
+      .catch((err) => {
+        console.error("Failed to fetch episodes:", err);
+        setEpisodes([]);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (episodes === null) return null;
+  if (episodes.length === 0) return <>{fallback}</>;
+
+  const [latest, ...earlier] = episodes;
+  const embed = youtubeEmbedUrl(latest.youtubeLink);
+
+  return (
+    <section className="w-full max-w-screen-xl mx-auto px-2 sm:px-12 my-8">
+      <p className="text-sm uppercase tracking-wide text-center mb-1">
+        Uusim osa
+      </p>
+      <h2 className="text-2xl font-semibold mb-1 text-center">
+        {latest.title}
+      </h2>
+      <p className="text-sm text-center mb-4 opacity-75">
+        {formatEpisodeDate(latest.publishedAt)}
+      </p>
+
+      {embed ? (
+        <div className="w-full" style={{ aspectRatio: "16 / 9" }}>
+          <iframe
+            className="w-full h-full rounded"
+            src={embed}
+            title={latest.title}
+            frameBorder="0"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          ></iframe>
+        </div>
+      ) : (
+        <>
+          {latest.coverImage && (
+            <img
+              src={latest.coverImage}
+              alt={latest.title}
+              className="w-full max-w-sm mx-auto rounded shadow"
+            />
+          )}
+          {latest.audio && (
+            <audio controls src={latest.audio.url} className="w-full mt-4" />
+          )}
+        </>
+      )}
+
+      {latest.description && (
+        <p className="mt-4 whitespace-pre-wrap">{latest.description}</p>
+      )}
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+        <EpisodeLinks episode={latest} />
+        {latest.tags.length > 0 && (
+          <ul className="flex flex-wrap gap-2 text-xs">
+            {latest.tags.map((tag) => (
+              <li key={tag} className="px-2 py-1 rounded-full border">
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {latest.answeredMessages && latest.answeredMessages.length > 0 && (
+        <div className="mt-4">
+          <h3 className="font-medium mb-1">Teie küsimused selles osas</h3>
+          <ul className="text-sm space-y-1">
+            {latest.answeredMessages.map((m, i) => {
+              const at =
+                m.timestamp != null
+                  ? youtubeUrlAt(latest.youtubeLink, m.timestamp)
+                  : null;
+              return (
+                <li key={i}>
+                  {m.timestamp != null &&
+                    (at ? (
+                      <a
+                        href={at}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline mr-2"
+                      >
+                        {formatTimestamp(m.timestamp)}
+                      </a>
+                    ) : (
+                      <span className="mr-2">
+                        {formatTimestamp(m.timestamp)}
+                      </span>
+                    ))}
+                  {m.title || "Kuulaja küsimus"}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      {latest.showNotes && (
+        <details className="mt-4">
+          <summary className="cursor-pointer font-medium">
+            Saate märkmed
+          </summary>
+          <p className="mt-2 text-sm whitespace-pre-wrap">{latest.showNotes}</p>
+        </details>
+      )}
+
+      {earlier.length > 0 && (
+        <>
+          <h3 className="text-xl font-semibold mt-10 mb-4 text-center">
+            Varasemad osad
+          </h3>
+          <ul className="space-y-4">
+            {earlier.map((episode) => (
+              <li key={episode.id} className="flex gap-4 items-center">
+                {episode.coverImage && (
+                  <img
+                    src={episode.coverImage}
+                    alt=""
+                    className="w-16 h-16 object-cover rounded shrink-0"
+                  />
+                )}
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold truncate">{episode.title}</p>
+                  <p className="text-xs opacity-75">
+                    {formatEpisodeDate(episode.publishedAt)}
+                  </p>
+                  {episode.description && (
+                    <p className="text-sm line-clamp-2">
+                      {episode.description}
+                    </p>
+                  )}
+                </div>
+                <EpisodeLinks episode={episode} />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default EpisodeList;
@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import RevealedPhoneNumber from "./RevealedPhoneNumber";
+import { adminApi } from "../utils/adminApi";
+import type { RevealedPhone } from "../utils/phoneNumber";
+
+type Entry = {
+  recordId: string;
+  title: string;
+  fileName: string;
+  uploadedAt: string;
+};
+
+type Draw = {
+  seed: string;
+  drawnAt: string;
+  drawnBy?: string;
+  eligibleCount: number;
+  winners: Entry[];
+  verified: boolean; // repeating the draw from the seed gives these winners
+};
+
+type Giveaway = {
+  id: string;
+  name: string;
+  description?: string;
+  startsAt: string;
+  endsAt: string;
+  winnersCount: number;
+  createdAt: string;
+  createdBy?: string;
+  draw: Draw | null;
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString("et-EE");
+
+// gift raffles among listeners who left a phone number; owner only
+export default function GiveawayManager() {
+  const [giveaways, setGiveaways] = useState<Giveaway[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [winnersCount, setWinnersCount] = useState(1);
+  // entry lists opened in this visit, by giveaway id
+  const [entries, setEntries] = useState<Record<string, Entry[]>>({});
+  const [seeds, setSeeds] = useState<Record<string, string>>({});
+  // numbers revealed in this visit, by record id
+  const [phones, setPhones] = useState<Record<string, RevealedPhone>>({});
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const errorMessage = (err: unknown) =>
+    (axios.isAxiosError(err) && err.response?.data?.message) ||
+    "Request failed (see console).";
+
+  const fetchGiveaways = async () => {
+    try {
+      const res = await adminApi.get<Giveaway[]>(`${API_BASE}/api/giveaways`);
+      setGiveaways(res.data || []);
+    } catch (err) {
+      console.error("Error fetching giveaways:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGiveaways();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const res = await adminApi.post<Giveaway>(`${API_BASE}/api/giveaways`, {
+        name: name.trim(),
+        ...(description.trim() ? { description: description.trim() } : {}),
+        // datetime-local values are local time
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        winnersCount,
+      });
+      setGiveaways((prev) => [res.data, ...prev]);
+      setName("");
+      setDescription("");
+      setStartsAt("");
+      setEndsAt("");
+      setWinnersCount(1);
+    } catch (err) {
+      console.error("Creating giveaway failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const toggleEntries = async (giveaway: Giveaway) => {
+    if (entries[giveaway.id]) {
+      setEntries((prev) => {
+        const next = { ...prev };
+        delete next[giveaway.id];
+        return next;
+      });
+      return;
+    }
+    try {
+      const res = await adminApi.get<Entry[]>(
+        `${API_BASE}/api/giveaways/${giveaway.id}/entries`
+      );
+      setEntries((prev) => ({ ...prev, [giveaway.id]: res.data || [] }));
+    } catch (err) {
+      console.error("Error fetching entries:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleDraw = async (giveaway: Giveaway) => {
+    if (
+      !window.confirm(`Draw the winners of "${giveaway.name}"? This is final.`)
+    )
+      return;
+    const seed = seeds[giveaway.id]?.trim();
+    try {
+      const res = await adminApi.post<Giveaway>(
+        `${API_BASE}/api/giveaways/${giveaway.id}/draw`,
+        seed ? { seed } : {}
+      );
+      setGiveaways((prev) =>
+        prev.map((g) => (g.id === giveaway.id ? res.data : g))
+      );
+    } catch (err) {
+      console.error("Draw failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleDelete = async (giveaway: Giveaway) => {
+    if (!window.confirm(`Delete giveaway "${giveaway.name}"?`)) return;
+    try {
+      await adminApi.delete(`${API_BASE}/api/giveaways/${giveaway.id}`);
+      setGiveaways((prev) => prev.filter((g) => g.id !== giveaway.id));
+    } catch (err) {
+      console.error("Delete failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const handleRevealPhone = async (entry: Entry) => {
+    try {
+      const res = await adminApi.post<RevealedPhone>(
+        `${API_BASE}/audio/records/${entry.recordId}/reveal-phone`
+      );
+      setPhones((prev) => ({ ...prev, [entry.recordId]: res.data }));
+    } catch (err) {
+      console.error("Revealing phone number failed:", err);
+      alert(errorMessage(err));
+    }
+  };
+
+  if (loading) return <p className="text-center p-4">Loading giveaways...</p>;
+
+  const inputClass =
+    "p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800";
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6 text-center">Giveaways</h2>
+
+      <form onSubmit={handleCreate} className="flex flex-col gap-2 mb-6">
+        <label className="block text-sm font-medium">New giveaway</label>
+        <input
+          type="text"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClass}
+        />
+        <textarea
+          placeholder="Description (optional)"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClass}
+        />
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            Messages from
+            <input
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Until
+            <input
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          Winners
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={winnersCount}
+            onChange={(e) => setWinnersCount(Number(e.target.value) || 1)}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={!name.trim() || !startsAt || !endsAt}
+          className="bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition disabled:opacity-50"
+        >
+          Create giveaway
+        </button>
+      </form>
+
+      {giveaways.length === 0 ? (
+        <p className="text-center text-gray-500">No giveaways yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {giveaways.map((giveaway) => {
+            const open = Date.parse(giveaway.endsAt) > Date.now();
+            const shown = entries[giveaway.id];
+            return (
+              <li
+                key={giveaway.id}
+                className="bg-gray-50 dark:bg-gray-800 p-3 rounded-lg text-sm"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold truncate">{giveaway.name}</p>
+                    {giveaway.description && <p>{giveaway.description}</p>}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(giveaway.startsAt)} –{" "}
+                      {formatDate(giveaway.endsAt)} · {giveaway.winnersCount}{" "}
+                      {giveaway.winnersCount === 1 ? "winner" : "winners"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(giveaway)}
+                    className="text-red-500 hover:text-red-400"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                <button
+                  onClick={() => toggleEntries(giveaway)}
+                  className="mt-2 underline"
+                >
+                  {shown ? "Hide entries" : "Show entries"}
+                </button>
+                {shown && (
+                  <ul className="mt-1 text-xs space-y-1">
+                    {shown.length === 0 && <li>No entries.</li>}
+                    {shown.map((entry) => (
+                      <li key={entry.recordId}>
+                        {entry.title} · {formatDate(entry.uploadedAt)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {giveaway.draw ? (
+                  <div className="mt-3">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Drawn {formatDate(giveaway.draw.drawnAt)}
+                      {giveaway.draw.drawnBy
+                        ? ` by ${giveaway.draw.drawnBy}`
+                        : ""}{" "}
+                      from {giveaway.draw.eligibleCount} entries · seed{" "}
+                      <code>{giveaway.draw.seed}</code>
+                      {!giveaway.draw.verified && (
+                        <span className="text-red-500">
+                          {" "}
+                          · does not match its seed
+                        </span>
+                      )}
+                    </p>
+                    {giveaway.draw.winners.length === 0 ? (
+                      <p>No one was eligible.</p>
+                    ) : (
+                      <ol className="list-decimal ml-5 mt-1 space-y-1">
+                        {giveaway.draw.winners.map((winner) => (
+                          <li key={winner.recordId}>
+                            {winner.title} · {formatDate(winner.uploadedAt)} ·{" "}
+                            {phones[winner.recordId] ? (
+                              <RevealedPhoneNumber
+                                {...phones[winner.recordId]}
+                              />
+                            ) : (
+                              <button
+                                onClick={() => handleRevealPhone(winner)}
+                                className="underline"
+                              >
+                                Reveal phone
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                ) : open ? (
+                  <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                    Open until {formatDate(giveaway.endsAt)}; draw after that.
+                  </p>
+                ) : (
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="Seed (optional, e.g. announced on air)"
+                      value={seeds[giveaway.id] ?? ""}
+                      onChange={(e) =>
+                        setSeeds((prev) => ({
+                          ...prev,
+                          [giveaway.id]: e.target.value,
+                        }))
+                      }
+                      className={`${inputClass} flex-1`}
+                    />
+                    <button
+                      onClick={() => handleDraw(giveaway)}
+                      className="bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition"
+                    >
+                      Draw winners
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,30 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { adminFetch } from "../utils/adminApi";
+import { useAuth } from "../utils/authContext";
 
-const PageDataEditor = () => {
-  const token = localStorage.getItem("admin-token");
-  const [authorized, setAuthorized] = useState(!!token);
+type PublishInfo = {
+  status: "draft" | "scheduled" | "published";
+  publishAt?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+// datetime-local wants local time without seconds or zone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+// Edits are saved to a draft; onSaved tells the dashboard when the live
+// content changed (published), so it can refresh the version history
+const PageDataEditor = ({ onSaved }: { onSaved?: () => void }) => {
+  const { token } = useAuth();
+  const signedIn = !!token;
+  const [authorized, setAuthorized] = useState(signedIn);
   const [loading, setLoading] = useState(true);
   const [formData, setFormData] = useState({
     coverImage: "",
@@ -15,8 +37,13 @@ const PageDataEditor = () => {
     youtube: "",
     instagram: "",
     brand: "",
+    consentText: "",
   });
 
+  // publish metadata of the draft, null when the editor shows live content
+  const [draft, setDraft] = useState<PublishInfo | null>(null);
+  const [publishAt, setPublishAt] = useState("");
+
   const [previewDesktop, setPreviewDesktop] = useState("");
   const [previewMobile, setPreviewMobile] = useState("");
   const [selectedDesktopFile, setSelectedDesktopFile] = useState<File | null>(
@@ -32,20 +59,27 @@ const PageDataEditor = () => {
     : "http://localhost:4000";
 
   useEffect(() => {
-    if (!token) {
+    if (!signedIn) {
       setAuthorized(false);
       setLoading(false);
       return;
     }
 
-    fetch(`${API_BASE}/api/content`, {
-      headers: { Authorization: `Bearer ${token}` },
-    })
+    // the draft if there is one, otherwise the live content
+    adminFetch(`${API_BASE}/api/content/draft`)
       .then((res) => {
         if (!res.ok) throw new Error("Unauthorized");
         return res.json();
       })
+      .then(
+        (draftData) =>
+          draftData ??
+          adminFetch(`${API_BASE}/api/content`).then((res) => res.json())
+      )
       .then((data) => {
+        const publish: PublishInfo | undefined = data.publish;
+        setDraft(publish && publish.status !== "published" ? publish : null);
+        setPublishAt(toLocalInput(publish?.publishAt));
         setFormData({
           coverImage: data.coverImage || "",
           mobileImage: data.mobileImage || "",
@@ -57,6 +91,7 @@ const PageDataEditor = () => {
           youtube: data.socials?.youtube || "",
           instagram: data.socials?.instagram || "",
           brand: data.footer?.brand || "",
+          consentText: data.consent?.text || "",
         });
         setPreviewDesktop(data.coverImage || "");
         setPreviewMobile(data.mobileImage || "");
@@ -64,7 +99,7 @@ const PageDataEditor = () => {
       })
       .catch(() => setAuthorized(false))
       .finally(() => setLoading(false));
-  }, [token]);
+  }, [signedIn]);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -91,12 +126,11 @@ const PageDataEditor = () => {
     const form = new FormData();
     form.append("image", file);
 
-    const res = await fetch(
+    const res = await adminFetch(
       `${API_BASE}/uploadimage${type === "mobile" ? "?type=mobile" : ""}`,
       {
         method: "POST",
         body: form,
-        headers: { Authorization: `Bearer ${token}` },
       }
     );
 
@@ -105,7 +139,8 @@ const PageDataEditor = () => {
     return data.imageUrl;
   };
 
-  const handleSubmit = async () => {
+  // uploads picked images, then saves everything as the draft
+  const saveDraft = async (): Promise<boolean> => {
     let desktopUrl = formData.coverImage;
     let mobileUrl = formData.mobileImage;
 
@@ -118,7 +153,7 @@ const PageDataEditor = () => {
       }
     } catch (err) {
       alert(err instanceof Error ? err.message : "Upload failed");
-      return;
+      return false;
     }
 
     const payload = {
@@ -136,23 +171,102 @@ const PageDataEditor = () => {
         instagram: formData.instagram,
       },
       footer: { brand: formData.brand },
+      // left out, the recorder shows the backend's default text
+      ...(formData.consentText.trim()
+        ? { consent: { text: formData.consentText.trim() } }
+        : {}),
     };
 
-    const res = await fetch(`${API_BASE}/api/content`, {
-      method: "POST",
+    const res = await adminFetch(`${API_BASE}/api/content/draft`, {
+      method: "PUT",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify(payload),
     });
 
+    if (!res.ok) {
+      alert("Failed to save draft.");
+      return false;
+    }
+    const saved = await res.json();
+    setDraft(saved.publish);
+    setFormData((prev) => ({
+      ...prev,
+      coverImage: desktopUrl,
+      mobileImage: mobileUrl,
+    }));
+    setSelectedDesktopFile(null);
+    setSelectedMobileFile(null);
+    return true;
+  };
+
+  const handleSaveDraft = async () => {
+    if (await saveDraft()) alert("Draft saved.");
+  };
+
+  const handlePublish = async () => {
+    if (!window.confirm("Publish these changes to the live site now?")) return;
+    if (!(await saveDraft())) return;
+
+    const res = await adminFetch(`${API_BASE}/api/content/draft/publish`, {
+      method: "POST",
+    });
+    if (res.ok) {
+      alert("Content published!");
+      setDraft(null);
+      setPublishAt("");
+      onSaved?.();
+    } else {
+      alert("Failed to publish content.");
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!publishAt) return;
+    if (!(await saveDraft())) return;
+
+    const res = await adminFetch(`${API_BASE}/api/content/draft/schedule`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ publishAt: new Date(publishAt).toISOString() }),
+    });
+    const data = await res.json();
     if (res.ok) {
-      alert("Content updated successfully!");
-      setSelectedDesktopFile(null);
-      setSelectedMobileFile(null);
+      setDraft(data.publish);
+      alert(
+        `Scheduled for ${new Date(data.publish.publishAt).toLocaleString()}.`
+      );
     } else {
-      alert("Failed to update content.");
+      alert(data.message || "Failed to schedule.");
+    }
+  };
+
+  const handleUnschedule = async () => {
+    const res = await adminFetch(`${API_BASE}/api/content/draft/schedule`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setDraft((await res.json()).publish);
+      setPublishAt("");
+    } else {
+      alert("Failed to cancel the schedule.");
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (
+      !window.confirm("Throw away the draft and go back to the live content?")
+    )
+      return;
+    const res = await adminFetch(`${API_BASE}/api/content/draft`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      // remounts the editor with the live content
+      onSaved?.();
+    } else {
+      alert("Failed to discard draft.");
     }
   };
 
@@ -171,7 +285,30 @@ const PageDataEditor = () => {
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
-      <h2 className="text-2xl font-bold mb-6 text-center">Edit Page Content</h2>
+      <h2 className="text-2xl font-bold mb-2 text-center">Edit Page Content</h2>
+      <p className="mb-6 text-sm text-center text-gray-500 dark:text-gray-400">
+        {!draft
+          ? "Showing the live content. Saving creates a draft."
+          : draft.status === "scheduled" && draft.publishAt
+          ? `Draft, scheduled for ${new Date(
+              draft.publishAt
+            ).toLocaleString()}.`
+          : `Unpublished draft${
+              draft.updatedBy ? `, last saved by ${draft.updatedBy}` : ""
+            }.`}
+        {draft && (
+          <>
+            {" "}
+            <Link
+              to="/admin/preview"
+              target="_blank"
+              className="underline hover:text-gray-400"
+            >
+              Preview
+            </Link>
+          </>
+        )}
+      </p>
 
       {/* Desktop Image */}
       <div className="mb-4">
@@ -223,6 +360,12 @@ const PageDataEditor = () => {
         { label: "YouTube", name: "youtube" },
         { label: "Instagram", name: "instagram" },
         { label: "Brand Name", name: "brand" },
+        {
+          label:
+            "Voice message consent (changing it asks listeners to agree again; empty uses the default)",
+          name: "consentText",
+          textarea: true,
+        },
       ].map(({ label, name, textarea }) => (
         <div key={name} className="mb-4">
           <label className="block text-sm font-medium mb-1">{label}</label>
@@ -245,12 +388,57 @@ const PageDataEditor = () => {
         </div>
       ))}
 
-      <button
-        onClick={handleSubmit}
-        className="mt-4 bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded w-full transition"
-      >
-        Save Changes
-      </button>
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={handleSaveDraft}
+          className="flex-1 bg-blue-600 text-secondary px-4 py-2 rounded"
+        >
+          Save Draft
+        </button>
+        <button
+          onClick={handlePublish}
+          className="flex-1 bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition"
+        >
+          Publish Now
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <label className="block text-sm font-medium mb-1">
+          Publish later (e.g. a new episode drop)
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+            className="flex-1 p-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-black dark:text-white"
+          />
+          <button
+            onClick={handleSchedule}
+            disabled={!publishAt}
+            className="bg-blue-600 text-secondary px-4 py-2 rounded disabled:opacity-50"
+          >
+            Schedule
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="mt-4 flex gap-4 justify-center text-sm">
+          {draft.status === "scheduled" && (
+            <button onClick={handleUnschedule} className="underline">
+              Cancel schedule
+            </button>
+          )}
+          <button
+            onClick={handleDiscard}
+            className="text-red-500 hover:text-red-400"
+          >
+            Discard draft
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,12 @@
+import type { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "../utils/authContext";
+
+/** Admin pages: wait for the silent refresh, then render or go to login. */
+export default function RequireAuth({ children }: { children: ReactNode }) {
+  const { ready, token } = useAuth();
+
+  if (!ready) return <div className="text-center py-10">Loading...</div>;
+  if (!token) return <Navigate to="/admin/login" replace />;
+  return children;
+}
@@ -0,0 +1,25 @@
+import type { RevealedPhone } from "../utils/phoneNumber";
+
+// a revealed listener number: callable in E.164, with what they typed
+// on hover in case it differs
+export default function RevealedPhoneNumber({
+  phone,
+  phoneE164,
+}: RevealedPhone) {
+  if (!phoneE164) {
+    return (
+      <span className="font-medium" title="Not a valid phone number">
+        {phone} (unverified)
+      </span>
+    );
+  }
+  return (
+    <a
+      href={`tel:${phoneE164}`}
+      title={`Typed as: ${phone}`}
+      className="font-medium underline"
+    >
+      {phoneE164}
+    </a>
+  );
+}
@@ -0,0 +1,33 @@
+import Footer from "./Footer";
+import Header from "./Header";
+import HomePage from "../pages/HomePage";
+
+// what /api/content returns; HomePage reads the rest of the fields
+export type SiteContent = {
+  footer?: { brand?: string };
+  publish?: { status: string; publishAt?: string };
+  [key: string]: unknown;
+};
+
+/** The public page around HomePage; shared by App and the draft preview. */
+export default function SiteLayout({
+  contentData,
+}: {
+  contentData: SiteContent;
+}) {
+  return (
+    <div className="flex flex-col min-h-screen items-center">
+      <div className="w-full">
+        <Header />
+      </div>
+
+      <main className="flex-grow flex flex-col items-center justify-start w-full max-w-screen-md px-4">
+        <HomePage data={contentData} />
+      </main>
+
+      <footer className="w-full">
+        <Footer brand={contentData.footer?.brand || "Your Page Name"} />
+      </footer>
+    </div>
+  );
+}
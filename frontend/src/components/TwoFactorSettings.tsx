@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { adminApi } from "../utils/adminApi";
+
+type Status = { enabled: boolean; recoveryCodesLeft: number };
+type Setup = { secret: string; qrCode: string };
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<Status | null>(null);
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [code, setCode] = useState("");
+  // shown once, right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const errorMessage = (err: unknown) =>
+    (axios.isAxiosError(err) && err.response?.data?.message) ||
+    "Request failed (see console).";
+
+  const fetchStatus = async () => {
+    try {
+      const res = await adminApi.get<Status>(`${API_BASE}/api/auth/2fa`);
+      setStatus(res.data);
+    } catch (err) {
+      console.error("Error fetching 2FA status:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const run = async (action: () => Promise<void>, label: string) => {
+    try {
+      await action();
+      setCode("");
+      fetchStatus();
+    } catch (err) {
+      console.error(`${label} failed:`, err);
+      alert(errorMessage(err));
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const res = await adminApi.post<Setup>(`${API_BASE}/api/auth/2fa/setup`);
+      setSetup(res.data);
+      setRecoveryCodes(null);
+    }, "2FA setup");
+
+  const enable = () =>
+    run(async () => {
+      const res = await adminApi.post<{ recoveryCodes: string[] }>(
+        `${API_BASE}/api/auth/2fa/enable`,
+        { code }
+      );
+      setSetup(null);
+      setRecoveryCodes(res.data.recoveryCodes);
+    }, "2FA enable");
+
+  const newRecoveryCodes = () =>
+    run(async () => {
+      const res = await adminApi.post<{ recoveryCodes: string[] }>(
+        `${API_BASE}/api/auth/2fa/recovery-codes`,
+        { code }
+      );
+      setRecoveryCodes(res.data.recoveryCodes);
+    }, "Recovery codes");
+
+  const disable = () => {
+    if (!window.confirm("Turn off two-factor authentication?")) return;
+    run(async () => {
+      await adminApi.post(`${API_BASE}/api/auth/2fa/disable`, { code });
+      setRecoveryCodes(null);
+    }, "2FA disable");
+  };
+
+  if (!status) return null;
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full p-2 mb-2 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800"
+    />
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6 text-black dark:text-white bg-white dark:bg-gray-900 rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-4 text-center">
+        Two-factor authentication
+      </h2>
+
+      {status.enabled ? (
+        <>
+          <p className="mb-4 text-sm">
+            Enabled. {status.recoveryCodesLeft} recovery codes left.
+          </p>
+          {codeInput}
+          <div className="flex gap-2">
+            <button
+              onClick={newRecoveryCodes}
+              disabled={!code}
+              className="flex-1 bg-blue-600 text-secondary px-4 py-2 rounded disabled:opacity-50"
+            >
+              New recovery codes
+            </button>
+            <button
+              onClick={disable}
+              disabled={!code}
+              className="flex-1 bg-red-600 text-secondary px-4 py-2 rounded disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </>
+      ) : setup ? (
+        <>
+          <p className="mb-2 text-sm">
+            Scan the code with an authenticator app, then enter the code it
+            shows.
+          </p>
+          <img
+            src={setup.qrCode}
+            alt="2FA QR code"
+            className="mx-auto mb-2 w-48 h-48 bg-white p-2 rounded"
+          />
+          <p className="mb-4 text-xs text-center break-all">
+            Or enter this key: <code>{setup.secret}</code>
+          </p>
+          {codeInput}
+          <button
+            onClick={enable}
+            disabled={!code}
+            className="w-full bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition disabled:opacity-50"
+          >
+            Turn on
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="mb-4 text-sm">
+            Protect this account with a code from your phone at every login.
+          </p>
+          <button
+            onClick={startSetup}
+            className="w-full bg-green-600 hover:bg-green-700 text-secondary px-4 py-2 rounded transition"
+          >
+            Set up 2FA
+          </button>
+        </>
+      )}
+
+      {recoveryCodes && (
+        <div className="mt-4 text-sm">
+          <p className="mb-2 font-semibold">
+            Save these recovery codes somewhere safe. Each works once, and they
+            won't be shown again:
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+
+/**
+ * Renders only the rows near the visible part of a scrolling box. Row
+ * heights are measured once they mount (until then `estimateHeight` is used),
+ * so rows may have different and changing heights.
+ */
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight = 200,
+  overscan = 3,
+  gap = 16,
+  isPinned,
+  onEndReached,
+  className = "",
+}: {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimateHeight?: number;
+  overscan?: number;
+  gap?: number;
+  // pinned rows stay mounted off screen (e.g. the one that's playing)
+  isPinned?: (item: T) => boolean;
+  // called when the last row comes into view
+  onEndReached?: () => void;
+  className?: string;
+}) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const heights = useRef(new Map<string, number>());
+  const observer = useRef<ResizeObserver | null>(null);
+  const [, setMeasured] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(0);
+
+  // created on first use: row refs attach before effects run
+  const getObserver = () =>
+    (observer.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const target = entry.target as HTMLElement;
+        if (target === scrollRef.current) {
+          setViewport(target.clientHeight);
+          continue;
+        }
+        const key = target.dataset.key;
+        const height = target.offsetHeight;
+        if (key && heights.current.get(key) !== height) {
+          heights.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasured((n) => n + 1);
+    }));
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewport(el.clientHeight);
+    const resize = getObserver();
+    resize.observe(el);
+    return () => resize.unobserve(el);
+  }, []);
+
+  // top of every row, plus the total height at the end
+  const offsets = [0];
+  for (const item of items) {
+    const height = heights.current.get(getKey(item)) ?? estimateHeight;
+    offsets.push(offsets[offsets.length - 1] + height + gap);
+  }
+  const total = Math.max(0, offsets[items.length] - gap);
+
+  // first row whose bottom is below the top of the viewport
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= scrollTop) lo = mid + 1;
+    else hi = mid;
+  }
+  const first = lo;
+  let last = first;
+  while (last < items.length && offsets[last] < scrollTop + viewport) last++;
+
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(items.length, last + overscan);
+
+  const shown: number[] = [];
+  items.forEach((item, index) => {
+    if ((index >= start && index < end) || isPinned?.(item)) shown.push(index);
+  });
+
+  const reachedEnd = items.length > 0 && last >= items.length;
+  useEffect(() => {
+    if (reachedEnd) onEndReached?.();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reachedEnd, items.length]);
+
+  const measure = (node: HTMLDivElement) => {
+    const resize = getObserver();
+    resize.observe(node);
+    return () => resize.unobserve(node);
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className={`overflow-y-auto ${className}`}
+    >
+      <div role="list" style={{ position: "relative", height: total }}>
+        {shown.map((index) => {
+          const item = items[index];
+          const key = getKey(item);
+          return (
+            <div
+              key={key}
+              ref={measure}
+              data-key={key}
+              role="listitem"
+              style={{
+                position: "absolute",
+                top: offsets[index],
+                left: 0,
+                right: 0,
+              }}
+            >
+              {renderItem(item, index)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,59 @@
-import React, { useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import CustomAudioPlayer from "./CustomAudioPlayer";
 import { processAndCompress } from "../utils/audioUtils";
-import type { VoiceType } from "../utils/audioUtils"; // type-only import
+import type { CompressOptions, VoiceType } from "../utils/audioUtils"; // type-only import
+import { VOICE_LIST, VOICE_PRESETS } from "../utils/voicePresets";
 import RecorderButton from "./RecorderButton";
 import axios from "axios";
+import {
+  clearPendingUpload,
+  loadPendingUpload,
+  resumePendingUpload,
+  uploadInChunks,
+} from "../utils/chunkedUpload";
+import { normalizePhone } from "../utils/phoneNumber";
+import {
+  forgetMessage,
+  rememberMessage,
+  withdrawLink,
+} from "../utils/withdrawal";
+
+// let the backend apply the chosen voice to the raw recording
+const SERVER_ANONYMIZE = true;
+
+// backend upload error codes -> what the listener sees
+const UPLOAD_ERROR_MESSAGES: Record<string, string> = {
+  NO_FILE: "Helifail puudub. Palun salvesta sõnum uuesti.",
+  EMPTY_FILE: "Helifail on tühi. Palun salvesta sõnum uuesti.",
+  FILE_TOO_LARGE: "Helifail on liiga suur.",
+  UNSUPPORTED_FORMAT:
+    "Helifaili vormingut ei õnnestunud tuvastada. Palun salvesta sõnum uuesti.",
+  DURATION_TOO_LONG:
+    "Häälsõnum on liiga pikk – maksimaalne pikkus on 5 minutit.",
+  UNKNOWN_VOICE: "Valitud häält ei leitud. Palun vali teine hääl.",
+  UPLOAD_NOT_FOUND: "Saatmine aegus. Palun proovi uuesti.",
+  RATE_LIMITED: "Liiga palju sõnumeid korraga. Palun proovi hiljem uuesti.",
+  CHALLENGE_FAILED: "Turvakontroll ebaõnnestus. Palun proovi uuesti.",
+  CONSENT_REQUIRED: "Palun kinnita nõusolek enne saatmist.",
+  CONSENT_OUTDATED:
+    "Nõusoleku tekst muutus vahepeal. Palun loe see läbi ja kinnita uuesti.",
+  PHONE_INVALID:
+    "Telefoninumber ei tundu õige. Kontrolli numbrit või jäta väli tühjaks.",
+};
+const DEFAULT_UPLOAD_ERROR = "Saatmine ebaõnnestus. Palun proovi uuesti.";
+
+function uploadErrorMessage(err: unknown): string {
+  const code = axios.isAxiosError(err) ? err.response?.data?.code : undefined;
+  return (code && UPLOAD_ERROR_MESSAGES[code]) || DEFAULT_UPLOAD_ERROR;
+}
 
-const VOICE_LIST: VoiceType[] = ["voice1"];
+/** one entry per preset, all set to `value` */
+function voiceMap<T>(value: T): Record<VoiceType, T> {
+  return Object.fromEntries(VOICE_LIST.map((v) => [v, value])) as Record<
+    VoiceType,
+    T
+  >;
+}
 
 /* -------------------- Helpers -------------------- */
 
@@ -89,12 +137,31 @@ function durationFromAudioElement(
 /* -------------------- Component -------------------- */
 
 export default function VoiceRecorder(): JSX.Element {
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [recordingTime, setRecordingTime] = useState(0);
   const [title, setTitle] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
+  // complain about the number only once the listener leaves the field
+  const [phoneTouched, setPhoneTouched] = useState(false);
+  // optional, but if given it must be a number we can call back
+  const phoneInvalid =
+    phoneNumber.trim() !== "" && !normalizePhone(phoneNumber);
+  // the consent text from GET /api/upload/consent and the listener's tick
+  const [consent, setConsent] = useState<{
+    text: string;
+    version: string;
+  } | null>(null);
+  const [consentGiven, setConsentGiven] = useState(false);
+  // honeypot: hidden from people, bots tend to fill every field
+  const [website, setWebsite] = useState("");
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
 
@@ -106,24 +173,60 @@ export default function VoiceRecorder(): JSX.Element {
 
   const [processedBlobs, setProcessedBlobs] = useState<
     Record<VoiceType, Blob | null>
-  >({
-    voice1: null,
-  });
+  >(() => voiceMap<Blob | null>(null));
   const [processedURLs, setProcessedURLs] = useState<
     Record<VoiceType, string | null>
-  >({
-    voice1: null,
-  });
+  >(() => voiceMap<string | null>(null));
   const [processedDurations, setProcessedDurations] = useState<
     Record<VoiceType, number>
-  >({
-    voice1: 0,
-  });
+  >(() => voiceMap(0));
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
 
+  // deletion link for the message just sent, shown until dismissed
+  const [receipt, setReceipt] = useState<{
+    token: string;
+    title: string;
+    sentAt: string;
+  } | null>(null);
+  const [rememberReceipt, setRememberReceipt] = useState(true);
+
+  // an upload interrupted by a reload, waiting for the user to resume it
+  const [hasPendingUpload, setHasPendingUpload] = useState(false);
+
+  useEffect(() => {
+    loadPendingUpload().then((p) => setHasPendingUpload(!!p));
+  }, []);
+
+  const fetchConsent = async () => {
+    try {
+      const res = await axios.get<{ text: string; version: string }>(
+        `${API_BASE}/api/upload/consent`
+      );
+      setConsent(res.data);
+    } catch (err) {
+      console.error("Failed to load consent text:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchConsent();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // a new text needs a new tick
+  const handleConsentError = (err: unknown) => {
+    if (
+      axios.isAxiosError(err) &&
+      err.response?.data?.code === "CONSENT_OUTDATED"
+    ) {
+      setConsentGiven(false);
+      fetchConsent();
+    }
+  };
+
   type PlayerState = { playing: boolean; current: number; volume: number };
   const [playerStateMap, setPlayerStateMap] = useState<
     Record<string, PlayerState>
@@ -233,9 +336,9 @@ export default function VoiceRecorder(): JSX.Element {
     VOICE_LIST.forEach((v) => {
       if (processedURLs[v]) URL.revokeObjectURL(processedURLs[v]!);
     });
-    setProcessedURLs({ voice1: null });
-    setProcessedBlobs({ voice1: null });
-    setProcessedDurations({ voice1: 0 });
+    setProcessedURLs(voiceMap<string | null>(null));
+    setProcessedBlobs(voiceMap<Blob | null>(null));
+    setProcessedDurations(voiceMap(0));
 
     const total = VOICE_LIST.length;
 
@@ -244,17 +347,21 @@ export default function VoiceRecorder(): JSX.Element {
       try {
         await new Promise((r) => setTimeout(r, 30));
 
-        const opts = {
+        const opts: CompressOptions = {
           targetSampleRate: 22050,
           channels: 1,
+          format: "mp3",
           audioBitsPerSecond: 64000,
+          // keep the bar moving while the worker encodes
+          onProgress: (f) =>
+            setProcessingProgress(Math.round(((i + f) / total) * 100)),
         };
 
         const res = await processAndCompress(originalWebmBlob, v, opts);
         // ensure blob type is correct
         const processedBlob = res.blob.type
           ? res.blob
-          : new Blob([res.blob], { type: "audio/wav" });
+          : new Blob([res.blob], { type: res.mimeType });
 
         // <<< Add this line to debug >>>
         console.log(
@@ -269,16 +376,21 @@ export default function VoiceRecorder(): JSX.Element {
         const url = URL.createObjectURL(processedBlob);
         setProcessedURLs((prev) => ({ ...prev, [v]: url }));
 
-        // decode duration safely
-        try {
-          const buf = await decodeBlobToAudioBuffer(processedBlob);
-          setProcessedDurations((prev) => ({
-            ...prev,
-            [v]: buf.duration || 0,
-          }));
-        } catch {
-          const fallbackDur = await durationFromAudioElement(processedBlob);
-          setProcessedDurations((prev) => ({ ...prev, [v]: fallbackDur }));
+        // the pipeline preserves tempo, so trust its duration over the
+        // decoded MP3 (which includes encoder padding)
+        if (Number.isFinite(res.duration) && res.duration > 0) {
+          setProcessedDurations((prev) => ({ ...prev, [v]: res.duration }));
+        } else {
+          try {
+            const buf = await decodeBlobToAudioBuffer(processedBlob);
+            setProcessedDurations((prev) => ({
+              ...prev,
+              [v]: buf.duration || 0,
+            }));
+          } catch {
+            const fallbackDur = await durationFromAudioElement(processedBlob);
+            setProcessedDurations((prev) => ({ ...prev, [v]: fallbackDur }));
+          }
         }
       } catch (err) {
         console.error("Processing failed for", v, err);
@@ -294,6 +406,16 @@ export default function VoiceRecorder(): JSX.Element {
 
   // upload chosen blob and inputs as metadata
   const handleUpload = async (useOriginal: boolean, voice?: VoiceType) => {
+    if (!consent || !consentGiven) {
+      alert(UPLOAD_ERROR_MESSAGES.CONSENT_REQUIRED);
+      return;
+    }
+    if (phoneInvalid) {
+      setPhoneTouched(true);
+      alert(UPLOAD_ERROR_MESSAGES.PHONE_INVALID);
+      return;
+    }
+
     let blobToSend: Blob | null = null;
     let filename = "recording";
 
@@ -310,11 +432,14 @@ export default function VoiceRecorder(): JSX.Element {
       return;
     }
 
-    try {
-      setIsUploading(true);
-      setUploadProgress(0);
+    const duration = useOriginal
+      ? originalDuration
+      : voice && processedDurations[voice] !== undefined
+      ? processedDurations[voice]
+      : 0;
 
-      const mimeType = blobToSend.type || "audio/webm";
+    const postAudio = async (blob: Blob, anonymize: boolean) => {
+      const mimeType = blob.type || "audio/webm";
       const ext =
         mimeType === "audio/mpeg"
           ? "mp3"
@@ -322,40 +447,102 @@ export default function VoiceRecorder(): JSX.Element {
           ? "wav"
           : mimeType.split("/")[1] || "webm";
 
-      const fd = new FormData();
-      fd.append("audio", blobToSend, `${filename}.${ext}`);
-      fd.append("title", title || "Untitled Recording");
-      fd.append("phoneNumber", phoneNumber || "");
-      fd.append("voiceType", useOriginal ? "original" : voice || "unknown");
-      fd.append(
-        "duration",
-        useOriginal
-          ? originalDuration.toString()
-          : voice && processedDurations[voice] !== undefined
-          ? processedDurations[voice].toString()
-          : "0"
+      const fields: Record<string, string> = {
+        title: title || "Untitled Recording",
+        phoneNumber: phoneNumber || "",
+        voiceType: useOriginal ? "original" : voice || "unknown",
+        duration: duration.toString(),
+        consentVersion: consent.version,
+      };
+      if (anonymize) fields.anonymize = "true";
+      if (website) fields.website = website;
+
+      setUploadProgress(0);
+      return uploadInChunks(
+        API_BASE,
+        blob,
+        `${filename}.${ext}`,
+        fields,
+        setUploadProgress
       );
+    };
+
+    try {
+      setIsUploading(true);
 
-      await axios.post("https://podcast-homepage.onrender.com/api/upload", fd, {
-        onUploadProgress: (progressEvent) => {
-          const percent = Math.round(
-            (progressEvent.loaded * 100) / (progressEvent.total || 1)
-          );
-          setUploadProgress(percent);
-        },
-      });
+      let result: unknown;
+      if (!useOriginal && SERVER_ANONYMIZE && originalBlob) {
+        // send the raw recording and let the backend disguise it, so the
+        // stored file never depends on this browser's processing
+        try {
+          result = await postAudio(originalBlob, true);
+        } catch (err) {
+          const code = axios.isAxiosError(err)
+            ? err.response?.data?.code
+            : undefined;
+          if (code !== "ANONYMIZER_UNAVAILABLE") throw err;
+          console.warn("Server anonymizer unavailable, sending local version");
+          result = await postAudio(blobToSend, false);
+        }
+      } else {
+        result = await postAudio(blobToSend, false);
+      }
 
       alert("Häälsõnum saadetud! Aitäh! 🍒");
+      showReceipt(result, title);
       cleanupAll();
     } catch (err) {
       console.error("Upload error:", err);
-      alert("Upload failed (see console)");
+      alert(uploadErrorMessage(err));
+      handleConsentError(err);
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const showReceipt = (result: unknown, sentTitle: string) => {
+    const token = (result as { deletionToken?: string } | null)?.deletionToken;
+    if (!token) return;
+    const message = {
+      token,
+      title: sentTitle || "Häälsõnum",
+      sentAt: new Date().toISOString(),
+    };
+    if (rememberReceipt) rememberMessage(message);
+    setReceipt(message);
+  };
+
+  const toggleRememberReceipt = (remember: boolean) => {
+    setRememberReceipt(remember);
+    if (!receipt) return;
+    if (remember) rememberMessage(receipt);
+    else forgetMessage(receipt.token);
+  };
+
+  const handleResumeUpload = async () => {
+    try {
+      setIsUploading(true);
+      setUploadProgress(0);
+      const result = await resumePendingUpload(API_BASE, setUploadProgress);
+      alert("Häälsõnum saadetud! Aitäh! 🍒");
+      showReceipt(result, "");
+    } catch (err) {
+      console.error("Resume upload error:", err);
+      alert(uploadErrorMessage(err));
+      handleConsentError(err);
     } finally {
+      setHasPendingUpload(!!(await loadPendingUpload()));
       setIsUploading(false);
       setUploadProgress(0);
     }
   };
 
+  const handleDiscardPending = async () => {
+    await clearPendingUpload();
+    setHasPendingUpload(false);
+  };
+
   const cleanupAll = () => {
     if (originalURL) {
       URL.revokeObjectURL(originalURL);
@@ -365,9 +552,9 @@ export default function VoiceRecorder(): JSX.Element {
       const u = processedURLs[v];
       if (u) URL.revokeObjectURL(u);
     });
-    setProcessedURLs({ voice1: null });
-    setProcessedBlobs({ voice1: null });
-    setProcessedDurations({ voice1: 0 });
+    setProcessedURLs(voiceMap<string | null>(null));
+    setProcessedBlobs(voiceMap<Blob | null>(null));
+    setProcessedDurations(voiceMap(0));
     setOriginalBlob(null);
     setOriginalDuration(0);
     setPlayerStateMap({});
@@ -399,6 +586,55 @@ export default function VoiceRecorder(): JSX.Element {
             Salvesta, kuula ja saada oma häälsõnum.
           </p>
 
+          {receipt && !isRecording && (
+            <div className="mb-4 p-3 rounded bg-pink-200 text-sm">
+              <p className="mb-2">
+                Sõnum saadetud. Kui soovid selle koos telefoninumbriga hiljem
+                kustutada, kasuta seda linki:
+              </p>
+              <input
+                readOnly
+                value={withdrawLink(receipt.token)}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-2 py-1 mb-2 rounded bg-white text-black"
+              />
+              <label className="flex items-center gap-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={rememberReceipt}
+                  onChange={(e) => toggleRememberReceipt(e.target.checked)}
+                />
+                Jäta link selles brauseris meelde
+              </label>
+              <button
+                onClick={() => setReceipt(null)}
+                className="px-3 py-1 rounded border border-gray-500"
+              >
+                Sulge
+              </button>
+            </div>
+          )}
+
+          {hasPendingUpload && !isRecording && (
+            <div className="mb-4 p-3 rounded bg-pink-200 text-sm">
+              <p className="mb-2">Eelmise häälsõnumi saatmine jäi pooleli.</p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleResumeUpload}
+                  className="bg-blue-600 px-3 py-1 rounded hover:bg-blue-700 text-secondary"
+                >
+                  Jätka saatmist
+                </button>
+                <button
+                  onClick={handleDiscardPending}
+                  className="px-3 py-1 rounded border border-gray-500"
+                >
+                  Loobu
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="flex flex-col items-center mb-4 space-y-2">
             <RecorderButton
               startRecording={startRecording}
@@ -442,6 +678,21 @@ export default function VoiceRecorder(): JSX.Element {
                     />
                   </div>
 
+                  <div
+                    aria-hidden="true"
+                    style={{ position: "absolute", left: "-10000px" }}
+                  >
+                    <label htmlFor="website">Veebileht</label>
+                    <input
+                      id="website"
+                      type="text"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={website}
+                      onChange={(e) => setWebsite(e.target.value)}
+                    />
+                  </div>
+
                   <div className="mb-2">
                     <label
                       className="block text-sm font-medium mb-1"
@@ -453,10 +704,24 @@ export default function VoiceRecorder(): JSX.Element {
                       id="phone"
                       type="tel"
                       placeholder="Sisesta telefoninumber"
+                      autoComplete="tel"
                       value={phoneNumber}
                       onChange={(e) => setPhoneNumber(e.target.value)}
-                      className="w-full px-3 py-2 rounded-md bg-gray-700 border border-gray-500 focus:outline-none focus:border-blue-400"
+                      onBlur={() => setPhoneTouched(true)}
+                      aria-invalid={phoneTouched && phoneInvalid}
+                      className={`w-full px-3 py-2 rounded-md bg-gray-700 border focus:outline-none focus:border-blue-400 ${
+                        phoneTouched && phoneInvalid
+                          ? "border-red-500"
+                          : "border-gray-500"
+                      }`}
                     />
+                    {phoneTouched && phoneInvalid && (
+                      <p className="text-sm text-red-400 mt-1">
+                        {UPLOAD_ERROR_MESSAGES.PHONE_INVALID} Eesti numbri võid
+                        kirjutada ilma suunakoodita, teiste riikide numbrid koos
+                        sellega (nt +358 …).
+                      </p>
+                    )}
                     <p className="text-sm mb-4 mt-1">
                       *Kingituste loosimises osalemiseks jäta oma telefoninumber
                       – seda näen vaid mina ja kasutan ainult võidu korral
@@ -464,6 +729,20 @@ export default function VoiceRecorder(): JSX.Element {
                     </p>
                   </div>
 
+                  <label className="flex items-start gap-2 mb-4 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={consentGiven}
+                      disabled={!consent}
+                      onChange={(e) => setConsentGiven(e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span>
+                      {consent?.text ?? "Nõusoleku teksti laadimine..."}{" "}
+                      <span className="text-red-500">*</span>
+                    </span>
+                  </label>
+
                   <label className="block text-sm font-medium">
                     Originaal:
                   </label>
@@ -498,6 +777,9 @@ export default function VoiceRecorder(): JSX.Element {
                   </label>
                   {VOICE_LIST.map((v) => (
                     <div key={v} className="mb-4 p-2 bg-pink-300 rounded">
+                      <div className="text-sm font-medium mb-1">
+                        {VOICE_PRESETS[v].label}
+                      </div>
                       {processedURLs[v] ? (
                         <CustomAudioPlayer
                           url={processedURLs[v]!}
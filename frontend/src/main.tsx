@@ -1,9 +1,14 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Outlet } from "react-router-dom";
 import App from "./App";
 import AdminLogin from "./pages/AdminLogin";
 import AdminDashboard from "./pages/AdminDashboard";
+import AdminAcceptInvite from "./pages/AdminAcceptInvite";
+import AdminPreview from "./pages/AdminPreview";
+import WithdrawMessage from "./pages/WithdrawMessage";
+import AuthProvider from "./components/AuthProvider";
+import RequireAuth from "./components/RequireAuth";
 import "./index.css";
 import * as Sentry from "@sentry/react";
 
@@ -17,24 +22,38 @@ Sentry.init({
   tracesSampleRate: 1.0,
 });
 
-const isLoggedIn = () => !!localStorage.getItem("admin-token");
-
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<App />} />
-        <Route path="/admin/login" element={<AdminLogin />} />
+        <Route path="/kustuta" element={<WithdrawMessage />} />
         <Route
-          path="/admin/dashboard"
           element={
-            isLoggedIn() ? (
-              <AdminDashboard />
-            ) : (
-              <Navigate to="/admin/login" replace />
-            )
+            <AuthProvider>
+              <Outlet />
+            </AuthProvider>
           }
-        />
+        >
+          <Route path="/admin/login" element={<AdminLogin />} />
+          <Route path="/admin/invite" element={<AdminAcceptInvite />} />
+          <Route
+            path="/admin/dashboard"
+            element={
+              <RequireAuth>
+                <AdminDashboard />
+              </RequireAuth>
+            }
+          />
+          <Route
+            path="/admin/preview"
+            element={
+              <RequireAuth>
+                <AdminPreview />
+              </RequireAuth>
+            }
+          />
+        </Route>
       </Routes>
     </BrowserRouter>
   </React.StrictMode>
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "../utils/authContext";
+
+export default function AdminAcceptInvite() {
+  const [params] = useSearchParams();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const navigate = useNavigate();
+  const { acceptInvite } = useAuth();
+
+  const token = params.get("token");
+
+  const handleAccept = async () => {
+    if (password !== confirm) {
+      alert("Passwords don't match");
+      return;
+    }
+    try {
+      const res = await acceptInvite(token!, password);
+      if (res.ok) {
+        navigate("/admin/dashboard", { replace: true });
+      } else {
+        alert(res.message || "Invite could not be accepted");
+      }
+    } catch {
+      alert("Request failed");
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="p-8 max-w-md mx-auto text-center">
+        This invite link is incomplete.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Set your password</h1>
+      <input
+        type="password"
+        placeholder="Password (at least 10 characters)"
+        className="w-full p-2 mb-2 border rounded"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <input
+        type="password"
+        placeholder="Repeat password"
+        className="w-full p-2 mb-4 border rounded"
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+      />
+      <button
+        onClick={handleAccept}
+        className="bg-blue-600 text-white px-4 py-2 rounded w-full text-secondary"
+      >
+        Activate account
+      </button>
+    </div>
+  );
+}
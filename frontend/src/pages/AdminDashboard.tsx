@@ -1,28 +1,84 @@
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import PageDataEditor from "../components/PageDataEditor";
 import AudioList from "../components/AudioList";
+import ContentHistory from "../components/ContentHistory";
+import EpisodeEditor from "../components/EpisodeEditor";
+import AdminUsers from "../components/AdminUsers";
+import AuditLog from "../components/AuditLog";
+import GiveawayManager from "../components/GiveawayManager";
+import TwoFactorSettings from "../components/TwoFactorSettings";
+import { canEdit, isOwner } from "../utils/adminSession";
+import { useAuth } from "../utils/authContext";
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
+  const { session, logout } = useAuth();
+  // bumped on save/restore: reloads the editor and the history
+  const [contentRevision, setContentRevision] = useState(0);
+  const bumpContent = () => setContentRevision((r) => r + 1);
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-6">
-      {/* Back Button */}
-      <button
-        onClick={() => navigate(-1)} // goes back one step in history
-        className="mb-6 text-sm text-secondary hover:text-gray-400 transition-colors flex items-center gap-1"
-        aria-label="Go back"
-      >
-        ← Back
-      </button>
+      <div className="mb-6 flex items-center justify-between">
+        {/* Back Button */}
+        <button
+          onClick={() => navigate(-1)} // goes back one step in history
+          className="text-sm text-secondary hover:text-gray-400 transition-colors flex items-center gap-1"
+          aria-label="Go back"
+        >
+          ← Back
+        </button>
+
+        {/* Logout ends the session server-side; RequireAuth then redirects */}
+        <button
+          onClick={() => logout()}
+          className="text-sm text-secondary hover:text-gray-400 transition-colors"
+        >
+          Log out{session?.username ? ` (${session.username})` : ""}
+        </button>
+      </div>
 
       {/* Components Grid */}
       <div className="grid md:grid-cols-2 gap-4">
         <div className="w-full">
           <AudioList />
         </div>
+        {canEdit(session) && (
+          <div className="w-full">
+            <PageDataEditor key={contentRevision} onSaved={bumpContent} />
+          </div>
+        )}
+        {canEdit(session) && (
+          <div className="w-full">
+            <EpisodeEditor />
+          </div>
+        )}
+        {canEdit(session) && (
+          <div className="w-full">
+            <ContentHistory
+              revision={contentRevision}
+              onRestored={bumpContent}
+            />
+          </div>
+        )}
+        {session && isOwner(session) && (
+          <div className="w-full">
+            <AdminUsers session={session} />
+          </div>
+        )}
+        {session && isOwner(session) && (
+          <div className="w-full">
+            <AuditLog />
+          </div>
+        )}
+        {session && isOwner(session) && (
+          <div className="w-full">
+            <GiveawayManager />
+          </div>
+        )}
         <div className="w-full">
-          <PageDataEditor />
+          <TwoFactorSettings />
         </div>
       </div>
     </div>
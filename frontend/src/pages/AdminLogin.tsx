@@ -1,40 +1,97 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "../utils/authContext";
+import type { SessionResult } from "../utils/adminApi";
 
 export default function AdminLogin() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  // set once the password is accepted and a 2FA code is needed
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const navigate = useNavigate();
+  const { login, verifyLogin } = useAuth();
 
-  const useProd = true; // flip this for testing
-
-  const API_BASE = useProd
-    ? "https://podcast-homepage.onrender.com"
-    : "http://localhost:4000";
+  const finish = (res: SessionResult) => {
+    if (res.ok) {
+      // ✅ Force navigation AFTER the session is set
+      navigate("/admin/dashboard", {
+        replace: true,
+      });
+    } else if (res.mfaToken) {
+      setMfaToken(res.mfaToken);
+    } else {
+      alert(res.message || "Invalid credentials");
+    }
+  };
 
   const handleLogin = async () => {
     try {
-      const res = await fetch(`${API_BASE}/api/auth/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, password }),
-      });
+      finish(await login(username, password));
+    } catch {
+      alert("Login failed");
+    }
+  };
 
-      if (res.ok) {
-        const data = await res.json();
-        localStorage.setItem("admin-token", data.token);
-        // ✅ Force navigation AFTER token is stored
-        navigate("/admin/dashboard", {
-          replace: true,
-        });
-      } else {
-        alert("Invalid credentials");
+  const handleVerify = async () => {
+    if (!mfaToken) return;
+    try {
+      const res = await verifyLogin(
+        mfaToken,
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      // an expired step-one token means starting over
+      if (!res.ok && res.message?.startsWith("Login expired")) {
+        setMfaToken(null);
       }
-    } catch (err) {
+      setCode("");
+      finish(res);
+    } catch {
       alert("Login failed");
     }
   };
 
+  if (mfaToken) {
+    return (
+      <div className="p-8 max-w-md mx-auto">
+        <h1 className="text-2xl font-bold mb-4">Two-factor authentication</h1>
+        <p className="mb-4 text-sm">
+          {useRecoveryCode
+            ? "Enter one of your recovery codes."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+        <input
+          type="text"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          className="w-full p-2 mb-4 border rounded"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleVerify()}
+        />
+        <button
+          onClick={handleVerify}
+          className="bg-blue-600 text-white px-4 py-2 rounded w-full text-secondary"
+        >
+          Verify
+        </button>
+        <button
+          onClick={() => {
+            setUseRecoveryCode((v) => !v);
+            setCode("");
+          }}
+          className="mt-3 text-sm underline w-full"
+        >
+          {useRecoveryCode
+            ? "Use authenticator code instead"
+            : "Use a recovery code"}
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="p-8 max-w-md mx-auto">
       <h1 className="text-2xl font-bold mb-4">Admin Login</h1>
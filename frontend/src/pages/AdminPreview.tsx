@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import SiteLayout from "../components/SiteLayout";
+import type { SiteContent } from "../components/SiteLayout";
+import { adminApi } from "../utils/adminApi";
+import "../App.css";
+
+/** The homepage rendered with the unpublished draft (admins only). */
+export default function AdminPreview() {
+  const [draft, setDraft] = useState<SiteContent | null | undefined>(undefined);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  useEffect(() => {
+    adminApi
+      .get<SiteContent | null>(`${API_BASE}/api/content/draft`)
+      .then((res) => setDraft(res.data))
+      .catch((err) => {
+        console.error("Failed to fetch draft:", err);
+        setDraft(null);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (draft === undefined) {
+    return <div className="text-center py-10">Loading...</div>;
+  }
+  if (!draft) {
+    return (
+      <div className="text-center py-10">
+        There is no unpublished draft.{" "}
+        <Link to="/admin/dashboard" className="underline">
+          Back to the dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const publishAt = draft.publish?.publishAt;
+
+  return (
+    <>
+      <div className="sticky top-0 z-50 w-full bg-yellow-400 text-black text-sm text-center py-2">
+        Preview of the draft
+        {publishAt
+          ? `, goes live ${new Date(publishAt).toLocaleString()}`
+          : ", not published"}
+        . Visitors still see the live content.
+      </div>
+      <SiteLayout contentData={draft} />
+    </>
+  );
+}
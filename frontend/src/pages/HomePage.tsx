@@ -1,6 +1,7 @@
 import Introduction from "../components/Introduction";
 import VoiceRecorder from "../components/VoiceRecorder";
 import PreviousEpisode from "../components/PreviousEpisode";
+import EpisodeList from "../components/EpisodeList";
 import SocialLinks from "../components/SocialLinks";
 
 interface HomePageProps {
@@ -14,9 +15,13 @@ const HomePage: React.FC<HomePageProps> = ({ data }) => {
       <div className="w-full m-3 mb-10">
         <VoiceRecorder />
       </div>
-      <PreviousEpisode
-        linkTitle={data.videoLink?.title}
-        linkTarget={data.videoLink?.youtubeLink}
+      <EpisodeList
+        fallback={
+          <PreviousEpisode
+            linkTitle={data.videoLink?.title}
+            linkTarget={data.videoLink?.youtubeLink}
+          />
+        }
       />
       <SocialLinks
         instagram={data.socials?.instagram}
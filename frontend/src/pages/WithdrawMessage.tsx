@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useLocation } from "react-router-dom";
+import axios from "axios";
+import { forgetMessage, savedMessages } from "../utils/withdrawal";
+import type { SavedMessage } from "../utils/withdrawal";
+
+// Public page behind the link shown after sending a voice message
+// (/kustuta#<token>). Messages remembered in this browser are listed too.
+export default function WithdrawMessage() {
+  const location = useLocation();
+  const [token, setToken] = useState(location.hash.replace(/^#/, ""));
+  const [saved, setSaved] = useState<SavedMessage[]>(savedMessages);
+  const [deleting, setDeleting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const useProd = true; // flip this for testing
+
+  const API_BASE = useProd
+    ? "https://podcast-homepage.onrender.com"
+    : "http://localhost:4000";
+
+  const withdraw = async (value: string) => {
+    if (!window.confirm("Kas kustutan häälsõnumi ja telefoninumbri?")) return;
+    setDeleting(true);
+    try {
+      await axios.post(`${API_BASE}/api/upload/withdraw`, { token: value });
+      setDone(true);
+      forgetMessage(value);
+      setSaved(savedMessages());
+      setToken("");
+    } catch (err) {
+      console.error("Withdraw failed:", err);
+      const code = axios.isAxiosError(err) ? err.response?.data?.code : null;
+      if (code === "WITHDRAW_NOT_FOUND") {
+        // already deleted (or never existed): nothing left to remember
+        forgetMessage(value);
+        setSaved(savedMessages());
+        alert("Sõnumit ei leitud. See võib olla juba kustutatud.");
+      } else {
+        alert("Kustutamine ebaõnnestus. Palun proovi hiljem uuesti.");
+      }
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Kustuta häälsõnum</h1>
+
+      {done && (
+        <p className="mb-4 p-3 rounded bg-green-100 text-green-900 text-sm">
+          Häälsõnum ja telefoninumber on kustutatud.
+        </p>
+      )}
+
+      <p className="mb-2 text-sm">
+        Sisesta kood, mille said sõnumi saatmisel, või ava saadud link.
+      </p>
+      <input
+        type="text"
+        placeholder="Kustutamise kood"
+        className="w-full p-2 mb-2 border rounded"
+        value={token}
+        onChange={(e) => setToken(e.target.value.trim())}
+      />
+      <button
+        onClick={() => withdraw(token)}
+        disabled={!token || deleting}
+        className="bg-red-600 px-4 py-2 rounded w-full text-secondary disabled:opacity-50"
+      >
+        Kustuta
+      </button>
+
+      {saved.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-lg font-semibold mb-2">
+            Selles brauseris saadetud
+          </h2>
+          <ul className="space-y-2">
+            {saved.map((m) => (
+              <li
+                key={m.token}
+                className="flex items-center justify-between gap-4 p-2 border rounded text-sm"
+              >
+                <span className="min-w-0 truncate">
+                  {m.title} · {new Date(m.sentAt).toLocaleString("et-EE")}
+                </span>
+                <button
+                  onClick={() => withdraw(m.token)}
+                  disabled={deleting}
+                  className="text-red-600 underline disabled:opacity-50"
+                >
+                  Kustuta
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
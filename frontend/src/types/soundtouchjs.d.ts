@@ -0,0 +1,24 @@
+declare module "soundtouchjs" {
+  export interface SampleSource {
+    extract(target: Float32Array, numFrames: number, position: number): number;
+  }
+
+  export class SoundTouch {
+    constructor();
+    rate: number;
+    tempo: number;
+    pitch: number;
+    pitchSemitones: number;
+    clear(): void;
+  }
+
+  export class SimpleFilter {
+    constructor(
+      sourceSound: SampleSource,
+      pipe: SoundTouch,
+      callback?: () => void
+    );
+    extract(target: Float32Array, numFrames?: number): number;
+    clear(): void;
+  }
+}
@@ -0,0 +1,144 @@
+import axios from "axios";
+import type { InternalAxiosRequestConfig } from "axios";
+
+// Admin API access. The short-lived access token only lives in memory; the
+// refresh token is an httpOnly cookie the browser sends to /api/auth, so a
+// reload or an expired token is fixed by one POST /api/auth/refresh.
+// Those calls go to the admin site itself, which passes them on to the API
+// (vercel.json): a cookie from the API's own domain would be third-party,
+// and browsers that block those would log the admin out on every reload.
+
+const useProd = true; // flip this for testing
+
+export const API_BASE = useProd
+  ? "https://podcast-homepage.onrender.com"
+  : "http://localhost:4000";
+
+const AUTH_BASE = useProd ? "" : API_BASE;
+
+// the server refuses refresh and logout without it, see
+// backend/middleware/requireSessionHeader.js
+const SESSION_HEADERS = { "X-Admin-Session": "1" };
+
+let accessToken: string | null = null;
+const listeners = new Set<(token: string | null) => void>();
+
+export const getAccessToken = () => accessToken;
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+  listeners.forEach((listener) => listener(token));
+}
+
+export function onAccessTokenChange(listener: (token: string | null) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token from the refresh cookie. Concurrent callers share
+ * one request. Resolves with null when the session is over (the token is
+ * cleared, which sends the panel back to the login page); rejects on
+ * network errors without touching the current token.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  refreshing ??= fetch(`${AUTH_BASE}/api/auth/refresh`, {
+    method: "POST",
+    credentials: "include",
+    headers: SESSION_HEADERS,
+  })
+    .then(async (res) => {
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error(`Refresh failed (${res.status})`);
+      return (await res.json()).token as string;
+    })
+    .then((token) => {
+      setAccessToken(token);
+      return token;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+export type SessionResult = {
+  ok: boolean;
+  message?: string;
+  /** password accepted, now POST the code with this to /api/auth/login/verify */
+  mfaToken?: string;
+};
+
+/** Start a session from a login/accept-invite/2FA response. */
+export async function startSession(
+  path: string,
+  body: unknown
+): Promise<SessionResult> {
+  const res = await fetch(`${AUTH_BASE}${path}`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (res.ok && data.token) setAccessToken(data.token);
+  return {
+    ok: res.ok && !!data.token,
+    message: data.message,
+    mfaToken: data.mfaRequired ? data.mfaToken : undefined,
+  };
+}
+
+export async function endSession() {
+  try {
+    await fetch(`${AUTH_BASE}/api/auth/logout`, {
+      method: "POST",
+      credentials: "include",
+      headers: SESSION_HEADERS,
+    });
+  } finally {
+    setAccessToken(null);
+  }
+}
+
+/** axios for admin endpoints: adds the token, renews once on 401. */
+export const adminApi = axios.create();
+
+const retried = new WeakSet<InternalAxiosRequestConfig>();
+
+adminApi.interceptors.request.use((config) => {
+  if (accessToken) config.headers.Authorization = `Bearer ${accessToken}`;
+  return config;
+});
+
+adminApi.interceptors.response.use(undefined, async (error) => {
+  const config: InternalAxiosRequestConfig | undefined = error.config;
+  if (error.response?.status !== 401 || !config || retried.has(config)) {
+    throw error;
+  }
+  retried.add(config);
+  const token = await refreshAccessToken().catch(() => null);
+  if (!token) throw error;
+  return adminApi(config);
+});
+
+/** fetch for admin endpoints, same token handling as adminApi. */
+export async function adminFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const res = await send(accessToken);
+  if (res.status !== 401) return res;
+  const token = await refreshAccessToken().catch(() => null);
+  return token ? send(token) : res;
+}
@@ -0,0 +1,41 @@
+// What the dashboard knows about the logged-in admin, read from the access
+// token's payload. Only used to decide what to show; the backend enforces
+// roles on every request.
+
+export type AdminRole = "owner" | "editor" | "listener";
+
+export type AdminSession = {
+  id: string | null;
+  username: string;
+  role: AdminRole | null;
+  /** ms timestamp when the access token runs out */
+  expiresAt: number | null;
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  listener: "Listener (download only)",
+};
+
+export function sessionFromToken(token: string | null): AdminSession | null {
+  if (!token) return null;
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(payload));
+    return {
+      id: claims.sub ?? null,
+      username: claims.username ?? "",
+      role: claims.role in ROLE_LABELS ? claims.role : null,
+      expiresAt: typeof claims.exp === "number" ? claims.exp * 1000 : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export const canEdit = (session: AdminSession | null) =>
+  session?.role === "owner" || session?.role === "editor";
+
+export const isOwner = (session: AdminSession | null) =>
+  session?.role === "owner";
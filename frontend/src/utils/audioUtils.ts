@@ -1,29 +1,49 @@
-// Only one voice left
-export type VoiceType = "voice1";
+import { encodeWav, remixChannels, resampledLength } from "./dsp";
+import { encodeMp3 } from "./mp3Encoder";
+import type { Mp3WorkerResponse } from "./mp3Worker";
+import { pitchShift, whisperize } from "./voiceEffects";
+import { getVoicePreset } from "./voicePresets";
+import type { VoiceType } from "./voicePresets";
+
+export type { VoiceType } from "./voicePresets";
+export type OutputFormat = "wav" | "mp3";
+
+export type CompressOptions = {
+  targetSampleRate?: number;
+  channels?: number;
+  /** container of the returned blob, defaults to 16-bit WAV */
+  format?: OutputFormat;
+  /** MP3 bitrate, ignored for WAV */
+  audioBitsPerSecond?: number;
+  /** 0..1, reported while encoding */
+  onProgress?: (fraction: number) => void;
+};
 
 export async function processAndCompress(
   inBlob: Blob,
   voice: VoiceType,
   opts: CompressOptions = {}
 ): Promise<{ blob: Blob; mimeType: string; duration: number }> {
-  const { targetSampleRate = 22050, channels = 1 } = opts;
+  const {
+    targetSampleRate = 22050,
+    channels = 1,
+    format = "wav",
+    audioBitsPerSecond = 64000,
+    onProgress,
+  } = opts;
 
   // 1) decode incoming blob
   const abuf = await decodeBlobToAudioBuffer(inBlob);
 
   // 2) voice effect parameters
-  let playbackRate = 1.0;
-  const filters: { type: string; value?: number; gain?: number }[] = [];
+  const preset = getVoicePreset(voice);
 
-  if (voice === "voice1") {
-    playbackRate = 1.15; // subtle lift, less chipmunk
-    filters.push({ type: "highshelf", value: 4000, gain: 3 }); // gentle brightness
-    filters.push({ type: "lowshelf", value: 200, gain: 2 }); // warmth
-  }
-
-  // 3) offline rendering setup
-  const outSamples = Math.ceil(
-    (abuf.length / playbackRate) * (targetSampleRate / abuf.sampleRate)
+  // 3) offline rendering setup; effects keep tempo, so only resampling
+  // changes the sample count and the duration stays the original's
+  const outSamples = resampledLength(
+    abuf.length,
+    abuf.sampleRate,
+    targetSampleRate
   );
   const offline = new OfflineAudioContext(
     channels,
@@ -37,58 +57,125 @@ export async function processAndCompress(
     abuf.length,
     abuf.sampleRate
   );
-  if (channels === 1) {
-    const out = srcBuffer.getChannelData(0);
-    for (let i = 0; i < abuf.length; i++) {
-      let sum = 0;
-      for (let ch = 0; ch < abuf.numberOfChannels; ch++) {
-        sum += abuf.getChannelData(ch)[i] || 0;
-      }
-      out[i] = sum / abuf.numberOfChannels;
-    }
-  } else {
-    for (let ch = 0; ch < channels; ch++) {
-      const out = srcBuffer.getChannelData(ch);
-      const inCh = Math.min(ch, abuf.numberOfChannels - 1);
-      out.set(abuf.getChannelData(inCh));
-    }
+  remixChannels(channelsOf(abuf), channels).forEach((data, ch) =>
+    srcBuffer.copyToChannel(data, ch)
+  );
+
+  // 5) sample-domain effects
+  for (let ch = 0; ch < srcBuffer.numberOfChannels; ch++) {
+    const input = srcBuffer.getChannelData(ch);
+    let data = input;
+    if (preset.pitchSemitones) data = pitchShift(data, preset.pitchSemitones);
+    if (preset.whisper) data = whisperize(data);
+    if (data !== input) input.set(data);
   }
 
   const src = offline.createBufferSource();
   src.buffer = srcBuffer;
-  src.playbackRate.value = playbackRate;
 
-  // 5) apply filters
+  // 6) graph effects: ring modulator, filters, output gain
   let nodeChain: AudioNode = src;
-  for (const f of filters) {
+  let carrier: OscillatorNode | null = null;
+  if (preset.ringModHz) {
+    // gain of 0 driven by a sine carrier == multiply signal by the carrier
+    const ring = offline.createGain();
+    ring.gain.value = 0;
+    carrier = offline.createOscillator();
+    carrier.frequency.value = preset.ringModHz;
+    carrier.connect(ring.gain);
+    nodeChain.connect(ring);
+    nodeChain = ring;
+  }
+
+  for (const f of preset.filters ?? []) {
     const bq = offline.createBiquadFilter();
-    bq.type = f.type as BiquadFilterType;
-    if (f.value) bq.frequency.value = f.value;
+    bq.type = f.type;
+    bq.frequency.value = f.frequency;
     if (typeof f.gain === "number") bq.gain.value = f.gain;
+    if (typeof f.Q === "number") bq.Q.value = f.Q;
     nodeChain.connect(bq);
     nodeChain = bq;
   }
 
+  if (typeof preset.gain === "number") {
+    const out = offline.createGain();
+    out.gain.value = preset.gain;
+    nodeChain.connect(out);
+    nodeChain = out;
+  }
+
   nodeChain.connect(offline.destination);
 
-  // 6) render
+  // 7) render
+  carrier?.start();
   src.start();
   const rendered = await offline.startRendering();
 
-  // 7) output as WAV
-  const wavBlob = audioBufferToWavBlob(rendered);
+  // 8) encode
+  const outBlob =
+    format === "mp3"
+      ? await audioBufferToMp3Blob(
+          rendered,
+          Math.round(audioBitsPerSecond / 1000),
+          onProgress
+        )
+      : audioBufferToWavBlob(rendered);
 
   try {
     offline.close();
   } catch {}
 
   return {
-    blob: wavBlob,
-    mimeType: "audio/wav",
-    duration: rendered.duration,
+    blob: outBlob,
+    mimeType: outBlob.type,
+    duration: abuf.duration,
   };
 }
 
+/** AudioBuffer → MP3 Blob, encoded in a worker when available */
+async function audioBufferToMp3Blob(
+  buffer: AudioBuffer,
+  kbps: number,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> {
+  // copy out of the AudioBuffer so the arrays can be transferred
+  const channelData: Float32Array[] = [];
+  for (let ch = 0; ch < Math.min(buffer.numberOfChannels, 2); ch++) {
+    channelData.push(buffer.getChannelData(ch).slice());
+  }
+
+  let chunks: Uint8Array[];
+  if (typeof Worker === "undefined") {
+    chunks = encodeMp3(channelData, buffer.sampleRate, kbps, onProgress);
+  } else {
+    chunks = await new Promise<Uint8Array[]>((resolve, reject) => {
+      const worker = new Worker(new URL("./mp3Worker.ts", import.meta.url), {
+        type: "module",
+      });
+      worker.onmessage = (ev: MessageEvent<Mp3WorkerResponse>) => {
+        const msg = ev.data;
+        if (msg.type === "progress") {
+          onProgress?.(msg.fraction);
+          return;
+        }
+        worker.terminate();
+        if (msg.type === "done") resolve(msg.chunks);
+        else reject(new Error(msg.message));
+      };
+      worker.onerror = (ev) => {
+        worker.terminate();
+        reject(new Error(ev.message || "MP3 worker failed"));
+      };
+      worker.postMessage(
+        { channelData, sampleRate: buffer.sampleRate, kbps },
+        channelData.map((c) => c.buffer as ArrayBuffer)
+      );
+    });
+  }
+
+  return new Blob(chunks as BlobPart[], { type: "audio/mpeg" });
+}
+
 /** Blob → AudioBuffer */
 async function decodeBlobToAudioBuffer(blob: Blob): Promise<AudioBuffer> {
   const arrayBuffer = await blob.arrayBuffer();
@@ -103,57 +190,14 @@ async function decodeBlobToAudioBuffer(blob: Blob): Promise<AudioBuffer> {
 
 /** AudioBuffer → WAV Blob */
 function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const bitDepth = 16;
-
-  // interleave
-  let interleaved: Float32Array;
-  if (numChannels === 2) {
-    const left = buffer.getChannelData(0);
-    const right = buffer.getChannelData(1);
-    interleaved = new Float32Array(left.length + right.length);
-    let idx = 0;
-    for (let i = 0; i < left.length; i++) {
-      interleaved[idx++] = left[i];
-      interleaved[idx++] = right[i];
-    }
-  } else {
-    interleaved = buffer.getChannelData(0);
-  }
-
-  const bytesPerSample = bitDepth / 8;
-  const blockAlign = numChannels * bytesPerSample;
-  const bufferLength = 44 + interleaved.length * bytesPerSample;
-  const arrayBuffer = new ArrayBuffer(bufferLength);
-  const view = new DataView(arrayBuffer);
-
-  function writeString(view: DataView, offset: number, str: string) {
-    for (let i = 0; i < str.length; i++)
-      view.setUint8(offset + i, str.charCodeAt(i));
-  }
+  const wav = encodeWav(channelsOf(buffer), buffer.sampleRate);
+  return new Blob([wav], { type: "audio/wav" });
+}
 
-  // WAV header
-  writeString(view, 0, "RIFF");
-  view.setUint32(4, 36 + interleaved.length * bytesPerSample, true);
-  writeString(view, 8, "WAVE");
-  writeString(view, 12, "fmt ");
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * blockAlign, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitDepth, true);
-  writeString(view, 36, "data");
-  view.setUint32(40, interleaved.length * bytesPerSample, true);
-
-  // PCM samples
-  let offset = 44;
-  for (let i = 0; i < interleaved.length; i++, offset += 2) {
-    const s = Math.max(-1, Math.min(1, interleaved[i]));
-    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+function channelsOf(buffer: AudioBuffer): Float32Array[] {
+  const out: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    out.push(buffer.getChannelData(ch));
   }
-
-  return new Blob([view], { type: "audio/wav" });
+  return out;
 }
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import type { AdminSession } from "./adminSession";
+import type { SessionResult } from "./adminApi";
+
+export type AuthContextValue = {
+  /** in-memory access token, null when signed out */
+  token: string | null;
+  session: AdminSession | null;
+  /** false until the first silent refresh has been tried */
+  ready: boolean;
+  /** resolves with mfaToken set when a 2FA code is needed next */
+  login: (username: string, password: string) => Promise<SessionResult>;
+  verifyLogin: (
+    mfaToken: string,
+    proof: { code: string } | { recoveryCode: string }
+  ) => Promise<SessionResult>;
+  acceptInvite: (
+    inviteToken: string,
+    password: string
+  ) => Promise<SessionResult>;
+  logout: () => Promise<void>;
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used inside <AuthProvider>");
+  return ctx;
+}
@@ -0,0 +1,211 @@
+import axios from "axios";
+import { solveUploadChallenge } from "./spamChallenge";
+
+// Client side of the backend's chunked upload protocol (see routes/upload.js).
+// The blob and session id are kept in IndexedDB until the upload completes,
+// so a reload or a dropped connection can pick up where it stopped. Not for
+// uploads the server is to anonymize: that blob is the listener's own voice,
+// which shouldn't stay behind in the browser.
+
+export type UploadFields = Record<string, string>;
+
+export type PendingUpload = {
+  uploadId: string;
+  blob: Blob;
+  fileName: string;
+  fields: UploadFields;
+};
+
+type Session = { uploadId: string; chunkSize: number; totalChunks: number };
+
+const DB_NAME = "voice-recorder";
+const STORE = "pendingUploads";
+const PENDING_KEY = "current";
+const MAX_ATTEMPTS = 5;
+
+/* -------------------- IndexedDB persistence -------------------- */
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(STORE, mode).objectStore(STORE));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadPendingUpload(): Promise<PendingUpload | null> {
+  try {
+    const p = await withStore<PendingUpload | undefined>("readonly", (s) =>
+      s.get(PENDING_KEY)
+    );
+    return p ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function savePendingUpload(p: PendingUpload) {
+  try {
+    await withStore("readwrite", (s) => s.put(p, PENDING_KEY));
+  } catch (err) {
+    // private mode etc. — upload still works, just can't resume after reload
+    console.warn("Could not persist pending upload:", err);
+  }
+}
+
+export async function clearPendingUpload() {
+  try {
+    await withStore("readwrite", (s) => s.delete(PENDING_KEY));
+  } catch {
+    // nothing stored, nothing to clear
+  }
+}
+
+/* -------------------- Protocol -------------------- */
+
+/** Retry network failures and plain 5xx; a 4xx or coded error is final. */
+async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const res = axios.isAxiosError(err) ? err.response : undefined;
+      const retryable = !res || (res.status >= 500 && !res.data?.code);
+      if (!retryable || attempt >= MAX_ATTEMPTS) throw err;
+      await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Upload `blob` in chunks and finalize it with `fields` plus a freshly
+ * solved spam challenge.
+ * Pass `resumeId` to continue an earlier session; unknown/expired
+ * sessions silently restart from scratch.
+ */
+export async function uploadInChunks(
+  apiBase: string,
+  blob: Blob,
+  fileName: string,
+  fields: UploadFields,
+  onProgress: (percent: number) => void,
+  resumeId?: string
+): Promise<unknown> {
+  const base = `${apiBase}/api/upload/sessions`;
+
+  let session: Session | null = null;
+  let received = new Set<number>();
+
+  if (resumeId) {
+    try {
+      const res = await axios.get<Session & { received: number[] }>(
+        `${base}/${resumeId}`
+      );
+      session = res.data;
+      received = new Set(res.data.received);
+    } catch {
+      session = null;
+    }
+  }
+
+  if (!session) {
+    const res = await withRetry(() =>
+      axios.post<Session>(base, {
+        fileName,
+        mimeType: blob.type || "application/octet-stream",
+        size: blob.size,
+      })
+    );
+    session = res.data;
+  }
+
+  if (fields.anonymize !== "true") {
+    await savePendingUpload({
+      uploadId: session.uploadId,
+      blob,
+      fileName,
+      fields,
+    });
+  }
+
+  const { uploadId, chunkSize, totalChunks } = session;
+  const report = (sent: number) =>
+    onProgress(Math.min(100, Math.round((sent * 100) / (blob.size || 1))));
+
+  let sentBytes = 0;
+  received.forEach(
+    (i) => (sentBytes += Math.min(chunkSize, blob.size - i * chunkSize))
+  );
+  report(sentBytes);
+
+  for (let i = 0; i < totalChunks; i++) {
+    if (received.has(i)) continue;
+    const part = blob.slice(i * chunkSize, (i + 1) * chunkSize);
+
+    await withRetry(() =>
+      axios.put(`${base}/${uploadId}/chunks/${i}`, part, {
+        headers: { "Content-Type": "application/octet-stream" },
+        onUploadProgress: (e) => report(sentBytes + (e.loaded || 0)),
+      })
+    );
+    sentBytes += part.size;
+    report(sentBytes);
+  }
+
+  try {
+    // solved right before every attempt: a token fetched before a slow
+    // upload expires on the way, and none can be used twice
+    const res = await withRetry(async () =>
+      axios.post(`${base}/${uploadId}/complete`, {
+        ...fields,
+        ...(await solveUploadChallenge(apiBase)),
+      })
+    );
+    await clearPendingUpload();
+    return res.data;
+  } catch (err) {
+    // a definitive refusal (any 4xx, or a coded 5xx like
+    // ANONYMIZER_UNAVAILABLE) won't get better on resume; a failed spam
+    // check may (the server keeps the parts for another try)
+    const res = axios.isAxiosError(err) ? err.response : undefined;
+    const final = res && (res.status < 500 || !!res.data?.code);
+    if (final && res.data?.code !== "CHALLENGE_FAILED") {
+      await clearPendingUpload();
+    }
+    throw err;
+  }
+}
+
+/** Continue the upload left over from a previous page load, if any. */
+export async function resumePendingUpload(
+  apiBase: string,
+  onProgress: (percent: number) => void
+): Promise<unknown> {
+  const pending = await loadPendingUpload();
+  if (!pending) return null;
+  return uploadInChunks(
+    apiBase,
+    pending.blob,
+    pending.fileName,
+    pending.fields,
+    onProgress,
+    pending.uploadId
+  );
+}
@@ -0,0 +1,178 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  WAV_HEADER_BYTES,
+  clampSample,
+  downmixToMono,
+  durationSeconds,
+  encodeWav,
+  floatToInt16,
+  interleave,
+  remixChannels,
+  resampledLength,
+  wavDurationSeconds,
+} from "./dsp";
+
+// Golden files live next to this test. After an intentional change to the
+// WAV writer, regenerate them with `UPDATE_GOLDEN=1 npm test` and listen to
+// the result before committing.
+const fixture = (name: string) =>
+  new URL(`./__fixtures__/${name}`, import.meta.url);
+
+function expectGolden(name: string, bytes: ArrayBuffer) {
+  const file = fixture(name);
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(file, new Uint8Array(bytes));
+  }
+  expect(new Uint8Array(bytes)).toEqual(new Uint8Array(readFileSync(file)));
+}
+
+function readWavHeader(bytes: ArrayBuffer) {
+  const view = new DataView(bytes);
+  const str = (offset: number, len: number) =>
+    String.fromCharCode(...new Uint8Array(bytes, offset, len));
+  return {
+    riff: str(0, 4),
+    riffSize: view.getUint32(4, true),
+    wave: str(8, 4),
+    fmt: str(12, 4),
+    fmtSize: view.getUint32(16, true),
+    audioFormat: view.getUint16(20, true),
+    numChannels: view.getUint16(22, true),
+    sampleRate: view.getUint32(24, true),
+    byteRate: view.getUint32(28, true),
+    blockAlign: view.getUint16(32, true),
+    bitsPerSample: view.getUint16(34, true),
+    data: str(36, 4),
+    dataSize: view.getUint32(40, true),
+  };
+}
+
+const sine = (hz: number, sampleRate: number, seconds: number, amp = 0.5) =>
+  Float32Array.from(
+    { length: Math.round(sampleRate * seconds) },
+    (_, i) => amp * Math.sin((2 * Math.PI * hz * i) / sampleRate)
+  );
+
+describe("sample conversion", () => {
+  it("clamps to [-1, 1] and silences NaN", () => {
+    expect(clampSample(1.5)).toBe(1);
+    expect(clampSample(-7)).toBe(-1);
+    expect(clampSample(0.25)).toBe(0.25);
+    expect(clampSample(NaN)).toBe(0);
+  });
+
+  it("maps floats onto the full 16-bit range", () => {
+    expect(floatToInt16(1)).toBe(32767);
+    expect(floatToInt16(-1)).toBe(-32768);
+    expect(floatToInt16(0)).toBe(0);
+    expect(floatToInt16(2)).toBe(32767);
+    expect(floatToInt16(-2)).toBe(-32768);
+    expect(floatToInt16(0.5)).toBe(16383);
+  });
+});
+
+describe("channel handling", () => {
+  it("downmixes by averaging", () => {
+    const mono = downmixToMono([
+      Float32Array.of(1, 0.5, -1),
+      Float32Array.of(0, 0.5, 1),
+    ]);
+    expect(Array.from(mono)).toEqual([0.5, 0.5, 0]);
+  });
+
+  it("remixes mono up to stereo by copying", () => {
+    const src = Float32Array.of(0.1, 0.2);
+    const [l, r] = remixChannels([src], 2);
+    expect(l).toEqual(src);
+    expect(r).toEqual(src);
+    expect(l).not.toBe(src);
+  });
+
+  it("interleaves stereo frames", () => {
+    const out = interleave([Float32Array.of(1, 3), Float32Array.of(2, 4)]);
+    expect(Array.from(out)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("duration math", () => {
+  it("keeps duration across resampling", () => {
+    const n = resampledLength(48000 * 3, 48000, 22050);
+    expect(n).toBe(22050 * 3);
+    expect(durationSeconds(n, 22050)).toBe(3);
+  });
+
+  it("rounds a partial output sample up", () => {
+    expect(resampledLength(1, 44100, 22050)).toBe(1);
+  });
+
+  it("reads playing time from WAV size", () => {
+    expect(wavDurationSeconds(WAV_HEADER_BYTES + 22050 * 2, 22050, 1)).toBe(1);
+    expect(wavDurationSeconds(WAV_HEADER_BYTES + 8000 * 4, 8000, 2)).toBe(1);
+  });
+});
+
+describe("encodeWav", () => {
+  it("writes a mono 16-bit file matching the golden copy", () => {
+    const samples = sine(440, 8000, 0.25);
+    // out-of-range samples must clip, not wrap around
+    samples.set([1.5, -1.5, NaN], 100);
+    const wav = encodeWav([samples], 8000);
+
+    expect(readWavHeader(wav)).toEqual({
+      riff: "RIFF",
+      riffSize: 36 + 2000 * 2,
+      wave: "WAVE",
+      fmt: "fmt ",
+      fmtSize: 16,
+      audioFormat: 1,
+      numChannels: 1,
+      sampleRate: 8000,
+      byteRate: 16000,
+      blockAlign: 2,
+      bitsPerSample: 16,
+      data: "data",
+      dataSize: 2000 * 2,
+    });
+    expect(wav.byteLength).toBe(WAV_HEADER_BYTES + 2000 * 2);
+    expect(wavDurationSeconds(wav.byteLength, 8000, 1)).toBe(0.25);
+
+    const pcm = new DataView(wav, WAV_HEADER_BYTES);
+    expect(pcm.getInt16(200, true)).toBe(32767);
+    expect(pcm.getInt16(202, true)).toBe(-32768);
+    expect(pcm.getInt16(204, true)).toBe(0);
+
+    expectGolden("mono-8k.wav", wav);
+  });
+
+  it("writes an interleaved stereo file matching the golden copy", () => {
+    const left = sine(220, 16000, 0.1, 0.8);
+    const right = left.map((s) => -s);
+    const wav = encodeWav([left, right], 16000);
+
+    const header = readWavHeader(wav);
+    expect(header.numChannels).toBe(2);
+    expect(header.sampleRate).toBe(16000);
+    expect(header.byteRate).toBe(16000 * 4);
+    expect(header.blockAlign).toBe(4);
+    expect(header.dataSize).toBe(1600 * 4);
+    expect(header.riffSize).toBe(wav.byteLength - 8);
+    expect(wavDurationSeconds(wav.byteLength, 16000, 2)).toBeCloseTo(0.1);
+
+    const pcm = new DataView(wav, WAV_HEADER_BYTES);
+    for (const frame of [1, 17, 900]) {
+      expect(pcm.getInt16(frame * 4 + 2, true)).toBe(
+        floatToInt16(right[frame])
+      );
+      expect(pcm.getInt16(frame * 4, true)).toBe(floatToInt16(left[frame]));
+    }
+
+    expectGolden("stereo-16k.wav", wav);
+  });
+
+  it("writes a valid empty file", () => {
+    const wav = encodeWav([new Float32Array(0)], 22050);
+    expect(wav.byteLength).toBe(WAV_HEADER_BYTES);
+    expect(readWavHeader(wav).dataSize).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+// Pure sample/buffer math used by the voice pipeline. Nothing here touches
+// Web Audio or the DOM, so it runs (and is tested) under plain Node.
+
+export const WAV_HEADER_BYTES = 44;
+
+/** Hard-limit a float sample to [-1, 1]; NaN becomes silence. */
+export function clampSample(s: number): number {
+  if (Number.isNaN(s)) return 0;
+  return Math.max(-1, Math.min(1, s));
+}
+
+/** Float sample → signed 16-bit PCM (-32768..32767, truncated). */
+export function floatToInt16(s: number): number {
+  const c = clampSample(s);
+  return Math.trunc(c < 0 ? c * 0x8000 : c * 0x7fff);
+}
+
+/** Average all channels into one. */
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  const length = channels.length ? channels[0].length : 0;
+  const out = new Float32Array(length);
+  if (!channels.length) return out;
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const ch of channels) sum += ch[i] || 0;
+    out[i] = sum / channels.length;
+  }
+  return out;
+}
+
+/**
+ * Map input channels onto `outChannels` outputs: mono is a downmix, more
+ * channels copy the matching input (repeating the last one if short).
+ */
+export function remixChannels(
+  channels: Float32Array[],
+  outChannels: number
+): Float32Array[] {
+  if (outChannels === 1) return [downmixToMono(channels)];
+  const out: Float32Array[] = [];
+  for (let ch = 0; ch < outChannels; ch++) {
+    out.push(channels[Math.min(ch, channels.length - 1)].slice());
+  }
+  return out;
+}
+
+/** L R L R ... for stereo; mono comes back as-is. */
+export function interleave(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const frames = channels[0].length;
+  const out = new Float32Array(frames * channels.length);
+  let idx = 0;
+  for (let i = 0; i < frames; i++) {
+    for (const ch of channels) out[idx++] = ch[i];
+  }
+  return out;
+}
+
+/** Sample count after converting `length` samples between rates. */
+export function resampledLength(
+  length: number,
+  fromRate: number,
+  toRate: number
+): number {
+  return Math.ceil(length * (toRate / fromRate));
+}
+
+export function durationSeconds(frames: number, sampleRate: number): number {
+  return sampleRate > 0 ? frames / sampleRate : 0;
+}
+
+/** Playing time of a 16-bit PCM WAV of `byteLength` bytes. */
+export function wavDurationSeconds(
+  byteLength: number,
+  sampleRate: number,
+  numChannels: number
+): number {
+  const dataBytes = Math.max(0, byteLength - WAV_HEADER_BYTES);
+  return durationSeconds(dataBytes / (2 * numChannels), sampleRate);
+}
+
+function writeString(view: DataView, offset: number, str: string) {
+  for (let i = 0; i < str.length; i++)
+    view.setUint8(offset + i, str.charCodeAt(i));
+}
+
+/** Channels → 16-bit PCM WAV file bytes (canonical 44-byte header). */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number
+): ArrayBuffer {
+  const numChannels = channels.length;
+  const bitDepth = 16;
+  const interleaved = interleave(channels);
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataBytes = interleaved.length * bytesPerSample;
+  const arrayBuffer = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(arrayBuffer);
+
+  // WAV header
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  // PCM samples
+  let offset = WAV_HEADER_BYTES;
+  for (let i = 0; i < interleaved.length; i++, offset += 2) {
+    view.setInt16(offset, floatToInt16(interleaved[i]), true);
+  }
+
+  return arrayBuffer;
+}
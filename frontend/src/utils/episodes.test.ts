@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTimestamp,
+  parseTimestamp,
+  youtubeEmbedUrl,
+  youtubeUrlAt,
+} from "./episodes";
+
+describe("youtubeEmbedUrl", () => {
+  it.each([
+    "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42",
+    "https://youtu.be/dQw4w9WgXcQ",
+    "https://m.youtube.com/watch?v=dQw4w9WgXcQ",
+    "https://youtube.com/shorts/dQw4w9WgXcQ",
+    "https://www.youtube.com/embed/dQw4w9WgXcQ",
+    " https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ ",
+  ])("understands %s", (link) => {
+    expect(youtubeEmbedUrl(link)).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ"
+    );
+  });
+
+  it.each([
+    undefined,
+    "",
+    "not a url",
+    "https://open.spotify.com/episode/x",
+    "https://www.youtube.com/channel/UC123456",
+    "https://youtu.be/",
+  ])("rejects %s", (link) => {
+    expect(youtubeEmbedUrl(link)).toBeNull();
+  });
+});
+
+describe("youtubeUrlAt", () => {
+  it("links to a moment in the video", () => {
+    expect(youtubeUrlAt("https://youtu.be/dQw4w9WgXcQ", 754.6)).toBe(
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=754s"
+    );
+    expect(youtubeUrlAt("https://open.spotify.com/episode/x", 10)).toBeNull();
+  });
+});
+
+describe("timestamps", () => {
+  it.each([
+    [0, "0:00"],
+    [59, "0:59"],
+    [754, "12:34"],
+    [3754, "1:02:34"],
+  ])("formats %i as %s and reads it back", (seconds, text) => {
+    expect(formatTimestamp(seconds)).toBe(text);
+    expect(parseTimestamp(text)).toBe(seconds);
+  });
+
+  it("reads plain seconds and rejects junk", () => {
+    expect(parseTimestamp(" 90 ")).toBe(90);
+    expect(parseTimestamp("")).toBeNull();
+    expect(parseTimestamp("1:xx")).toBeNull();
+    expect(parseTimestamp("1:2:3:4")).toBeNull();
+  });
+});
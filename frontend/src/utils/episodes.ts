@@ -0,0 +1,88 @@
+// Episode catalog (/api/episodes) shared by the homepage and the editor.
+
+export type Episode = {
+  id: string;
+  title: string;
+  description?: string;
+  publishedAt: string;
+  youtubeLink?: string;
+  spotifyLink?: string;
+  coverImage?: string;
+  showNotes?: string;
+  episodeNumber?: number;
+  explicit?: boolean;
+  tags: string[];
+  // the feed enclosure, set by POST /api/episodes/:id/audio
+  audio?: { url: string; mimeType: string; size: number; duration: number };
+  // voice messages answered in this episode (public listing only)
+  answeredMessages?: { title: string | null; timestamp: number | null }[];
+};
+
+export type EpisodeInput = Omit<Episode, "id" | "audio">;
+
+// video id from the YouTube links people paste (watch, youtu.be, shorts, embed)
+function youtubeId(link: string | undefined): string | null {
+  if (!link) return null;
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www\.|m\.)/, "");
+  let id: string | null = null;
+  if (host === "youtu.be") {
+    id = url.pathname.slice(1);
+  } else if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    const [, kind, rest] = url.pathname.split("/");
+    id =
+      kind === "watch"
+        ? url.searchParams.get("v")
+        : ["embed", "shorts", "live"].includes(kind)
+        ? rest
+        : null;
+  }
+
+  return id && /^[\w-]{6,}$/.test(id) ? id : null;
+}
+
+/** Embeddable URL for a pasted YouTube link, or null if it isn't one. */
+export function youtubeEmbedUrl(link: string | undefined): string | null {
+  const id = youtubeId(link);
+  return id ? `https://www.youtube.com/embed/${id}` : null;
+}
+
+/** Watch URL starting `seconds` into the video, or null. */
+export function youtubeUrlAt(
+  link: string | undefined,
+  seconds: number
+): string | null {
+  const id = youtubeId(link);
+  return id
+    ? `https://www.youtube.com/watch?v=${id}&t=${Math.floor(seconds)}s`
+    : null;
+}
+
+/** 754 -> "12:34", 3754 -> "1:02:34" */
+export function formatTimestamp(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s % 60)}` : `${m}:${pad(s % 60)}`;
+}
+
+/** "12:34", "1:02:34" or plain seconds -> seconds; null if unreadable. */
+export function parseTimestamp(text: string): number | null {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  return parts.reduce((total, p) => total * 60 + Number(p), 0);
+}
+
+export const formatEpisodeDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("et-EE", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
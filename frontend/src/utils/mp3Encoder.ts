@@ -0,0 +1,54 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+
+// lame consumes 1152 samples per MPEG frame; feed it whole frames
+const FRAME_SIZE = 1152;
+// report progress roughly every this many frames
+const PROGRESS_EVERY = 64;
+
+/** Float32 [-1, 1] → Int16 PCM */
+function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const out = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+/**
+ * Encode planar float channel data (1 or 2 channels) to MP3 frames.
+ * Pure function so it can run both inside the worker and on the main thread.
+ */
+export function encodeMp3(
+  channelData: Float32Array[],
+  sampleRate: number,
+  kbps: number,
+  onProgress?: (fraction: number) => void
+): Uint8Array[] {
+  const numChannels = Math.min(channelData.length, 2);
+  const encoder = new Mp3Encoder(numChannels, sampleRate, kbps);
+
+  const left = floatTo16BitPCM(channelData[0]);
+  const right = numChannels === 2 ? floatTo16BitPCM(channelData[1]) : undefined;
+
+  const chunks: Uint8Array[] = [];
+  const total = left.length;
+  let frame = 0;
+
+  for (let i = 0; i < total; i += FRAME_SIZE) {
+    const l = left.subarray(i, i + FRAME_SIZE);
+    const r = right ? right.subarray(i, i + FRAME_SIZE) : undefined;
+    const buf = encoder.encodeBuffer(l, r);
+    if (buf.length > 0) chunks.push(buf);
+
+    if (onProgress && ++frame % PROGRESS_EVERY === 0) {
+      onProgress(Math.min(1, (i + FRAME_SIZE) / total));
+    }
+  }
+
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+  onProgress?.(1);
+
+  return chunks;
+}
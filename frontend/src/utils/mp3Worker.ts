@@ -0,0 +1,35 @@
+// Web Worker entry: runs the MP3 encode off the main thread so the
+// processing progress bar keeps updating while lame crunches frames.
+import { encodeMp3 } from "./mp3Encoder";
+
+export type Mp3WorkerRequest = {
+  channelData: Float32Array[];
+  sampleRate: number;
+  kbps: number;
+};
+
+export type Mp3WorkerResponse =
+  | { type: "progress"; fraction: number }
+  | { type: "done"; chunks: Uint8Array[] }
+  | { type: "error"; message: string };
+
+const post = (msg: Mp3WorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(msg, { transfer });
+
+self.onmessage = (ev: MessageEvent<Mp3WorkerRequest>) => {
+  const { channelData, sampleRate, kbps } = ev.data;
+  try {
+    const chunks = encodeMp3(channelData, sampleRate, kbps, (fraction) =>
+      post({ type: "progress", fraction })
+    );
+    post(
+      { type: "done", chunks },
+      chunks.map((c) => c.buffer as ArrayBuffer)
+    );
+  } catch (err) {
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { normalizePhone } from "./phoneNumber";
+
+describe("normalizePhone", () => {
+  it.each([
+    "5551 2345",
+    "+372 5551 2345",
+    "00372-5551-2345",
+    "372 5551 2345",
+    "(+372) 5551.2345",
+  ])("reads %s as an Estonian mobile number", (typed) => {
+    expect(normalizePhone(typed)).toBe("+37255512345");
+  });
+
+  it("keeps other countries", () => {
+    expect(normalizePhone("612 3456")).toBe("+3726123456");
+    expect(normalizePhone("+358 40 123 4567")).toBe("+358401234567");
+    expect(normalizePhone("0044 20 7946 0958")).toBe("+442079460958");
+  });
+
+  it.each([
+    "",
+    "helista",
+    "555-CALL",
+    "123",
+    "0551 2345",
+    "+372 123",
+    "+372 5551 23456",
+    "+0 123 456 789",
+    "+1 234 567 890 123 456",
+  ])("rejects %s", (typed) => {
+    expect(normalizePhone(typed)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+// Phone numbers in E.164 ("+37255512345"), Estonian unless they carry a
+// country code. Mirrors backend/services/phoneNumber.js, which has the
+// final say: the recorder only uses this to point out typos before sending.
+
+const DEFAULT_COUNTRY_CODE = "372";
+
+// what people type between digits: spaces, dashes, dots, brackets, slashes
+const SEPARATORS = /[\s\-./()]/g;
+// Estonian numbers are 7 or 8 digits and never start with 0 or 1
+const ESTONIAN = /^[2-9]\d{6,7}$/;
+// country code first, at most 15 digits in all
+const INTERNATIONAL = /^[1-9]\d{7,14}$/;
+
+/** The number in E.164, or null if `raw` isn't a phone number. */
+export function normalizePhone(raw: string): string | null {
+  const compact = raw.trim().replace(SEPARATORS, "");
+  const match = /^(\+|00)?(\d+)$/.exec(compact);
+  if (!match) return null;
+  const digits = match[2];
+  let international = !!match[1];
+
+  // "372 5551 2345" without the plus is still unambiguous: national
+  // numbers are at most 8 digits
+  if (
+    !international &&
+    digits.startsWith(DEFAULT_COUNTRY_CODE) &&
+    ESTONIAN.test(digits.slice(DEFAULT_COUNTRY_CODE.length))
+  ) {
+    international = true;
+  }
+  if (!international) {
+    return ESTONIAN.test(digits) ? `+${DEFAULT_COUNTRY_CODE}${digits}` : null;
+  }
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return ESTONIAN.test(digits.slice(DEFAULT_COUNTRY_CODE.length))
+      ? `+${digits}`
+      : null;
+  }
+  return INTERNATIONAL.test(digits) ? `+${digits}` : null;
+}
+
+/** What POST /audio/records/:id/reveal-phone returns (owner only). */
+export type RevealedPhone = {
+  phone: string; // as the listener typed it
+  phoneE164: string | null; // null for older numbers that don't parse
+};
@@ -0,0 +1,50 @@
+import axios from "axios";
+
+// Proof-of-work for the upload spam check (backend services/spamChallenge.js):
+// find a nonce so sha256(`${token}:${nonce}`) starts with `difficulty` zero
+// bits. Takes a second or two on a phone, which is nothing for a person and
+// expensive for a script sending thousands of messages.
+
+type Challenge = { token: string; difficulty: number };
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/**
+ * Fetch and solve a challenge. Resolves with the fields to add to the
+ * upload; if the challenge can't be fetched the upload goes without it
+ * (the server then decides whether to quarantine or refuse).
+ */
+export async function solveUploadChallenge(
+  apiBase: string
+): Promise<Record<string, string>> {
+  let challenge: Challenge;
+  try {
+    const res = await axios.get<Challenge>(`${apiBase}/api/upload/challenge`);
+    challenge = res.data;
+  } catch (err) {
+    console.warn("Upload challenge unavailable:", err);
+    return {};
+  }
+
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      encoder.encode(`${challenge.token}:${nonce}`)
+    );
+    if (leadingZeroBits(new Uint8Array(digest)) >= challenge.difficulty) {
+      return { challengeToken: challenge.token, challengeNonce: String(nonce) };
+    }
+  }
+}
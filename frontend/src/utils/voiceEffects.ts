@@ -0,0 +1,146 @@
+// Sample-domain voice effects that the WebAudio graph can't do on its own.
+// Both take and return a mono Float32Array of the same length.
+import { SimpleFilter, SoundTouch } from "soundtouchjs";
+
+const ST_BLOCK = 4096;
+// SimpleFilter only processes full 16k-frame input blocks, so feed it
+// enough trailing silence to push the last real samples through the pipe
+const ST_TAIL_PADDING = 8192 * 4;
+
+/** Shift pitch by `semitones` while keeping the original tempo. */
+export function pitchShift(
+  samples: Float32Array,
+  semitones: number
+): Float32Array {
+  if (!semitones) return samples;
+
+  const st = new SoundTouch();
+  st.pitchSemitones = semitones;
+  st.tempo = 1;
+
+  const paddedLength = samples.length + ST_TAIL_PADDING;
+  const source = {
+    // soundtouch works on interleaved stereo; duplicate mono into both
+    extract(target: Float32Array, numFrames: number, position: number) {
+      const n = Math.max(0, Math.min(numFrames, paddedLength - position));
+      for (let i = 0; i < n; i++) {
+        const s = samples[position + i] || 0;
+        target[i * 2] = s;
+        target[i * 2 + 1] = s;
+      }
+      return n;
+    },
+  };
+
+  const filter = new SimpleFilter(source, st);
+  const out = new Float32Array(samples.length);
+  const block = new Float32Array(ST_BLOCK * 2);
+  let written = 0;
+
+  while (written < out.length) {
+    const n = filter.extract(block, ST_BLOCK);
+    if (n === 0) break;
+    const take = Math.min(n, out.length - written);
+    for (let i = 0; i < take; i++) out[written + i] = block[i * 2];
+    written += take;
+  }
+
+  return out;
+}
+
+/* -------------------- Whisper (random-phase STFT) -------------------- */
+
+const WHISPER_FRAME = 512;
+const WHISPER_HOP = WHISPER_FRAME / 4;
+
+/** In-place iterative radix-2 FFT; `inverse` skips the 1/N scaling. */
+function fft(re: Float32Array, im: Float32Array, inverse: boolean) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wr = Math.cos(ang);
+    const wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        const nr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = nr;
+      }
+    }
+  }
+}
+
+/**
+ * Keep each short-time spectrum's magnitude but randomize its phase.
+ * Formants survive, pitch (periodicity) does not — the voice becomes a whisper.
+ */
+export function whisperize(samples: Float32Array): Float32Array {
+  const N = WHISPER_FRAME;
+  const window = new Float32Array(N);
+  for (let i = 0; i < N; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / N);
+  }
+
+  const out = new Float32Array(samples.length);
+  const norm = new Float32Array(samples.length);
+  const re = new Float32Array(N);
+  const im = new Float32Array(N);
+
+  for (
+    let start = -N + WHISPER_HOP;
+    start < samples.length;
+    start += WHISPER_HOP
+  ) {
+    for (let i = 0; i < N; i++) {
+      const idx = start + i;
+      re[i] = idx >= 0 && idx < samples.length ? samples[idx] * window[i] : 0;
+      im[i] = 0;
+    }
+
+    fft(re, im, false);
+
+    // keep DC/Nyquist real, mirror the random phases for a real result
+    for (let k = 1; k < N / 2; k++) {
+      const mag = Math.hypot(re[k], im[k]);
+      const phase = Math.random() * 2 * Math.PI;
+      re[k] = mag * Math.cos(phase);
+      im[k] = mag * Math.sin(phase);
+      re[N - k] = re[k];
+      im[N - k] = -im[k];
+    }
+
+    fft(re, im, true);
+
+    for (let i = 0; i < N; i++) {
+      const idx = start + i;
+      if (idx < 0 || idx >= samples.length) continue;
+      out[idx] += (re[i] / N) * window[i];
+      norm[idx] += window[i] * window[i];
+    }
+  }
+
+  for (let i = 0; i < out.length; i++) {
+    if (norm[i] > 1e-6) out[i] /= norm[i];
+  }
+
+  return out;
+}
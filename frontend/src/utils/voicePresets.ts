@@ -0,0 +1,79 @@
+// Voice disguise presets. Each one is plain data that processAndCompress
+// interprets; adding a new voice only means adding an entry here.
+
+export type FilterSpec = {
+  type: BiquadFilterType;
+  frequency: number;
+  gain?: number;
+  Q?: number;
+};
+
+export type VoicePreset = {
+  /** shown next to the preview player */
+  label: string;
+  /** pitch shift in semitones, tempo preserved (soundtouch) */
+  pitchSemitones?: number;
+  /** ring modulator carrier frequency in Hz, gives a robotic timbre */
+  ringModHz?: number;
+  /** replace voiced excitation with noise (random-phase STFT) */
+  whisper?: boolean;
+  /** biquad chain applied after the other effects, in order */
+  filters?: FilterSpec[];
+  /** output gain, linear */
+  gain?: number;
+};
+
+export const VOICE_PRESETS = {
+  voice1: {
+    label: "Hääl 1",
+    pitchSemitones: 2.4, // ~1.15x lift, less chipmunk, same tempo
+    filters: [
+      { type: "highshelf", frequency: 4000, gain: 3 }, // gentle brightness
+      { type: "lowshelf", frequency: 200, gain: 2 }, // warmth
+    ],
+  },
+  deep: {
+    label: "Sügav hääl",
+    pitchSemitones: -5,
+    filters: [
+      { type: "lowshelf", frequency: 180, gain: 3 },
+      { type: "highshelf", frequency: 5000, gain: -4 },
+    ],
+  },
+  high: {
+    label: "Kõrge hääl",
+    pitchSemitones: 4,
+    filters: [{ type: "highshelf", frequency: 4000, gain: 2 }],
+  },
+  robot: {
+    label: "Robot",
+    ringModHz: 55,
+    filters: [{ type: "peaking", frequency: 1200, gain: 4, Q: 1 }],
+    gain: 1.4,
+  },
+  whisper: {
+    label: "Sosin",
+    whisper: true,
+    filters: [{ type: "highpass", frequency: 300 }],
+    gain: 1.8, // random phases partly cancel in overlap-add
+  },
+  radio: {
+    label: "Telefon",
+    pitchSemitones: -2,
+    filters: [
+      { type: "highpass", frequency: 400, Q: 0.9 },
+      { type: "lowpass", frequency: 3200, Q: 0.9 },
+      { type: "peaking", frequency: 1500, gain: 6, Q: 1.2 },
+    ],
+  },
+} satisfies Record<string, VoicePreset>;
+
+export type VoiceType = keyof typeof VOICE_PRESETS;
+
+export const VOICE_LIST = Object.keys(VOICE_PRESETS) as VoiceType[];
+
+export function getVoicePreset(voice: VoiceType): VoicePreset {
+  const preset = VOICE_PRESETS[voice];
+  if (!preset) throw new Error(`Unknown voice preset: ${voice}`);
+  return preset;
+}
@@ -0,0 +1,30 @@
+// Deletion tokens for sent voice messages. The upload response carries a
+// token that deletes the message again (POST /api/upload/withdraw); the
+// listener may keep it in this browser so the /kustuta page can list it.
+
+export type SavedMessage = { token: string; title: string; sentAt: string };
+
+const STORAGE_KEY = "voiceMessageTokens";
+
+export function savedMessages(): SavedMessage[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberMessage(message: SavedMessage) {
+  const rest = savedMessages().filter((m) => m.token !== message.token);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([message, ...rest]));
+}
+
+export function forgetMessage(token: string) {
+  const rest = savedMessages().filter((m) => m.token !== token);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+}
+
+// the token goes in the fragment, so it never reaches server logs
+export const withdrawLink = (token: string) =>
+  `${window.location.origin}/kustuta#${token}`;